@@ -0,0 +1,56 @@
+import { deflateSync } from "zlib";
+
+import {
+  MAX_ATTACHMENT_TEXT_BYTES,
+  extractAttachmentText,
+  isTextExtractable,
+} from "../utils/attachmentText";
+
+function pdfWithContent(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content, "latin1"));
+  return Buffer.concat([
+    Buffer.from(
+      `%PDF-1.4\n4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+      "latin1"
+    ),
+    stream,
+    Buffer.from("\nendstream\nendobj\n%%EOF", "latin1"),
+  ]);
+}
+
+describe("attachment text extraction", () => {
+  it("only accepts small text and PDF attachments", () => {
+    expect(isTextExtractable("text/csv", 1200)).toBe(true);
+    expect(isTextExtractable("application/pdf", 1200)).toBe(true);
+    expect(isTextExtractable("image/png", 1200)).toBe(false);
+    expect(
+      isTextExtractable("application/pdf", MAX_ATTACHMENT_TEXT_BYTES + 1)
+    ).toBe(false);
+  });
+
+  it("reads text drawn in a compressed PDF content stream", () => {
+    const pdf = pdfWithContent(
+      "BT /F1 12 Tf 72 712 Td (Invoice \\(draft\\) total: $42) Tj T* [(Due ) -250 (Friday)] TJ ET"
+    );
+
+    expect(extractAttachmentText("application/pdf", pdf)).toBe(
+      "Invoice (draft) total: $42\nDue Friday"
+    );
+  });
+
+  it("normalizes whitespace and truncates long text", () => {
+    const text = extractAttachmentText(
+      "text/plain",
+      Buffer.from(`Line one\r\n\r\n\r\n\r\nLine   two ${"x".repeat(50)}`),
+      20
+    );
+
+    expect(text).toBe("Line one\n\nLine two x...");
+  });
+
+  it("returns null when nothing readable is left", () => {
+    expect(extractAttachmentText("text/plain", Buffer.from("  \n "))).toBe(
+      null
+    );
+  });
+});
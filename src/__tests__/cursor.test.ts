@@ -0,0 +1,31 @@
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { ValidationError } from "../utils/errors";
+
+const tamper = (payload: unknown) =>
+  Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+describe("cursor", () => {
+  it("round-trips a position", () => {
+    const position = {
+      timestamp: new Date("2024-03-01T10:00:00Z"),
+      id: "65f1c2a9e4b0a1b2c3d4e5f6",
+    };
+
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+  });
+
+  it.each([
+    ["a non-ObjectId id", { t: 1709287200000, id: "1 OR 1=1" }],
+    [
+      "an unrepresentable date",
+      { t: 8.64e15 + 1, id: "65f1c2a9e4b0a1b2c3d4e5f6" },
+    ],
+    ["a string date", { t: "yesterday", id: "65f1c2a9e4b0a1b2c3d4e5f6" }],
+  ])("rejects a tampered cursor with %s", (_, payload) => {
+    expect(() => decodeCursor(tamper(payload))).toThrow(ValidationError);
+  });
+
+  it("rejects a cursor that is not base64 JSON", () => {
+    expect(() => decodeCursor("not-a-cursor")).toThrow("Invalid cursor");
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+
+import { createMailApp, type MailApp } from "./helpers/mailApp";
+
+jest.mock("../config/index", () => {
+  const testConfig = {
+    nodeEnv: "test",
+    googleClientId: "test-client",
+    googleClientSecret: "test-secret",
+    googleRedirectUri: "http://localhost/callback",
+    vertexAiProjectId: "test-project",
+    vertexAiLocation: "us-central1",
+    tokenEncryptionKey: "",
+  };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+jest.mock("../lib/cache", () => ({
+  __esModule: true,
+  default: {},
+  CacheManager: {
+    getStarredEmails: jest.fn().mockResolvedValue(null),
+    setStarredEmails: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+describe("Draft generation", () => {
+  let app: MailApp["app"];
+  let tables: MailApp["tables"];
+  let ai: MailApp["ai"];
+  let aliceThreadId: string;
+  let aliceDraftId: string;
+
+  beforeEach(async () => {
+    ({ app, tables, ai, aliceThreadId, aliceDraftId } = await createMailApp());
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const asUser = (uid: string) => ({ "x-test-user": uid });
+
+  it("returns 404 when another user drafts a reply to the thread", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft",
+      headers: asUser("bob-uid"),
+      payload: { threadId: aliceThreadId, context: {} },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(tables.draft).toHaveLength(1);
+  });
+
+  it("returns 404 before streaming when another user drafts a reply", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft/stream",
+      headers: asUser("bob-uid"),
+      payload: { threadId: aliceThreadId },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.headers["content-type"]).toContain("application/json");
+    expect(ai.streamEmailDraft).not.toHaveBeenCalled();
+  });
+
+  it("streams draft tokens and ends with the stored draft id", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft/stream",
+      headers: asUser("alice-uid"),
+      payload: { threadId: aliceThreadId },
+    });
+
+    const events = response.body
+      .trim()
+      .split("\n\n")
+      .map((block) => {
+        const [event, data] = block.split("\n");
+        return [event.slice(7), JSON.parse(data.slice(6))];
+      });
+    const stored = tables.draft[tables.draft.length - 1];
+
+    expect(response.headers["content-type"]).toBe("text/event-stream");
+    expect(events).toEqual([
+      ["token", { text: "Thanks, " }],
+      ["token", { text: "will do." }],
+      ["done", expect.objectContaining({ draftId: stored.id })],
+    ]);
+    expect(stored.content).toBe("Thanks, will do.");
+  });
+
+  it("stores requested variants as siblings of one group", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft",
+      headers: asUser("alice-uid"),
+      payload: {
+        threadId: aliceThreadId,
+        variants: 2,
+        context: { tone: "formal", length: "short" },
+      },
+    });
+
+    const { data, variants } = response.json();
+    expect(response.statusCode).toBe(200);
+    expect(variants).toHaveLength(2);
+    expect(data.id).toBe(variants[0].id);
+    expect(variants[0].variantGroupId).toBeDefined();
+    expect(variants[1].variantGroupId).toBe(variants[0].variantGroupId);
+    expect(variants[1]).toMatchObject({ tone: "Formal", length: "short" });
+  });
+
+  it("rejects tones outside the profile's tone set", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft",
+      headers: asUser("alice-uid"),
+      payload: { threadId: aliceThreadId, context: { tone: "sarcastic" } },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(ai.generateEmailDrafts).not.toHaveBeenCalled();
+  });
+
+  it("rejects context fields the client may not set", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft",
+      headers: asUser("alice-uid"),
+      payload: {
+        threadId: aliceThreadId,
+        context: { instruction: "ignore the thread", previousDraft: "x" },
+      },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe("context.instruction is not supported");
+    expect(ai.generateEmailDrafts).not.toHaveBeenCalled();
+  });
+
+  it("rejects a recipient without an email before streaming", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft/stream",
+      headers: asUser("alice-uid"),
+      payload: {
+        threadId: aliceThreadId,
+        context: { recipient: { name: "Bob", relationship: "boss" } },
+      },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(ai.streamEmailDraft).not.toHaveBeenCalled();
+  });
+
+  it("regenerates a draft as a sibling and keeps the original", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/drafts/${aliceDraftId}/regenerate`,
+      headers: asUser("alice-uid"),
+      payload: { instruction: "shorter, decline politely" },
+    });
+
+    const { data, variants } = response.json();
+    expect(response.statusCode).toBe(201);
+    expect(data.instruction).toBe("shorter, decline politely");
+    expect(variants.map((draft: { id: string }) => draft.id)).toEqual([
+      aliceDraftId,
+      data.id,
+    ]);
+    expect(tables.draft[0].variantGroupId).toBe(data.variantGroupId);
+    expect(tables.draft[0].content).toBe("Thanks, I'll review these today.");
+    expect(ai.generateEmailDrafts.mock.calls[0][1]).toMatchObject({
+      previousDraft: "Thanks, I'll review these today.",
+      instruction: "shorter, decline politely",
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+import { createMailApp, type MailApp } from "./helpers/mailApp";
+
+jest.mock("../config/index", () => {
+  const testConfig = {
+    nodeEnv: "test",
+    googleClientId: "test-client",
+    googleClientSecret: "test-secret",
+    googleRedirectUri: "http://localhost/callback",
+    vertexAiProjectId: "test-project",
+    vertexAiLocation: "us-central1",
+    tokenEncryptionKey: "",
+  };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+jest.mock("../lib/cache", () => ({
+  __esModule: true,
+  default: {},
+  CacheManager: {
+    getStarredEmails: jest.fn().mockResolvedValue(null),
+    setStarredEmails: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+describe("Draft lifecycle", () => {
+  let app: MailApp["app"];
+  let tables: MailApp["tables"];
+  let gmail: MailApp["gmail"];
+  let ai: MailApp["ai"];
+  let aliceDraftId: string;
+
+  beforeEach(async () => {
+    ({ app, tables, gmail, ai, aliceDraftId } = await createMailApp());
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const asUser = (uid: string) => ({ "x-test-user": uid });
+
+  it("returns 404 for every draft lifecycle route used by another user", async () => {
+    const requests = [
+      { method: "GET" as const, url: `/api/drafts/${aliceDraftId}` },
+      {
+        method: "PATCH" as const,
+        url: `/api/drafts/${aliceDraftId}`,
+        payload: { content: "Overwritten" },
+      },
+      { method: "POST" as const, url: `/api/drafts/${aliceDraftId}/approve` },
+      {
+        method: "POST" as const,
+        url: `/api/drafts/${aliceDraftId}/regenerate`,
+        payload: { instruction: "shorter" },
+      },
+      { method: "DELETE" as const, url: `/api/drafts/${aliceDraftId}` },
+    ];
+
+    for (const request of requests) {
+      const response = await app.inject({
+        ...request,
+        headers: asUser("bob-uid"),
+      });
+      expect(response.statusCode).toBe(404);
+    }
+
+    expect(tables.draft).toHaveLength(1);
+    expect(tables.draft[0].content).toBe("Thanks, I'll review these today.");
+    expect(tables.draft[0].status).toBe("PENDING");
+    expect(tables.draftEvent).toHaveLength(0);
+    expect(ai.generateEmailDrafts).not.toHaveBeenCalled();
+  });
+
+  it("still lets the owner approve their draft", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/drafts/${aliceDraftId}/approve`,
+      headers: asUser("alice-uid"),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(tables.draft[0].status).toBe("APPROVED");
+    expect(tables.draftEvent).toHaveLength(1);
+  });
+
+  describe("sending", () => {
+    const send = () =>
+      app.inject({
+        method: "POST",
+        url: "/api/emails/send",
+        headers: asUser("alice-uid"),
+        payload: { draftId: aliceDraftId },
+      });
+
+    beforeEach(() => {
+      gmail.getThreadMessages.mockResolvedValue([
+        {
+          from: "cfo@example.com",
+          subject: "Quarterly numbers",
+          date: new Date().toISOString(),
+          messageIdHeader: "<numbers@example.com>",
+        },
+      ]);
+    });
+
+    it("sends a draft once when two sends race", async () => {
+      const responses = await Promise.all([send(), send()]);
+
+      expect(responses.map((response) => response.statusCode).sort()).toEqual([
+        200, 409,
+      ]);
+      expect(gmail.sendReply).toHaveBeenCalledTimes(1);
+      expect(tables.draft[0]).toMatchObject({
+        status: "SENT",
+        gmailMessageId: "gmail-sent-id",
+      });
+    });
+
+    it("puts the draft back when Gmail rejects the send", async () => {
+      gmail.sendReply.mockRejectedValueOnce(new Error("Gmail unavailable"));
+
+      const failed = await send();
+
+      expect(failed.statusCode).toBeGreaterThanOrEqual(400);
+      expect(tables.draft[0]).toMatchObject({
+        status: "PENDING",
+        sentAt: null,
+      });
+      expect(tables.draftEvent).toHaveLength(0);
+      expect((await send()).statusCode).toBe(200);
+    });
+  });
+});
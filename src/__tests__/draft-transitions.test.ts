@@ -0,0 +1,168 @@
+import type { PrismaClient } from "@prisma/client";
+
+import { EmailRepository } from "../repositories/EmailRepository";
+import { UserRepository } from "../repositories/UserRepository";
+import { DraftService } from "../services/DraftService";
+import type { EventService } from "../services/EventService";
+import type { DraftStatus } from "../types";
+import {
+  ALLOWED_SOURCE_STATUSES,
+  canApplyDraftAction,
+  canDeleteDraft,
+  type DraftTransitionAction,
+} from "../utils/drafts";
+
+import { createFakePrisma } from "./helpers/fakePrisma";
+
+jest.mock("../config/index", () => {
+  const testConfig = { nodeEnv: "test", tokenEncryptionKey: "" };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+const STATUSES: DraftStatus[] = [
+  "PENDING",
+  "EDITED",
+  "APPROVED",
+  "REJECTED",
+  "SENT",
+];
+
+describe("draft transition table", () => {
+  it.each([
+    ["EDITED", ["PENDING", "EDITED", "APPROVED"]],
+    ["APPROVED", ["PENDING", "EDITED"]],
+    ["REJECTED", ["PENDING", "EDITED", "APPROVED"]],
+    ["SENT", ["PENDING", "EDITED", "APPROVED"]],
+  ] as Array<[DraftTransitionAction, DraftStatus[]]>)(
+    "allows %s only from %j",
+    (action, allowed) => {
+      expect(ALLOWED_SOURCE_STATUSES[action]).toEqual(allowed);
+      for (const status of STATUSES) {
+        expect(canApplyDraftAction(status, action)).toBe(
+          allowed.includes(status)
+        );
+      }
+    }
+  );
+
+  it("treats rejected and sent drafts as final", () => {
+    for (const action of Object.keys(
+      ALLOWED_SOURCE_STATUSES
+    ) as DraftTransitionAction[]) {
+      expect(canApplyDraftAction("REJECTED", action)).toBe(false);
+      expect(canApplyDraftAction("SENT", action)).toBe(false);
+    }
+    expect(canDeleteDraft("REJECTED")).toBe(true);
+    expect(canDeleteDraft("SENT")).toBe(false);
+  });
+});
+
+describe("DraftService transitions", () => {
+  let tables: ReturnType<typeof createFakePrisma>["tables"];
+  let service: DraftService;
+  let emailRepository: EmailRepository;
+  let publish: jest.Mock;
+  let draftId: string;
+
+  beforeEach(() => {
+    const fake = createFakePrisma();
+    tables = fake.tables;
+    const prisma = fake.client as unknown as PrismaClient;
+
+    const userId = fake.nextId();
+    tables.user.push({ id: userId, firebaseUid: "alice-uid" });
+    draftId = fake.nextId();
+    tables.draft.push({
+      id: draftId,
+      threadId: fake.nextId(),
+      userId,
+      content: "Thanks, I'll review these today.",
+      status: "PENDING",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    publish = jest.fn().mockResolvedValue(null);
+    emailRepository = new EmailRepository(prisma);
+    service = new DraftService(emailRepository, new UserRepository(prisma), {
+      publish,
+    } as unknown as EventService);
+  });
+
+  it("records one event per action with the status it left", async () => {
+    await service.editDraft("alice-uid", draftId, "Thanks,\nreviewing now.");
+    await service.approveDraft("alice-uid", draftId);
+    await service.rejectDraft("alice-uid", draftId, "  wrong thread ");
+
+    expect(tables.draft[0].status).toBe("REJECTED");
+    expect(
+      tables.draftEvent.map(({ action, metadata }) => [action, metadata])
+    ).toEqual([
+      [
+        "EDITED",
+        expect.objectContaining({
+          previousStatus: "PENDING",
+          linesAdded: 2,
+          linesRemoved: 1,
+        }),
+      ],
+      ["APPROVED", { previousStatus: "EDITED" }],
+      ["REJECTED", { previousStatus: "APPROVED", reason: "wrong thread" }],
+    ]);
+    expect(publish.mock.calls.map(([, , data]) => data.status)).toEqual([
+      "EDITED",
+      "APPROVED",
+      "REJECTED",
+    ]);
+  });
+
+  it("answers an illegal transition with 409 and leaves the draft alone", async () => {
+    tables.draft[0].status = "REJECTED";
+
+    const results = [
+      await service.approveDraft("alice-uid", draftId),
+      await service.editDraft("alice-uid", draftId, "Second thoughts"),
+    ];
+
+    expect(results.map(({ statusCode, error }) => [statusCode, error])).toEqual(
+      [
+        [409, "Cannot approve a draft that is rejected"],
+        [409, "Cannot edit a draft that is rejected"],
+      ]
+    );
+    expect(tables.draft[0].content).toBe("Thanks, I'll review these today.");
+    expect(tables.draftEvent).toHaveLength(0);
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it("refuses to approve twice", async () => {
+    await service.approveDraft("alice-uid", draftId);
+    const second = await service.approveDraft("alice-uid", draftId);
+
+    expect(second.statusCode).toBe(409);
+    expect(tables.draftEvent).toHaveLength(1);
+  });
+
+  it("does not rewrite a draft that was sent after it was read", async () => {
+    const stale = await emailRepository.findDraftById(
+      tables.user[0].id as string,
+      draftId
+    );
+    jest.spyOn(emailRepository, "findDraftById").mockResolvedValue(stale);
+    tables.draft[0].status = "SENT";
+
+    const result = await service.editDraft(
+      "alice-uid",
+      draftId,
+      "Edited after sending"
+    );
+
+    expect(result.statusCode).toBe(409);
+    expect(tables.draft[0]).toMatchObject({
+      status: "SENT",
+      content: "Thanks, I'll review these today.",
+    });
+    expect(tables.draftEvent).toHaveLength(0);
+    expect(publish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * @jest-environment node
+ */
+
+import { EventEmitter } from "events";
+
+import type { PrismaClient } from "@prisma/client";
+
+import { GmailIntegration } from "../integrations/GmailIntegration";
+import { EmailRepository } from "../repositories/EmailRepository";
+import { LabelRepository } from "../repositories/LabelRepository";
+import { UserRepository } from "../repositories/UserRepository";
+import { EmailService } from "../services/EmailService";
+import type { EventService } from "../services/EventService";
+import { GmailTokenManager } from "../services/GmailTokenManager";
+import type { GmailCredentials, GmailMessage } from "../types";
+import { SyncCursorExpiredError } from "../utils/errors";
+
+import { createFakePrisma } from "./helpers/fakePrisma";
+
+jest.mock("../config/index", () => {
+  const testConfig = {
+    nodeEnv: "test",
+    vertexAiProjectId: "test-project",
+    vertexAiLocation: "us-central1",
+    tokenEncryptionKey: "",
+  };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+// Only messages.list is exercised here: 120 inbox messages served in pages
+// of whatever maxResults asks for
+jest.mock("googleapis", () => {
+  class FakeOAuth2 extends EventEmitter {
+    credentials = {};
+
+    setCredentials(credentials: object) {
+      this.credentials = credentials;
+    }
+  }
+
+  const inbox = Array.from({ length: 120 }, (_, index) => ({
+    id: `inbox-${index}`,
+  }));
+  const list = jest.fn(
+    async ({
+      maxResults,
+      pageToken,
+    }: {
+      maxResults: number;
+      pageToken?: string;
+    }) => {
+      const start = Number(pageToken ?? 0);
+      const end = start + Math.min(maxResults, 50);
+      return {
+        data: {
+          messages: inbox.slice(start, end),
+          nextPageToken: end < inbox.length ? String(end) : undefined,
+        },
+      };
+    }
+  );
+
+  return {
+    google: {
+      auth: { OAuth2: FakeOAuth2 },
+      gmail: () => ({ users: { messages: { list } } }),
+    },
+  };
+});
+
+jest.mock("../lib/cache", () => ({
+  __esModule: true,
+  default: {},
+  CacheManager: {
+    getStarredEmails: jest.fn().mockResolvedValue(null),
+    setStarredEmails: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+function gmailMessage(
+  id: string,
+  threadId: string,
+  labelIds: string[] = ["INBOX"]
+): GmailMessage {
+  return {
+    id,
+    threadId,
+    subject: `Subject of ${threadId}`,
+    from: "sender@example.com",
+    to: "alice@example.com",
+    date: new Date().toISOString(),
+    snippet: `Body of ${id}`,
+    isUnread: labelIds.includes("UNREAD"),
+    labelIds,
+  };
+}
+
+describe("EmailService.syncUserEmails", () => {
+  let tables: ReturnType<typeof createFakePrisma>["tables"];
+  let service: EmailService;
+  let publish: jest.Mock;
+  let mailbox: Map<string, GmailMessage>;
+  let gmail: {
+    getProfile: jest.Mock;
+    listMessageIds: jest.Mock;
+    listHistory: jest.Mock;
+    getMessagesByIds: jest.Mock;
+    onTokensRefreshed: jest.Mock;
+    onGrantRevoked: jest.Mock;
+  };
+
+  const storedGmailIds = () =>
+    tables.email.map((email) => email.gmailId).sort();
+  const syncedHistoryId = () => tables.syncState[0]?.historyId;
+
+  beforeEach(() => {
+    const fake = createFakePrisma();
+    tables = fake.tables;
+    const prisma = fake.client as unknown as PrismaClient;
+    tables.user.push({
+      id: fake.nextId(),
+      firebaseUid: "alice-uid",
+      email: "alice@example.com",
+      accessToken: "alice-access",
+      refreshToken: "alice-refresh",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    mailbox = new Map(
+      [
+        gmailMessage("m1", "t1"),
+        gmailMessage("m2", "t1", ["INBOX", "UNREAD"]),
+      ].map((message) => [message.id, message])
+    );
+    gmail = {
+      getProfile: jest.fn().mockResolvedValue({
+        emailAddress: "alice@example.com",
+        historyId: "100",
+      }),
+      listMessageIds: jest.fn(async () =>
+        Array.from(mailbox.values())
+          .filter((message) => message.labelIds?.includes("INBOX"))
+          .map((message) => message.id)
+      ),
+      listHistory: jest.fn(),
+      getMessagesByIds: jest.fn(async (_tokens: unknown, ids: string[]) =>
+        ids.flatMap((id) => mailbox.get(id) ?? [])
+      ),
+      onTokensRefreshed: jest.fn(),
+      onGrantRevoked: jest.fn(),
+    };
+    publish = jest.fn().mockResolvedValue(null);
+
+    const userRepository = new UserRepository(prisma);
+    service = new EmailService(
+      new EmailRepository(prisma),
+      userRepository,
+      gmail as unknown as GmailIntegration,
+      {} as never,
+      { publish } as unknown as EventService,
+      new GmailTokenManager(
+        userRepository,
+        gmail as unknown as GmailIntegration
+      ),
+      new LabelRepository(prisma)
+    );
+  });
+
+  it("bootstraps with a full sync and stores the history cursor", async () => {
+    const result = await service.syncUserEmails("alice-uid");
+
+    expect(result.data).toMatchObject({
+      mode: "full",
+      added: 2,
+      updated: 0,
+      removed: 0,
+    });
+    expect(storedGmailIds()).toEqual(["m1", "m2"]);
+    expect(tables.thread).toHaveLength(1);
+    expect(syncedHistoryId()).toBe("100");
+    expect(gmail.listMessageIds).toHaveBeenCalledWith(
+      expect.objectContaining({ firebaseUid: "alice-uid" }),
+      "in:inbox",
+      500
+    );
+    expect(gmail.listHistory).not.toHaveBeenCalled();
+    expect(publish).toHaveBeenCalledWith("alice-uid", "inbox_updated", {
+      mode: "full",
+      added: 2,
+      updated: 0,
+      removed: 0,
+    });
+  });
+
+  it("applies history changes since the stored cursor", async () => {
+    await service.syncUserEmails("alice-uid");
+    gmail.listMessageIds.mockClear();
+    gmail.listHistory.mockResolvedValue({
+      historyId: "120",
+      addedMessageIds: ["m3", "m4", "m5", "m6"],
+      deletedMessageIds: ["m1"],
+      labelChanges: [
+        { messageId: "m2", labelIds: ["INBOX", "STARRED"] },
+        { messageId: "unknown", labelIds: ["INBOX"] },
+      ],
+    });
+    gmail.getMessagesByIds.mockResolvedValue([
+      // New inbox thread
+      gmailMessage("m3", "t2"),
+      // Sent reply on a thread already mirrored
+      gmailMessage("m4", "t1", ["SENT"]),
+      // Outside the inbox on an unknown thread
+      gmailMessage("m5", "t3", ["SENT"]),
+      gmailMessage("m6", "t4", ["SPAM"]),
+    ]);
+
+    const result = await service.syncUserEmails("alice-uid");
+
+    expect(gmail.listHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ firebaseUid: "alice-uid" }),
+      "100"
+    );
+    expect(gmail.listMessageIds).not.toHaveBeenCalled();
+    expect(result.data).toMatchObject({
+      mode: "incremental",
+      added: 2,
+      updated: 1,
+      removed: 1,
+    });
+    expect(storedGmailIds()).toEqual(["m2", "m3", "m4"]);
+    expect(tables.email.find((email) => email.gmailId === "m2")).toMatchObject({
+      labelIds: ["INBOX", "STARRED"],
+      isUnread: false,
+    });
+    expect(syncedHistoryId()).toBe("120");
+  });
+
+  it("falls back to a full sync that reconciles what changed meanwhile", async () => {
+    await service.syncUserEmails("alice-uid");
+    gmail.listHistory.mockRejectedValue(
+      new SyncCursorExpiredError("Gmail history 100 is no longer available")
+    );
+    gmail.getProfile.mockResolvedValue({
+      emailAddress: "alice@example.com",
+      historyId: "500",
+    });
+    // While the cursor was expired: m1 was deleted, m2 archived and read,
+    // and m7 arrived
+    mailbox.delete("m1");
+    mailbox.set("m2", gmailMessage("m2", "t1", ["IMPORTANT"]));
+    mailbox.set("m7", gmailMessage("m7", "t5"));
+
+    const result = await service.syncUserEmails("alice-uid");
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      mode: "full",
+      added: 1,
+      updated: 1,
+      removed: 1,
+    });
+    expect(storedGmailIds()).toEqual(["m2", "m7"]);
+    expect(tables.email.find((email) => email.gmailId === "m2")).toMatchObject({
+      labelIds: ["IMPORTANT"],
+      isUnread: false,
+    });
+    expect(syncedHistoryId()).toBe("500");
+  });
+
+  it("reports other history failures instead of resyncing", async () => {
+    await service.syncUserEmails("alice-uid");
+    gmail.listMessageIds.mockClear();
+    gmail.listHistory.mockRejectedValue(new Error("Gmail unavailable"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await service.syncUserEmails("alice-uid");
+
+    expect(result.success).toBe(false);
+    expect(gmail.listMessageIds).not.toHaveBeenCalled();
+    expect(syncedHistoryId()).toBe("100");
+    expect(publish).toHaveBeenLastCalledWith("alice-uid", "sync_failed", {
+      error: expect.any(String),
+    });
+  });
+});
+
+describe("GmailIntegration.listMessageIds", () => {
+  const tokens: GmailCredentials = {
+    firebaseUid: "alice-uid",
+    accessToken: "alice-access",
+  };
+
+  it("follows nextPageToken across pages up to the limit", async () => {
+    const gmail = new GmailIntegration();
+
+    const all = await gmail.listMessageIds(tokens, "in:inbox", 500);
+    const capped = await gmail.listMessageIds(tokens, "in:inbox", 70);
+
+    expect(all).toHaveLength(120);
+    expect(all[119]).toBe("inbox-119");
+    expect(capped).toEqual(
+      Array.from({ length: 70 }, (_, index) => `inbox-${index}`)
+    );
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @jest-environment node
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+
+import Fastify, { type FastifyInstance } from "fastify";
+import type Redis from "ioredis";
+
+import { EventController } from "../controllers/EventController";
+import { EVENT_KEYS, EventService } from "../services/EventService";
+
+/**
+ * In-memory stand-in for the stream and pub/sub commands EventService
+ * uses. Stream ids count up from 1-0 and MAXLEN trims exactly.
+ */
+function createFakeRedis() {
+  const streams = new Map<string, Array<[string, string[]]>>();
+  const subscribed = new Set<string>();
+  const messageHandlers: Array<(channel: string, message: string) => void> = [];
+  let sequence = 0;
+
+  const publisher = {
+    xadd: jest.fn(async (key: string, ...args: Array<string | number>) => {
+      const maxLen = args[0] === "MAXLEN" ? Number(args[2]) : Infinity;
+      const fields = args.slice(args.indexOf("*") + 1).map(String);
+      const entries = streams.get(key) ?? [];
+      const id = `${++sequence}-0`;
+      entries.push([id, fields]);
+      streams.set(key, entries.slice(-maxLen));
+      return id;
+    }),
+    expire: jest.fn(async () => 1),
+    publish: jest.fn(async (channel: string, message: string) => {
+      if (!subscribed.has(channel)) return 0;
+      messageHandlers.forEach((handler) => handler(channel, message));
+      return 1;
+    }),
+    xrange: jest.fn(async (key: string, start: string) => {
+      const after = Number(start.replace(/^\(/, "").split("-")[0]);
+      return (streams.get(key) ?? []).filter(
+        ([id]) => Number(id.split("-")[0]) > after
+      );
+    }),
+  };
+
+  const subscriber = {
+    on: jest.fn(
+      (_event: string, handler: (channel: string, message: string) => void) =>
+        messageHandlers.push(handler)
+    ),
+    subscribe: jest.fn(async (channel: string) => subscribed.add(channel)),
+    unsubscribe: jest.fn(async (channel: string) => subscribed.delete(channel)),
+    quit: jest.fn(async () => "OK"),
+  };
+
+  return {
+    streams,
+    publisher,
+    subscriber,
+    service: new EventService(
+      publisher as unknown as Redis,
+      subscriber as unknown as Redis
+    ),
+  };
+}
+
+describe("EventService", () => {
+  it("replays only the events after the given Last-Event-ID", async () => {
+    const { service } = createFakeRedis();
+    const first = await service.publish("alice", "draft_generated", { n: 1 });
+    await service.publish("alice", "draft_generated", { n: 2 });
+    await service.publish("alice", "profile_ready", { n: 3 });
+    await service.publish("bob", "draft_generated", { n: 4 });
+
+    const missed = await service.replaySince("alice", first?.id ?? "");
+
+    expect(missed.map((event) => [event.type, event.data])).toEqual([
+      ["draft_generated", { n: 2 }],
+      ["profile_ready", { n: 3 }],
+    ]);
+    expect(await service.replaySince("alice", "not-an-id")).toEqual([]);
+  });
+
+  it("caps each user's stream and refreshes its expiry on publish", async () => {
+    const { service, publisher, streams } = createFakeRedis();
+
+    for (let n = 0; n < 205; n++) {
+      await service.publish("alice", "draft_generated", { n });
+    }
+
+    expect(publisher.xadd).toHaveBeenLastCalledWith(
+      EVENT_KEYS.STREAM("alice"),
+      "MAXLEN",
+      "~",
+      200,
+      "*",
+      "type",
+      "draft_generated",
+      "timestamp",
+      expect.any(String),
+      "data",
+      JSON.stringify({ n: 204 })
+    );
+    expect(streams.get(EVENT_KEYS.STREAM("alice"))).toHaveLength(200);
+    expect(publisher.expire).toHaveBeenLastCalledWith(
+      EVENT_KEYS.STREAM("alice"),
+      3600
+    );
+  });
+
+  it("keeps the channel subscribed until the last listener leaves", async () => {
+    const { service, subscriber } = createFakeRedis();
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const unsubscribeFirst = await service.subscribe("alice", first);
+    const unsubscribeSecond = await service.subscribe("alice", second);
+    await service.publish("alice", "draft_generated", { n: 1 });
+    await unsubscribeFirst();
+    await service.publish("alice", "draft_generated", { n: 2 });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+    expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+
+    await unsubscribeSecond();
+    expect(subscriber.unsubscribe).toHaveBeenCalledWith(
+      EVENT_KEYS.CHANNEL("alice")
+    );
+  });
+});
+
+describe("GET /api/events", () => {
+  let app: FastifyInstance;
+  let unsubscribe: jest.Mock;
+  let replaySince: jest.Mock;
+
+  beforeEach(async () => {
+    unsubscribe = jest.fn().mockResolvedValue(undefined);
+    replaySince = jest.fn().mockResolvedValue([
+      {
+        id: "7-0",
+        type: "draft_generated",
+        timestamp: new Date().toISOString(),
+        data: { draftId: "d1" },
+      },
+    ]);
+    const eventService = {
+      subscribe: jest.fn().mockResolvedValue(unsubscribe),
+      replaySince,
+    } as unknown as EventService;
+    const controller = new EventController(eventService);
+
+    app = Fastify();
+    app.addHook("onRequest", async (request, reply) => {
+      request.firebaseUser = {
+        userId: "user-1",
+        firebaseUid: "alice-uid",
+        email: "alice@example.com",
+      };
+      reply.header("Access-Control-Allow-Origin", "http://localhost:3000");
+    });
+    app.get("/api/events", controller.streamEvents.bind(controller));
+    await app.listen({ port: 0, host: "127.0.0.1" });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("replays from Last-Event-ID and unsubscribes when the client leaves", async () => {
+    const { port } = app.server.address() as AddressInfo;
+
+    const { headers, body } = await new Promise<{
+      headers: http.IncomingHttpHeaders;
+      body: string;
+    }>((resolve, reject) => {
+      const request = http.get(
+        {
+          port,
+          host: "127.0.0.1",
+          path: "/api/events",
+          headers: { "Last-Event-ID": "5-0" },
+        },
+        (response) => {
+          let received = "";
+          response.on("data", (chunk: Buffer) => {
+            received += chunk.toString();
+            if (received.includes("id: 7-0")) {
+              request.destroy();
+              resolve({ headers: response.headers, body: received });
+            }
+          });
+        }
+      );
+      request.on("error", reject);
+    });
+
+    expect(headers["content-type"]).toBe("text/event-stream");
+    expect(headers["access-control-allow-origin"]).toBe(
+      "http://localhost:3000"
+    );
+    expect(replaySince).toHaveBeenCalledWith("alice-uid", "5-0");
+    expect(body).toContain("id: 7-0\nevent: draft_generated\n");
+
+    // The server sees the disconnect asynchronously
+    for (let i = 0; i < 50 && !unsubscribe.mock.calls.length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
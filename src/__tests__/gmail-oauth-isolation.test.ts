@@ -0,0 +1,169 @@
+/**
+ * @jest-environment node
+ */
+
+import { EventEmitter } from "events";
+
+import { GmailClientPool } from "../integrations/GmailClientPool";
+import { GmailIntegration } from "../integrations/GmailIntegration";
+import type { UserRepository } from "../repositories/UserRepository";
+import { GmailTokenManager } from "../services/GmailTokenManager";
+import type { GmailCredentials } from "../types";
+import { GmailReconnectRequiredError } from "../utils/errors";
+
+jest.mock("../config/index", () => {
+  const testConfig = {
+    nodeEnv: "test",
+    googleClientId: "test-client",
+    googleClientSecret: "test-secret",
+    googleRedirectUri: "http://localhost/callback",
+    tokenEncryptionKey: "",
+  };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+type FakeCredentials = { access_token?: string; refresh_token?: string };
+
+jest.mock("googleapis", () => {
+  class FakeOAuth2 extends EventEmitter {
+    credentials: FakeCredentials = {};
+
+    setCredentials(credentials: FakeCredentials) {
+      this.credentials = credentials;
+    }
+  }
+
+  const pause = () =>
+    new Promise((resolve) => setTimeout(resolve, Math.random() * 5));
+
+  // Like the real client, the token is read when the request goes out,
+  // after whatever awaits precede it
+  const gmail = ({ auth }: { auth: FakeOAuth2 }) => ({
+    users: {
+      getProfile: async () => {
+        await pause();
+        // What gaxios throws when the client's automatic refresh is refused
+        if (auth.credentials.access_token === "revoked-token") {
+          throw Object.assign(new Error("invalid_grant"), {
+            response: { data: { error: "invalid_grant" } },
+          });
+        }
+        return {
+          data: {
+            emailAddress: `${auth.credentials.access_token}@example.com`,
+            historyId: "1",
+          },
+        };
+      },
+      threads: {
+        get: async ({ id }: { id: string }) => {
+          await pause();
+          return {
+            data: {
+              messages: [
+                {
+                  id: `${id}-message`,
+                  threadId: id,
+                  payload: {
+                    headers: [
+                      { name: "Subject", value: "Hello" },
+                      {
+                        name: "From",
+                        value: `${auth.credentials.access_token}@example.com`,
+                      },
+                    ],
+                    body: {},
+                  },
+                },
+              ],
+            },
+          };
+        },
+      },
+    },
+  });
+
+  return { google: { auth: { OAuth2: FakeOAuth2 }, gmail } };
+});
+
+function credentialsFor(firebaseUid: string): GmailCredentials {
+  return {
+    firebaseUid,
+    accessToken: `${firebaseUid}-token`,
+    refreshToken: `${firebaseUid}-refresh`,
+  };
+}
+
+describe("GmailIntegration OAuth isolation", () => {
+  it("never lets interleaved calls for different users share tokens", async () => {
+    const gmail = new GmailIntegration();
+    const users = ["alice", "bob", "carol"];
+
+    const calls = Array.from({ length: 60 }, (_, index) => {
+      const firebaseUid = users[index % users.length];
+      const tokens = credentialsFor(firebaseUid);
+      const expected = `${tokens.accessToken}@example.com`;
+
+      return index % 2 === 0
+        ? gmail
+            .getProfile(tokens)
+            .then((profile) => [expected, profile.emailAddress])
+        : gmail
+            .getThreadMessages(tokens, `thread-${index}`)
+            .then((messages) => [expected, messages[0]?.from]);
+    });
+
+    const results = await Promise.all(calls);
+
+    for (const [expected, seen] of results) {
+      expect(seen).toBe(expected);
+    }
+  });
+
+  it("reuses one client per user and evicts the least recently used", () => {
+    const pool = new GmailClientPool(2);
+
+    const alice = pool.acquire(credentialsFor("alice"));
+    pool.acquire(credentialsFor("bob"));
+    expect(pool.acquire(credentialsFor("alice"))).toBe(alice);
+
+    pool.acquire(credentialsFor("carol"));
+
+    expect(pool.size).toBe(2);
+    expect(pool.acquire(credentialsFor("alice"))).toBe(alice);
+    expect(pool.acquire(credentialsFor("bob")).credentials).toEqual(
+      expect.objectContaining({ access_token: "bob-token" })
+    );
+  });
+
+  it("reports tokens refreshed by a user's client under that user", () => {
+    const pool = new GmailClientPool();
+    const listener = jest.fn();
+    pool.onTokensRefreshed(listener);
+
+    const client = pool.acquire(credentialsFor("alice"));
+    client.emit("tokens", { access_token: "alice-token-2" });
+
+    expect(listener).toHaveBeenCalledWith(
+      "alice",
+      expect.objectContaining({ accessToken: "alice-token-2" })
+    );
+  });
+
+  it("flags the account when a refresh inside a Gmail call hits invalid_grant", async () => {
+    const gmail = new GmailIntegration();
+    const userRepository = {
+      markGmailReconnectRequired: jest.fn().mockResolvedValue(undefined),
+    };
+    new GmailTokenManager(userRepository as unknown as UserRepository, gmail);
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(
+      gmail.getProfile({ firebaseUid: "dave", accessToken: "revoked-token" })
+    ).rejects.toBeInstanceOf(GmailReconnectRequiredError);
+
+    expect(userRepository.markGmailReconnectRequired).toHaveBeenCalledWith(
+      "dave"
+    );
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * @jest-environment node
+ */
+
+import Fastify, { type FastifyInstance } from "fastify";
+
+import { WebhookController } from "../controllers/WebhookController";
+import type { GmailIntegration } from "../integrations/GmailIntegration";
+import type { UserRepository } from "../repositories/UserRepository";
+import {
+  GmailPushService,
+  type GmailPushSettings,
+} from "../services/GmailPushService";
+import type { GmailTokenManager } from "../services/GmailTokenManager";
+import type { JobQueueService } from "../services/JobQueueService";
+import { redactQueryParams } from "../utils/helpers";
+
+jest.mock("../config/index", () => {
+  const testConfig = {
+    nodeEnv: "test",
+    googleClientId: "test-client",
+    googleClientSecret: "test-secret",
+    googleRedirectUri: "http://localhost/callback",
+    tokenEncryptionKey: "",
+  };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+const PUSH_TOKEN = "shared-push-token";
+
+/**
+ * Builds the body Pub/Sub POSTs to a push subscription for a Gmail
+ * notification.
+ */
+function pubSubEnvelope(notification: unknown) {
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify(notification)).toString("base64"),
+      messageId: "pubsub-message-1",
+      publishTime: new Date().toISOString(),
+    },
+    subscription: "projects/test/subscriptions/gmail-push",
+  };
+}
+
+describe("Gmail push webhook", () => {
+  let app: FastifyInstance;
+  let enqueue: jest.Mock;
+  let verifyPushToken: jest.Mock;
+
+  async function startApp(settings: GmailPushSettings) {
+    const userRepository = {
+      findByEmail: jest.fn(async (email: string) =>
+        email === "alice@example.com"
+          ? { id: "user-1", firebaseUid: "alice-uid", email }
+          : null
+      ),
+    };
+
+    const pushService = new GmailPushService(
+      userRepository as unknown as UserRepository,
+      { verifyPushToken } as unknown as GmailIntegration,
+      {} as GmailTokenManager,
+      { enqueue } as unknown as JobQueueService,
+      { topic: "projects/test/topics/gmail", ...settings }
+    );
+    const controller = new WebhookController(pushService);
+
+    app = Fastify();
+    app.post(
+      "/api/webhooks/gmail",
+      controller.handleGmailPush.bind(controller)
+    );
+    await app.ready();
+  }
+
+  beforeEach(() => {
+    enqueue = jest.fn().mockResolvedValue({ id: "job-1" });
+    verifyPushToken = jest.fn().mockResolvedValue(null);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe("with OIDC configured", () => {
+    beforeEach(() =>
+      startApp({
+        token: PUSH_TOKEN,
+        audience: "https://api.example.com/api/webhooks/gmail",
+        serviceAccount: "push@test.iam.gserviceaccount.com",
+      })
+    );
+
+    it("accepts an OIDC token from the configured service account", async () => {
+      verifyPushToken.mockResolvedValue("push@test.iam.gserviceaccount.com");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/webhooks/gmail",
+        headers: { authorization: "Bearer signed-jwt" },
+        payload: pubSubEnvelope({
+          emailAddress: "alice@example.com",
+          historyId: "12345",
+        }),
+      });
+
+      expect(response.statusCode).toBe(204);
+      expect(verifyPushToken).toHaveBeenCalledWith(
+        "signed-jwt",
+        "https://api.example.com/api/webhooks/gmail"
+      );
+      expect(enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects tokens issued to another service account", async () => {
+      verifyPushToken.mockResolvedValue("intruder@example.com");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/webhooks/gmail",
+        headers: { authorization: "Bearer signed-jwt" },
+        payload: pubSubEnvelope({
+          emailAddress: "alice@example.com",
+          historyId: 1,
+        }),
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("ignores the shared token", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: `/api/webhooks/gmail?token=${PUSH_TOKEN}`,
+        payload: pubSubEnvelope({
+          emailAddress: "alice@example.com",
+          historyId: 1,
+        }),
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("with only the shared token configured", () => {
+    beforeEach(() => startApp({ token: PUSH_TOKEN }));
+
+    it("queues a sync for a known mailbox", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: `/api/webhooks/gmail?token=${PUSH_TOKEN}`,
+        payload: pubSubEnvelope({
+          emailAddress: "alice@example.com",
+          historyId: 12345,
+        }),
+      });
+
+      expect(response.statusCode).toBe(204);
+      expect(enqueue).toHaveBeenCalledWith(
+        "email.sync",
+        "alice-uid",
+        {},
+        { dedupeKey: "email.sync:alice-uid" }
+      );
+    });
+
+    it("answers 500 when the sync cannot be queued so Pub/Sub redelivers", async () => {
+      enqueue.mockRejectedValue(new Error("Redis connection lost"));
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/api/webhooks/gmail?token=${PUSH_TOKEN}`,
+        payload: pubSubEnvelope({
+          emailAddress: "alice@example.com",
+          historyId: 12345,
+        }),
+      });
+
+      expect(response.statusCode).toBe(500);
+    });
+
+    it("rejects pushes without a valid token", async () => {
+      for (const url of [
+        "/api/webhooks/gmail?token=wrong",
+        `/api/webhooks/gmail?token=${PUSH_TOKEN}x`,
+        "/api/webhooks/gmail",
+      ]) {
+        const response = await app.inject({
+          method: "POST",
+          url,
+          headers: { authorization: "Bearer forged-jwt" },
+          payload: pubSubEnvelope({
+            emailAddress: "alice@example.com",
+            historyId: 1,
+          }),
+        });
+
+        expect(response.statusCode).toBe(401);
+      }
+      expect(verifyPushToken).not.toHaveBeenCalled();
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("acknowledges notifications for unknown mailboxes without syncing", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: `/api/webhooks/gmail?token=${PUSH_TOKEN}`,
+        payload: pubSubEnvelope({
+          emailAddress: "stranger@example.com",
+          historyId: 1,
+        }),
+      });
+
+      expect(response.statusCode).toBe(204);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 for a malformed payload", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: `/api/webhooks/gmail?token=${PUSH_TOKEN}`,
+        payload: {
+          message: { data: Buffer.from("not json").toString("base64") },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("redactQueryParams", () => {
+  it("masks the push token and leaves other parameters alone", () => {
+    expect(
+      redactQueryParams("/api/webhooks/gmail?a=1&token=s3cret&b=2", ["token"])
+    ).toBe("/api/webhooks/gmail?a=1&token=[REDACTED]&b=2");
+    expect(redactQueryParams("/api/webhooks/gmail", ["token"])).toBe(
+      "/api/webhooks/gmail"
+    );
+  });
+
+  it("keeps malformed escapes instead of throwing", () => {
+    expect(redactQueryParams("/health?%zz=1&token=s3cret", ["token"])).toBe(
+      "/health?%zz=1&token=[REDACTED]"
+    );
+    expect(redactQueryParams("/health?tok%65n=s3cret", ["token"])).toBe(
+      "/health?tok%65n=[REDACTED]"
+    );
+  });
+});
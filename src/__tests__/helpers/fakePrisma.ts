@@ -0,0 +1,182 @@
+export type Row = Record<string, unknown> & { id: string };
+type Where = Record<string, unknown>;
+
+/**
+ * Minimal in-memory stand-in for the Prisma delegates the email, draft and
+ * profile repositories use. Filters support equality, `{ in: [...] }` and
+ * `{ has: value }`.
+ */
+export function createFakePrisma() {
+  const tables: Record<string, Row[]> = {
+    user: [],
+    thread: [],
+    email: [],
+    draft: [],
+    draftEvent: [],
+    threadSummary: [],
+    styleProfileVersion: [],
+    syncState: [],
+  };
+  let sequence = 0;
+  const nextId = () => (++sequence).toString(16).padStart(24, "0");
+
+  const matches = (row: Row, where: Where = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (value === undefined) return true;
+      if (value !== null && typeof value === "object" && "in" in value) {
+        return (value.in as unknown[]).includes(row[key]);
+      }
+      if (value !== null && typeof value === "object" && "has" in value) {
+        return ((row[key] as unknown[]) ?? []).includes(value.has);
+      }
+      return row[key] === value;
+    });
+
+  // Single-key orderBy, e.g. { version: "desc" }
+  const sorted = (rows: Row[], orderBy?: Record<string, "asc" | "desc">) => {
+    const [key, direction] = Object.entries(orderBy ?? {})[0] ?? [];
+    if (!key) return rows;
+    const sign = direction === "desc" ? -1 : 1;
+    return [...rows].sort((a, b) =>
+      (a[key] as number) < (b[key] as number) ? -sign : sign
+    );
+  };
+
+  const withRelations = (
+    table: string,
+    row: Row,
+    include?: Record<string, unknown>
+  ): Row => {
+    if (!include) return { ...row };
+    const result: Row = { ...row };
+    if (table === "thread" && include.emails) {
+      result.emails = tables.email.filter((e) => e.threadId === row.id);
+    }
+    if (table === "draft" && include.events) {
+      result.events = tables.draftEvent.filter((e) => e.draftId === row.id);
+    }
+    return result;
+  };
+
+  const applyData = (row: Row, data: Record<string, unknown>) => {
+    const { events, ...fields } = data as {
+      events?: { create: Record<string, unknown> };
+    } & Record<string, unknown>;
+    Object.assign(row, fields, { updatedAt: new Date() });
+    if (events?.create) {
+      tables.draftEvent.push({
+        id: nextId(),
+        draftId: row.id,
+        createdAt: new Date(),
+        ...events.create,
+      });
+    }
+    return row;
+  };
+
+  const delegate = (table: string) => ({
+    findUnique: async ({
+      where,
+      include,
+    }: {
+      where: Where;
+      include?: Record<string, unknown>;
+    }) => {
+      const row = tables[table].find((r) => matches(r, where));
+      return row ? withRelations(table, row, include) : null;
+    },
+    findFirst: async ({
+      where,
+      include,
+      orderBy,
+    }: {
+      where: Where;
+      include?: Record<string, unknown>;
+      orderBy?: Record<string, "asc" | "desc">;
+    }) => {
+      const row = sorted(tables[table], orderBy).find((r) => matches(r, where));
+      return row ? withRelations(table, row, include) : null;
+    },
+    findMany: async ({
+      where,
+      orderBy,
+    }: { where?: Where; orderBy?: Record<string, "asc" | "desc"> } = {}) =>
+      sorted(tables[table], orderBy)
+        .filter((r) => matches(r, where))
+        .map((r) => ({ ...r })),
+    count: async ({ where }: { where?: Where } = {}) =>
+      tables[table].filter((r) => matches(r, where)).length,
+    create: async ({ data }: { data: Record<string, unknown> }) => {
+      const row: Row = {
+        id: nextId(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      tables[table].push(applyData(row, data));
+      return { ...row };
+    },
+    update: async ({
+      where,
+      data,
+    }: {
+      where: Where;
+      data: Record<string, unknown>;
+    }) => {
+      const row = tables[table].find((r) => matches(r, where));
+      if (!row) throw new Error("Record to update not found.");
+      return { ...applyData(row, data) };
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: Where;
+      data: Record<string, unknown>;
+    }) => {
+      const rows = tables[table].filter((r) => matches(r, where));
+      rows.forEach((row) => applyData(row, data));
+      return { count: rows.length };
+    },
+    upsert: async ({
+      where,
+      create,
+      update,
+    }: {
+      where: Where;
+      create: Record<string, unknown>;
+      update: Record<string, unknown>;
+    }) => {
+      const row = tables[table].find((r) => matches(r, where));
+      if (row) return { ...applyData(row, update) };
+      const created: Row = { id: nextId(), createdAt: new Date() };
+      tables[table].push(applyData(created, create));
+      return { ...created };
+    },
+    delete: async ({ where }: { where: Where }) => {
+      const index = tables[table].findIndex((r) => matches(r, where));
+      if (index < 0) throw new Error("Record to delete does not exist.");
+      const [row] = tables[table].splice(index, 1);
+      return row;
+    },
+    deleteMany: async ({ where }: { where?: Where } = {}) => {
+      const kept = tables[table].filter((r) => !matches(r, where));
+      const count = tables[table].length - kept.length;
+      tables[table] = kept;
+      return { count };
+    },
+  });
+
+  const client = {
+    user: delegate("user"),
+    thread: delegate("thread"),
+    email: delegate("email"),
+    draft: delegate("draft"),
+    draftEvent: delegate("draftEvent"),
+    threadSummary: delegate("threadSummary"),
+    styleProfileVersion: delegate("styleProfileVersion"),
+    syncState: delegate("syncState"),
+    $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(client),
+  };
+
+  return { client, tables, nextId };
+}
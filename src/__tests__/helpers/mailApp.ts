@@ -0,0 +1,253 @@
+import type { PrismaClient } from "@prisma/client";
+import Fastify, {
+  type FastifyInstance,
+  type FastifyReply,
+  type FastifyRequest,
+} from "fastify";
+
+import { DraftController } from "../../controllers/DraftController";
+import { EmailController } from "../../controllers/EmailController";
+import { ProfileController } from "../../controllers/ProfileController";
+import type { AIIntegration } from "../../integrations/AIIntegration";
+import type { GmailIntegration } from "../../integrations/GmailIntegration";
+import { EmailRepository } from "../../repositories/EmailRepository";
+import { LabelRepository } from "../../repositories/LabelRepository";
+import { UserRepository } from "../../repositories/UserRepository";
+import { DraftService } from "../../services/DraftService";
+import { EmailService } from "../../services/EmailService";
+import type { EventService } from "../../services/EventService";
+import { GmailTokenManager } from "../../services/GmailTokenManager";
+import { UserService } from "../../services/UserService";
+import { DEFAULT_STYLE_PROFILE } from "../../utils/styleProfile";
+
+import { createFakePrisma, type Row } from "./fakePrisma";
+
+export type MailApp = Awaited<ReturnType<typeof createMailApp>>;
+
+/**
+ * Fastify app wired to the real controllers, services and repositories over
+ * the fake Prisma client, with Gmail and the model mocked out. Alice owns one
+ * thread with one email and one pending draft; Bob owns nothing.
+ *
+ * Suites using it must mock `../config/index` and `../lib/cache`, which the
+ * services import.
+ */
+export async function createMailApp() {
+  const fake = createFakePrisma();
+  const { tables } = fake;
+  const prisma = fake.client as unknown as PrismaClient;
+
+  const seedUser = (firebaseUid: string, email: string): Row => {
+    const user: Row = {
+      id: fake.nextId(),
+      firebaseUid,
+      email,
+      name: null,
+      picture: null,
+      accessToken: `${firebaseUid}-access`,
+      refreshToken: `${firebaseUid}-refresh`,
+      onboardingStatus: "ACTIVE",
+      aiStyleProfile: DEFAULT_STYLE_PROFILE,
+      lastActive: new Date(),
+      isOnline: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    tables.user.push(user);
+    return user;
+  };
+
+  const alice = seedUser("alice-uid", "alice@example.com");
+  seedUser("bob-uid", "bob@example.com");
+
+  const aliceThreadId = fake.nextId();
+  tables.thread.push({
+    id: aliceThreadId,
+    gmailId: "gmail-thread-alice",
+    subject: "Quarterly numbers",
+    userId: alice.id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  tables.email.push({
+    id: fake.nextId(),
+    gmailId: "gmail-message-alice",
+    threadId: aliceThreadId,
+    userId: alice.id,
+    from: "cfo@example.com",
+    to: "alice@example.com",
+    subject: "Quarterly numbers",
+    body: "Confidential figures attached.",
+    htmlBody: null,
+    timestamp: new Date(),
+    isUnread: true,
+    createdAt: new Date(),
+  });
+
+  const aliceDraftId = fake.nextId();
+  tables.draft.push({
+    id: aliceDraftId,
+    threadId: aliceThreadId,
+    userId: alice.id,
+    content: "Thanks, I'll review these today.",
+    status: "PENDING",
+    tone: null,
+    gmailMessageId: null,
+    sentAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const gmail = {
+    getThreadMessages: jest.fn().mockResolvedValue([]),
+    sendReply: jest.fn().mockResolvedValue("gmail-sent-id"),
+    modifyThread: jest.fn().mockResolvedValue([]),
+    onTokensRefreshed: jest.fn(),
+    onGrantRevoked: jest.fn(),
+  };
+  const ai = {
+    generateEmailDrafts: jest.fn(
+      async (_profile: unknown, _context: unknown, count = 1) =>
+        Array.from(
+          { length: count },
+          (_, index) => `Generated reply ${index + 1}`
+        )
+    ),
+    streamEmailDraft: jest.fn(async function* () {
+      yield "Thanks, ";
+      yield "will do.";
+    }),
+    summarizeThread: jest.fn().mockResolvedValue({
+      tldr: "CFO shared confidential figures.",
+      decisions: [],
+      openQuestions: [],
+      actionItems: [{ task: "Review the figures", owner: "Alice" }],
+      deadlines: [],
+    }),
+  };
+  const events = { publish: jest.fn().mockResolvedValue(null) };
+
+  const emailRepository = new EmailRepository(prisma);
+  const userRepository = new UserRepository(prisma);
+  const emailService = new EmailService(
+    emailRepository,
+    userRepository,
+    gmail as unknown as GmailIntegration,
+    ai as unknown as AIIntegration,
+    events as unknown as EventService,
+    new GmailTokenManager(userRepository, gmail as unknown as GmailIntegration),
+    new LabelRepository(prisma)
+  );
+  const emailController = new EmailController(emailService);
+  const draftController = new DraftController(
+    new DraftService(
+      emailRepository,
+      userRepository,
+      events as unknown as EventService
+    )
+  );
+  const profileController = new ProfileController(
+    new UserService(userRepository, ai as unknown as AIIntegration)
+  );
+
+  // Stand-in for requireAuth/requireGmailAuth: trust a test header
+  const authenticate = async (request: FastifyRequest, reply: FastifyReply) => {
+    const uid = request.headers["x-test-user"];
+    if (typeof uid !== "string") {
+      return reply.status(401).send({ error: "Unauthorized" });
+    }
+    request.firebaseUser = {
+      userId: uid,
+      firebaseUid: uid,
+      email: `${uid}@example.com`,
+    };
+  };
+
+  const app: FastifyInstance = Fastify();
+  app.get(
+    "/api/emails/:id",
+    { preHandler: authenticate },
+    emailController.getMessage.bind(emailController)
+  );
+  app.get(
+    "/api/emails/:id/summary",
+    { preHandler: authenticate },
+    emailController.getThreadSummary.bind(emailController)
+  );
+  app.post(
+    "/api/emails/draft",
+    { preHandler: authenticate },
+    emailController.generateDraft.bind(emailController)
+  );
+  app.post(
+    "/api/emails/draft/stream",
+    { preHandler: authenticate },
+    emailController.streamDraft.bind(emailController)
+  );
+  app.post(
+    "/api/emails/send",
+    { preHandler: authenticate },
+    emailController.sendEmail.bind(emailController)
+  );
+  app.post(
+    "/api/emails/:id/reply",
+    { preHandler: authenticate },
+    emailController.replyToMessage.bind(emailController)
+  );
+  app.post(
+    "/api/emails/:id/:action",
+    { preHandler: authenticate },
+    emailController.applyThreadAction.bind(emailController)
+  );
+  app.post(
+    "/api/drafts/:id/regenerate",
+    { preHandler: authenticate },
+    emailController.regenerateDraft.bind(emailController)
+  );
+  app.get(
+    "/api/drafts/:id",
+    { preHandler: authenticate },
+    draftController.getDraft.bind(draftController)
+  );
+  app.patch(
+    "/api/drafts/:id",
+    { preHandler: authenticate },
+    draftController.updateDraft.bind(draftController)
+  );
+  app.post(
+    "/api/drafts/:id/approve",
+    { preHandler: authenticate },
+    draftController.approveDraft.bind(draftController)
+  );
+  app.delete(
+    "/api/drafts/:id",
+    { preHandler: authenticate },
+    draftController.deleteDraft.bind(draftController)
+  );
+  app.get(
+    "/api/profile/style",
+    { preHandler: authenticate },
+    profileController.getStyleProfile.bind(profileController)
+  );
+  app.patch(
+    "/api/profile/style",
+    { preHandler: authenticate },
+    profileController.updateStyleProfile.bind(profileController)
+  );
+  app.post(
+    "/api/profile/style/versions/:id/rollback",
+    { preHandler: authenticate },
+    profileController.rollbackStyleProfile.bind(profileController)
+  );
+  await app.ready();
+
+  return {
+    app,
+    tables,
+    gmail,
+    ai,
+    events,
+    aliceThreadId,
+    aliceDraftId,
+  };
+}
@@ -0,0 +1,92 @@
+import { sanitizeEmailHtml, sanitizeHtml, textToHtml } from "../utils/html";
+
+describe("sanitizeHtml", () => {
+  it("strips scripts, frames and inline event handlers", () => {
+    const html =
+      '<div onmouseover="steal()">Hi<script>alert(1)</script><iframe src="https://x.example"></iframe></div>';
+
+    expect(sanitizeHtml(html)).toBe("<div>Hi</div>");
+  });
+
+  it("drops javascript: links even when the scheme is obfuscated", () => {
+    const html =
+      '<a href="java&#x09;script:alert(1)">a</a><a href=" JavaScript:alert(1)">b</a><a href="https://example.com">c</a>';
+
+    expect(sanitizeHtml(html)).toBe(
+      '<a>a</a><a>b</a><a href="https://example.com">c</a>'
+    );
+  });
+
+  it("strips handlers a pattern match would miss", () => {
+    expect(sanitizeHtml("<img/onerror=alert(1) src=x>")).toBe(
+      '<img src="x" />'
+    );
+    expect(sanitizeHtml('<img alt=">" onerror="alert(1)" src=x>')).toBe(
+      '<img alt="&gt;" src="x" />'
+    );
+  });
+
+  it("drops tags outside the allowlist but keeps their text", () => {
+    expect(
+      sanitizeHtml('<form action="https://x.example"><p>Hi</p><input></form>')
+    ).toBe("<p>Hi</p>");
+  });
+});
+
+describe("sanitizeEmailHtml", () => {
+  it("moves remote images behind a placeholder and keeps inline ones", () => {
+    const result = sanitizeEmailHtml(
+      '<img src="https://cdn.example.com/logo.png" alt="Acme &amp; Co" width="120" /><img src="cid:logo@example.com" />'
+    );
+
+    expect(result.html).toBe(
+      '<img data-remote-src="https://cdn.example.com/logo.png" src="data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7" alt="Acme &amp; Co" width="120" /><img src="cid:logo@example.com" />'
+    );
+    expect(result.remoteContentBlocked).toBe(true);
+    expect(result.trackingPixelsBlocked).toBe(0);
+  });
+
+  it("removes and counts tracking pixels", () => {
+    const result = sanitizeEmailHtml(
+      [
+        "<p>Hello</p>",
+        '<img src="https://t.example.com/open?id=1" width="1" height="1" />',
+        '<img src="//t.example.com/o.gif" style="width: 0px; height: 0px">',
+        '<img src="https://t.example.com/p.gif" style="display:none">',
+      ].join("")
+    );
+
+    expect(result.html).toBe("<p>Hello</p>");
+    expect(result.trackingPixelsBlocked).toBe(3);
+    expect(result.remoteContentBlocked).toBe(true);
+  });
+
+  it("blocks remote CSS in style blocks and attributes", () => {
+    const result = sanitizeEmailHtml(
+      '<style>@import url("https://x.example/a.css"); p { color: red }</style><td style="background: url(\'https://x.example/bg.png\'); color: red" background="https://x.example/t.png">Hi</td>'
+    );
+
+    expect(result.html).toBe(
+      '<style> p { color: red }</style><td style="background:none;color:red" data-remote-background="https://x.example/t.png">Hi</td>'
+    );
+    expect(result.remoteContentBlocked).toBe(true);
+  });
+
+  it("leaves messages without remote content untouched", () => {
+    const html = '<p style="color:#333">Plain <b>text</b></p>';
+
+    expect(sanitizeEmailHtml(html)).toEqual({
+      html,
+      remoteContentBlocked: false,
+      trackingPixelsBlocked: 0,
+    });
+  });
+});
+
+describe("textToHtml", () => {
+  it("escapes markup and keeps line breaks", () => {
+    expect(textToHtml("<b>FYI</b> & see below\r\nThanks")).toBe(
+      "&lt;b&gt;FYI&lt;/b&gt; &amp; see below<br>Thanks"
+    );
+  });
+});
@@ -0,0 +1,381 @@
+import type Redis from "ioredis";
+
+import { JOB_KEYS, JobRepository } from "../repositories/JobRepository";
+import { JobQueueService } from "../services/JobQueueService";
+import type { Job } from "../types";
+
+const WEEK_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * In-memory stand-in for the Redis commands JobRepository uses. The Lua
+ * scripts are recognised by the command they guard.
+ */
+function createFakeRedis() {
+  const values = new Map<string, string>();
+  const ttls = new Map<string, number>();
+  const lists = new Map<string, string[]>();
+  const sortedSets = new Map<string, Map<string, number>>();
+
+  const list = (key: string) => {
+    if (!lists.has(key)) lists.set(key, []);
+    return lists.get(key) as string[];
+  };
+  const sortedSet = (key: string) => {
+    if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+    return sortedSets.get(key) as Map<string, number>;
+  };
+
+  const commands = {
+    setex: async (key: string, ttl: number, value: string) => {
+      values.set(key, value);
+      ttls.set(key, ttl);
+      return "OK";
+    },
+    set: async (key: string, value: string, _ex: "EX", ttl: number) => {
+      if (values.has(key)) return null;
+      values.set(key, value);
+      ttls.set(key, ttl);
+      return "OK";
+    },
+    get: async (key: string) => values.get(key) ?? null,
+    lpush: async (key: string, value: string) => list(key).unshift(value),
+    lrange: async (key: string, start: number, stop: number) =>
+      list(key).slice(start, stop === -1 ? undefined : stop + 1),
+    lrem: async (key: string, _count: number, value: string) => {
+      const index = list(key).indexOf(value);
+      if (index === -1) return 0;
+      list(key).splice(index, 1);
+      return 1;
+    },
+    ltrim: async (key: string, start: number, stop: number) => {
+      lists.set(key, list(key).slice(start, stop + 1));
+      return "OK";
+    },
+    rpoplpush: async (source: string, destination: string) => {
+      const value = list(source).pop();
+      if (value === undefined) return null;
+      list(destination).unshift(value);
+      return value;
+    },
+    zadd: async (key: string, score: number, member: string) => {
+      sortedSet(key).set(member, score);
+      return 1;
+    },
+    zrem: async (key: string, member: string) =>
+      sortedSet(key).delete(member) ? 1 : 0,
+    zrangebyscore: async (key: string, _min: string, max: number) =>
+      Array.from(sortedSet(key))
+        .filter(([, score]) => score <= max)
+        .sort(([, a], [, b]) => a - b)
+        .map(([member]) => member),
+    eval: jest.fn(
+      async (script: string, _numKeys: number, ...args: string[]) => {
+        if (script.includes("ZREM")) {
+          const [delayedKey, readyKey, jobId] = args;
+          if (!(await commands.zrem(delayedKey, jobId))) return 0;
+          await commands.lpush(readyKey, jobId);
+          return 1;
+        }
+        const [dedupeKey, rerunKey, jobId] = args;
+        if (script.includes('"SET"')) {
+          if (values.get(dedupeKey) !== jobId) return 0;
+          values.set(rerunKey, "1");
+          return 1;
+        }
+        const rerun = values.delete(rerunKey) ? 1 : 0;
+        if (values.get(dedupeKey) === jobId) values.delete(dedupeKey);
+        return rerun;
+      }
+    ),
+  };
+
+  const redis = {
+    ...commands,
+    multi: () => {
+      const queued: Array<() => Promise<unknown>> = [];
+      const chain = {
+        lrem: (...args: Parameters<typeof commands.lrem>) => {
+          queued.push(() => commands.lrem(...args));
+          return chain;
+        },
+        lpush: (...args: Parameters<typeof commands.lpush>) => {
+          queued.push(() => commands.lpush(...args));
+          return chain;
+        },
+        ltrim: (...args: Parameters<typeof commands.ltrim>) => {
+          queued.push(() => commands.ltrim(...args));
+          return chain;
+        },
+        exec: async () => {
+          for (const command of queued) await command();
+          return [];
+        },
+      };
+      return chain;
+    },
+  };
+
+  return {
+    values,
+    ttls,
+    lists,
+    redis,
+    repository: new JobRepository(redis as unknown as Redis),
+  };
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>) {
+  for (let i = 0; i < 200; i++) {
+    if (await condition()) return;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error("Timed out waiting for the job queue");
+}
+
+describe("JobQueueService", () => {
+  let fake: ReturnType<typeof createFakeRedis>;
+  let queue: JobQueueService;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    fake = createFakeRedis();
+    queue = new JobQueueService(fake.repository, 5);
+  });
+
+  afterEach(() => {
+    queue.stop();
+    jest.restoreAllMocks();
+  });
+
+  const statusOf = async (job: Job) =>
+    (await fake.repository.findById(job.id))?.status;
+
+  it("retries with exponential backoff and keeps succeeded jobs briefly", async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Gmail timed out"))
+      .mockRejectedValueOnce(new Error("Gmail timed out"))
+      .mockResolvedValue({ added: 3 });
+    const schedule = jest.spyOn(fake.repository, "schedule");
+    queue.registerHandler("email.sync", handler, { backoffMs: 50 });
+
+    const job = await queue.enqueue("email.sync", "alice-uid");
+    queue.start();
+    await waitFor(async () => (await statusOf(job)) === "COMPLETED");
+
+    // Rounded to the base delay, since runAt and updatedAt are separate reads
+    const delays = schedule.mock.calls.map(
+      ([scheduled]) =>
+        Math.round(
+          (scheduled.runAt.getTime() - scheduled.updatedAt.getTime()) / 50
+        ) * 50
+    );
+    expect(delays).toEqual([50, 100]);
+
+    const finished = await fake.repository.findById(job.id);
+    expect(finished).toMatchObject({ attempts: 3, result: { added: 3 } });
+    expect(finished).not.toHaveProperty("lastError");
+    expect(fake.ttls.get(JOB_KEYS.JOB(job.id))).toBe(15 * 60);
+  });
+
+  it("dead-letters a job once its attempts run out", async () => {
+    const onFailed = jest.fn().mockResolvedValue(undefined);
+    queue.registerHandler(
+      "onboarding.generate-profile",
+      jest.fn().mockRejectedValue(new Error("model unavailable")),
+      { maxAttempts: 2, backoffMs: 0, onFailed }
+    );
+
+    const job = await queue.enqueue("onboarding.generate-profile", "alice-uid");
+    queue.start();
+    await waitFor(async () => (await statusOf(job)) === "FAILED");
+
+    expect(await fake.repository.listDeadLetter()).toEqual([job.id]);
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: job.id, attempts: 2 }),
+      expect.any(Error)
+    );
+    expect((await fake.repository.findById(job.id))?.lastError).toBe(
+      "model unavailable"
+    );
+    expect(fake.ttls.get(JOB_KEYS.JOB(job.id))).toBe(WEEK_SECONDS);
+    expect(
+      await fake.repository.listProcessing("onboarding.generate-profile")
+    ).toEqual([]);
+  });
+
+  it("runs at most `concurrency` jobs of a type at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const releases: Array<() => void> = [];
+    queue.registerHandler(
+      "onboarding.fetch-emails",
+      async () => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await new Promise<void>((resolve) => releases.push(resolve));
+        running -= 1;
+      },
+      { concurrency: 2 }
+    );
+
+    const jobs: Job[] = [];
+    for (let n = 0; n < 5; n++) {
+      jobs.push(await queue.enqueue("onboarding.fetch-emails", `user-${n}`));
+    }
+    queue.start();
+
+    let released = 0;
+    while (released < jobs.length) {
+      await waitFor(() => releases.length > released);
+      expect(running).toBeLessThanOrEqual(2);
+      releases[released++]();
+    }
+    await waitFor(async () => {
+      const statuses = await Promise.all(jobs.map(statusOf));
+      return statuses.every((status) => status === "COMPLETED");
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it("collapses duplicate enqueues and reruns once after a running holder", async () => {
+    let release: () => void = () => {};
+    const handler = jest.fn(
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+    queue.registerHandler("email.sync", handler);
+    const options = { dedupeKey: "email.sync:alice-uid" };
+
+    const first = await queue.enqueue("email.sync", "alice-uid", {}, options);
+    const duplicate = await queue.enqueue(
+      "email.sync",
+      "alice-uid",
+      {},
+      options
+    );
+    expect(duplicate.id).toBe(first.id);
+
+    queue.start();
+    await waitFor(() => handler.mock.calls.length === 1);
+    await queue.enqueue("email.sync", "alice-uid", {}, options);
+    await queue.enqueue("email.sync", "alice-uid", {}, options);
+    release();
+
+    await waitFor(() => handler.mock.calls.length === 2);
+    release();
+    await waitFor(() => !fake.values.has(JOB_KEYS.DEDUPE(options.dedupeKey)));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await statusOf(first)).toBe("COMPLETED");
+    expect(fake.values.has(JOB_KEYS.RERUN(first.id))).toBe(false);
+  });
+
+  it("never rewrites the running holder's record when collapsing an enqueue", async () => {
+    let release: () => void = () => {};
+    queue.registerHandler(
+      "email.sync",
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+    const options = { dedupeKey: "email.sync:alice-uid" };
+    const first = await queue.enqueue("email.sync", "alice-uid", {}, options);
+    queue.start();
+    await waitFor(async () => (await statusOf(first)) === "RUNNING");
+
+    const save = jest.spyOn(fake.repository, "save");
+    await queue.enqueue("email.sync", "alice-uid", {}, options);
+
+    expect(save).not.toHaveBeenCalled();
+    expect(fake.values.get(JOB_KEYS.RERUN(first.id))).toBe("1");
+    release();
+    await waitFor(async () => (await statusOf(first)) === "COMPLETED");
+  });
+
+  it("queues a fresh job when the holder released the key after being read", async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    queue.registerHandler("email.sync", handler);
+    const options = { dedupeKey: "email.sync:alice-uid" };
+    const first = await queue.enqueue("email.sync", "alice-uid", {}, options);
+    await fake.repository.save({ ...first, status: "RUNNING" });
+
+    // The holder finishes between the enqueue reading it and flagging it
+    jest
+      .spyOn(fake.repository, "requestRerun")
+      .mockImplementationOnce(async (dedupeKey, jobId) => {
+        await fake.repository.releaseDedupe(dedupeKey, jobId);
+        return false;
+      });
+    const second = await queue.enqueue("email.sync", "alice-uid", {}, options);
+
+    expect(second.id).not.toBe(first.id);
+    expect(await fake.repository.getDedupeHolder(options.dedupeKey)).toBe(
+      second.id
+    );
+  });
+});
+
+describe("JobRepository", () => {
+  it("promotes a due job onto its ready list exactly once", async () => {
+    const { repository, lists } = createFakeRedis();
+    const now = new Date();
+    const job: Job = {
+      id: "job-1",
+      type: "email.sync",
+      firebaseUid: "alice-uid",
+      payload: {},
+      status: "RETRYING",
+      attempts: 1,
+      maxAttempts: 3,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await repository.save(job);
+    await repository.schedule(job);
+    await repository.schedule({ ...job, id: "expired" });
+
+    const promoted = await Promise.all([
+      repository.promoteDue(now),
+      repository.promoteDue(now),
+    ]);
+
+    expect(promoted[0] + promoted[1]).toBe(1);
+    expect(lists.get(JOB_KEYS.READY("email.sync"))).toEqual(["job-1"]);
+    expect(await repository.promoteDue(new Date(now.getTime() + 1000))).toBe(0);
+  });
+
+  it("releases a dedupe key only for the job holding it", async () => {
+    const { repository, redis } = createFakeRedis();
+    await repository.claimDedupe("email.sync:alice-uid", "job-2");
+
+    await repository.releaseDedupe("email.sync:alice-uid", "job-1");
+    expect(await repository.getDedupeHolder("email.sync:alice-uid")).toBe(
+      "job-2"
+    );
+
+    await repository.releaseDedupe("email.sync:alice-uid", "job-2");
+    expect(await repository.getDedupeHolder("email.sync:alice-uid")).toBeNull();
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining("DEL"),
+      2,
+      JOB_KEYS.DEDUPE("email.sync:alice-uid"),
+      JOB_KEYS.RERUN("job-2"),
+      "job-2"
+    );
+  });
+
+  it("hands a rerun request to the release only while the key is held", async () => {
+    const { repository } = createFakeRedis();
+    const dedupeKey = "email.sync:alice-uid";
+    await repository.claimDedupe(dedupeKey, "job-1");
+
+    expect(await repository.requestRerun(dedupeKey, "job-1")).toBe(true);
+    expect(await repository.releaseDedupe(dedupeKey, "job-1")).toBe(true);
+
+    // Released: the caller must claim the key for a new job instead
+    expect(await repository.requestRerun(dedupeKey, "job-1")).toBe(false);
+    expect(await repository.releaseDedupe(dedupeKey, "job-1")).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { AIIntegration } from "../integrations/AIIntegration";
+import {
+  createLLMProviders,
+  FakeLLMProvider,
+  type LLMProviders,
+} from "../integrations/llm";
+
+function fakeProviders(): LLMProviders {
+  const provider = new FakeLLMProvider();
+  return { styleProfile: provider, draft: provider, summary: provider };
+}
+
+describe("FakeLLMProvider", () => {
+  it("returns the same output for the same prompt", async () => {
+    const provider = new FakeLLMProvider();
+
+    expect(await provider.generateText("Reply to Sam")).toBe(
+      await provider.generateText("Reply to Sam")
+    );
+    expect(await provider.generateText("Reply to Sam")).not.toBe(
+      await provider.generateText("Reply to Alex")
+    );
+  });
+
+  it("generates JSON that follows the schema", async () => {
+    const provider = new FakeLLMProvider();
+
+    const result = await provider.generateJSON<Record<string, unknown>>(
+      "prompt",
+      {
+        type: "object",
+        properties: {
+          tone: { type: "string", enum: ["Formal", "Casual"] },
+          score: { type: "integer", minimum: 2, maximum: 5 },
+          tags: { type: "array", items: { type: "string" } },
+        },
+      }
+    );
+
+    expect(result.tone).toBe("Formal");
+    expect(result.score).toBe(2);
+    expect(result.tags).toEqual([expect.any(String)]);
+  });
+
+  it("streams the generated text and stops once aborted", async () => {
+    const provider = new FakeLLMProvider();
+    const text = await provider.generateText("prompt");
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream("prompt")) {
+      chunks.push(chunk);
+    }
+    expect(chunks.join("")).toBe(text);
+
+    const controller = new AbortController();
+    const partial: string[] = [];
+    for await (const chunk of provider.stream("prompt", {
+      signal: controller.signal,
+    })) {
+      partial.push(chunk);
+      controller.abort();
+    }
+    expect(partial).toHaveLength(1);
+  });
+});
+
+describe("AIIntegration with the fake provider", () => {
+  it("produces drafts and summaries offline", async () => {
+    const ai = new AIIntegration(fakeProviders());
+    const { profile, repairedFields } = await ai.generateStyleProfile({
+      role: "Engineer",
+    });
+    expect(repairedFields).toEqual([]);
+
+    const drafts = await ai.generateEmailDrafts(
+      profile,
+      { originalEmail: "Can we meet Friday?" },
+      2
+    );
+    expect(drafts.length).toBeGreaterThan(0);
+    expect(await ai.testConnection()).toBe(true);
+
+    const summary = await ai.summarizeThread({
+      id: "t1",
+      subject: "Friday",
+      messages: [],
+    } as never);
+    expect(summary.tldr).toEqual(expect.any(String));
+    expect(summary.actionItems).toEqual([
+      {
+        task: expect.any(String),
+        owner: expect.any(String),
+        dueDate: expect.any(String),
+      },
+    ]);
+  });
+});
+
+describe("createLLMProviders", () => {
+  const baseConfig = {
+    vertexAiProjectId: "",
+    vertexAiLocation: "us-central1",
+  };
+
+  it("shares one instance between tasks using the same model", () => {
+    const providers = createLLMProviders({
+      ...baseConfig,
+      llm: {
+        openaiBaseUrl: "http://localhost:11434/v1",
+        tasks: {
+          styleProfile: { provider: "fake", model: "fake" },
+          draft: { provider: "fake", model: "fake" },
+          summary: { provider: "openai", model: "llama3.1" },
+        },
+      },
+    });
+
+    expect(providers.styleProfile).toBe(providers.draft);
+    expect(providers.draft).toBeInstanceOf(FakeLLMProvider);
+    expect(providers.summary.name).toBe("OpenAI-compatible (llama3.1)");
+  });
+});
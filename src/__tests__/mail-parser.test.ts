@@ -0,0 +1,153 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import {
+  MailPart,
+  parseMailContent,
+  parseRawMessage,
+  separateQuotedText,
+} from "../utils/mailParser";
+
+const b64url = (bytes: Buffer | string) =>
+  Buffer.from(bytes).toString("base64url");
+
+function textPart(mimeType: string, data: Buffer, charset = "UTF-8"): MailPart {
+  return {
+    mimeType,
+    filename: "",
+    headers: [
+      { name: "Content-Type", value: `${mimeType}; charset="${charset}"` },
+      { name: "Content-Transfer-Encoding", value: "quoted-printable" },
+    ],
+    body: { data: b64url(data), size: data.length },
+  };
+}
+
+describe("parseMailContent", () => {
+  it("walks nested multiparts and decodes each part's charset", () => {
+    // "Café à 10 €" in windows-1252
+    const latin = Buffer.from([
+      0x43, 0x61, 0x66, 0xe9, 0x20, 0xe0, 0x20, 0x31, 0x30, 0x20, 0x80,
+    ]);
+    const payload: MailPart = {
+      mimeType: "multipart/mixed",
+      parts: [
+        {
+          mimeType: "multipart/alternative",
+          parts: [
+            textPart("text/plain", latin, "windows-1252"),
+            textPart(
+              "text/html",
+              Buffer.from(
+                '<p onclick="steal()">Café à 10 €</p><script>x()</script>'
+              )
+            ),
+          ],
+        },
+        {
+          mimeType: "text/plain",
+          filename: "notes.txt",
+          body: { attachmentId: "att-1", size: 12 },
+        },
+      ],
+    };
+
+    const content = parseMailContent(payload);
+
+    expect(content.text).toBe("Café à 10 €");
+    expect(content.html).toBe("<p>Café à 10 €</p>");
+  });
+
+  it("separates new text from quoted history and the signature", () => {
+    const body = [
+      "Sounds good, see you Thursday.",
+      "",
+      "Thanks,",
+      "Sam",
+      "--",
+      "Sam Lee | Acme",
+      "",
+      "On Tue, Mar 4, 2025 at 9:12 AM Alex <alex@example.com> wrote:",
+      "> Are we still on for Thursday?",
+    ].join("\r\n");
+
+    const content = parseMailContent(textPart("text/plain", Buffer.from(body)));
+
+    expect(content.text).toBe("Sounds good, see you Thursday.\n\nThanks,\nSam");
+    expect(content.signature).toBe("--\nSam Lee | Acme");
+    expect(content.quoted).toBe(
+      "On Tue, Mar 4, 2025 at 9:12 AM Alex <alex@example.com> wrote:\n> Are we still on for Thursday?"
+    );
+  });
+
+  it("derives text from HTML-only messages", () => {
+    const content = parseMailContent(
+      textPart(
+        "text/html",
+        Buffer.from(
+          "<div>Approved &amp; signed.</div><div>On Mon, Alex wrote:<blockquote>Please sign</blockquote></div>"
+        )
+      )
+    );
+
+    expect(content.text).toBe("Approved & signed.");
+    expect(content.quoted).toBe("On Mon, Alex wrote:\nPlease sign");
+  });
+
+  it("keeps the whole text when a message is only a forward", () => {
+    const body =
+      "---------- Forwarded message ---------\nFrom: Alex <alex@example.com>\n\nQ3 numbers inside.";
+
+    const content = parseMailContent(textPart("text/plain", Buffer.from(body)));
+
+    expect(content.text).toBe(body);
+    expect(content.quoted).toBeUndefined();
+  });
+});
+
+describe("separateQuotedText", () => {
+  it("handles a quote header wrapped over two lines", () => {
+    const { text, quoted } = separateQuotedText(
+      "Yes.\n\nOn Tue, Mar 4, 2025 at 9:12 AM Alex Example\n<alex@example.com> wrote:\n> Ready?"
+    );
+
+    expect(text).toBe("Yes.");
+    expect(quoted?.startsWith("On Tue")).toBe(true);
+  });
+});
+
+describe("parseRawMessage", () => {
+  it("decodes quoted-printable bodies and RFC 2231 filenames", () => {
+    const source = readFileSync(
+      join(__dirname, "fixtures", "mime", "attachments.eml"),
+      "utf8"
+    ).replace(/\r?\n/g, "\r\n");
+
+    const payload = parseRawMessage(source);
+    const attachments = payload.parts?.slice(1) ?? [];
+
+    expect(parseMailContent(payload).text).toBe("Both invoices attached.");
+    expect(attachments.map((part) => [part.partId, part.filename])).toEqual([
+      ["1", "invoice-042.csv"],
+      ["2", "facture été.pdf"],
+    ]);
+    expect(
+      Buffer.from(attachments[0].body?.data ?? "", "base64url").toString()
+    ).toBe("id,total\n42,1200\n");
+  });
+
+  it("honors the charset of a quoted-printable part", () => {
+    const source = [
+      "Subject: Tarifs",
+      'Content-Type: text/plain; charset="iso-8859-1"',
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Le prix est de 12=E9=A0euros, tr=E8s long texte qui continue sur la lig=",
+      "ne suivante.",
+    ].join("\r\n");
+
+    expect(parseMailContent(parseRawMessage(source)).text).toBe(
+      "Le prix est de 12é euros, très long texte qui continue sur la ligne suivante."
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+import { ValidationError } from "../utils/errors";
+import {
+  MimeMessage,
+  buildMimeMessage,
+  encodeMimeMessage,
+} from "../utils/mime";
+
+// Fixtures are stored with LF endings; messages use CRLF on the wire
+function readFixture(name: string): string {
+  return readFileSync(
+    join(__dirname, "fixtures", "mime", name),
+    "utf8"
+  ).replace(/\r?\n/g, "\r\n");
+}
+
+function sequentialBoundaries(): () => string {
+  let count = 0;
+  return () => `----=_Part_${++count}`;
+}
+
+describe("buildMimeMessage", () => {
+  it("pairs HTML with a derived plain-text alternative", () => {
+    const message = buildMimeMessage(
+      {
+        to: ["Sam Lee <sam@example.com>"],
+        cc: ["ops@example.com"],
+        subject: "Launch update",
+        html: "<p>Hi Sam,</p><p>The launch slips a week.<br>New date: <b>June 12</b>.</p>",
+      },
+      { createBoundary: sequentialBoundaries() }
+    );
+
+    expect(message).toBe(readFixture("html-alternative.eml"));
+  });
+
+  it("encodes non-ASCII subjects and display names per RFC 2047", () => {
+    const message = buildMimeMessage(
+      {
+        from: '"Doe, Jane" <jane@example.com>',
+        to: ["José Núñez <jose@example.com>", "bob@example.com"],
+        subject:
+          "Re: Réunion budget — version finale pour le comité de direction",
+        text: "Merci José,\n\nC'est noté pour jeudi. Total: 1 200 €.",
+        inReplyTo: "<CAF1@mail.example.com>",
+        references: ["<CAF0@mail.example.com>", "<CAF1@mail.example.com>"],
+      },
+      { createBoundary: sequentialBoundaries() }
+    );
+
+    expect(message).toBe(readFixture("encoded-headers.eml"));
+  });
+
+  it("attaches files with RFC 2231 names for non-ASCII filenames", () => {
+    const message = buildMimeMessage(
+      {
+        to: ["finance@example.com"],
+        bcc: ["archive@example.com"],
+        subject: "Invoices",
+        html: "<p>Both invoices attached.</p>",
+        attachments: [
+          {
+            filename: "invoice-042.csv",
+            mimeType: "text/csv",
+            data: Buffer.from("id,total\n42,1200\n"),
+          },
+          {
+            filename: "facture été.pdf",
+            mimeType: "application/pdf",
+            data: Buffer.from("%PDF-1.4\n%fixture\n"),
+          },
+        ],
+      },
+      { createBoundary: sequentialBoundaries() }
+    );
+
+    expect(message).toBe(readFixture("attachments.eml"));
+  });
+
+  it("keeps quoted-printable lines within 76 characters", () => {
+    const message = buildMimeMessage({
+      to: ["sam@example.com"],
+      subject: "Long line",
+      text: `${"é".repeat(60)} ${"a".repeat(200)} `,
+    });
+
+    const body = message.split("\r\n\r\n")[1];
+    for (const line of body.split("\r\n")) {
+      expect(line.length).toBeLessThanOrEqual(76);
+    }
+    // Trailing whitespace is encoded so transports cannot strip it
+    expect(body.trimEnd().endsWith("=20")).toBe(true);
+  });
+
+  it.each<[string, Partial<MimeMessage>]>([
+    ["to", { to: ["sam@example.com\r\nBcc: victim@example.com"] }],
+    ["cc", { cc: ["ops@example.com\nX-Injected: 1"] }],
+    ["subject", { subject: "Hello\r\nBcc: victim@example.com" }],
+    ["in-reply-to", { inReplyTo: "<a@example.com>\nX-Injected: 1" }],
+  ])("rejects line breaks in %s", (_, override) => {
+    const message: MimeMessage = {
+      to: ["sam@example.com"],
+      subject: "Hello",
+      text: "Body",
+      ...override,
+    };
+
+    expect(() => buildMimeMessage(message)).toThrow(ValidationError);
+  });
+
+  it("requires a body", () => {
+    expect(() =>
+      buildMimeMessage({ to: ["sam@example.com"], subject: "Empty" })
+    ).toThrow("Message body is required");
+  });
+});
+
+describe("encodeMimeMessage", () => {
+  it("returns base64url without padding", () => {
+    const raw = encodeMimeMessage({
+      to: ["sam@example.com"],
+      subject: "Hi?",
+      text: "<<???>>",
+    });
+
+    expect(raw).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(Buffer.from(raw, "base64url").toString()).toContain(
+      "Subject: Hi?\r\n"
+    );
+  });
+});
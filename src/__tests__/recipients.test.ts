@@ -0,0 +1,66 @@
+import { ValidationError } from "../utils/errors";
+import {
+  assertValidRecipients,
+  buildReplyRecipients,
+  parseAddressList,
+} from "../utils/recipients";
+
+describe("parseAddressList", () => {
+  it("keeps commas inside quoted display names", () => {
+    expect(
+      parseAddressList(
+        '"Doe, Jane" <jane@example.com>, bob@example.com,  Carol <carol@example.com>'
+      )
+    ).toEqual(["jane@example.com", "bob@example.com", "carol@example.com"]);
+  });
+
+  it("returns an empty list for a missing header", () => {
+    expect(parseAddressList(undefined)).toEqual([]);
+    expect(parseAddressList("")).toEqual([]);
+  });
+});
+
+describe("buildReplyRecipients", () => {
+  const message = {
+    from: "Alice <alice@example.com>",
+    to: "Me <ME@example.com>, bob@example.com",
+    cc: "carol@example.com, Bob <bob@example.com>, me@example.com",
+  };
+
+  it("replies to the sender only", () => {
+    expect(buildReplyRecipients("reply", message, "me@example.com")).toEqual({
+      to: ["alice@example.com"],
+      cc: [],
+    });
+  });
+
+  it("replies to all without the user's own address or duplicates", () => {
+    expect(
+      buildReplyRecipients("reply_all", message, "me@example.com")
+    ).toEqual({
+      to: ["alice@example.com", "bob@example.com"],
+      cc: ["carol@example.com"],
+    });
+  });
+
+  it("reuses the original recipients when answering one's own message", () => {
+    const own = { from: "me@example.com", to: "dave@example.com" };
+
+    expect(buildReplyRecipients("reply", own, "me@example.com")).toEqual({
+      to: ["dave@example.com"],
+      cc: [],
+    });
+  });
+});
+
+describe("assertValidRecipients", () => {
+  it("rejects malformed addresses", () => {
+    expect(() =>
+      assertValidRecipients("cc", ["ok@example.com", "not-an-address"])
+    ).toThrow(new ValidationError("Invalid cc address: not-an-address"));
+  });
+
+  it("accepts an absent list", () => {
+    expect(() => assertValidRecipients("bcc", undefined)).not.toThrow();
+  });
+});
@@ -0,0 +1,85 @@
+import { ValidationError } from "../utils/errors";
+import { highlightMatches, parseSearchQuery } from "../utils/searchQuery";
+
+describe("parseSearchQuery", () => {
+  it("splits free text, quoted phrases and field operators", () => {
+    const query = parseSearchQuery(
+      'budget from:alice@example.com subject:"q3 plan" "final numbers" to:bob'
+    );
+
+    expect(query.text).toEqual(["budget", "final numbers"]);
+    expect(query.from).toEqual(["alice@example.com"]);
+    expect(query.subject).toEqual(["q3 plan"]);
+    expect(query.to).toEqual(["bob"]);
+  });
+
+  it("parses is:, has: and date operators", () => {
+    const query = parseSearchQuery(
+      "is:unread has:draft after:2024/01/01 before:2024-02-15"
+    );
+
+    expect(query.isUnread).toBe(true);
+    expect(query.hasDraft).toBe(true);
+    expect(query.after).toEqual(new Date("2024-01-01T00:00:00.000Z"));
+    expect(query.before).toEqual(new Date("2024-02-15T00:00:00.000Z"));
+    expect(query.text).toEqual([]);
+  });
+
+  it("treats operator names case-insensitively and is:read as read", () => {
+    expect(parseSearchQuery("IS:read").isUnread).toBe(false);
+    expect(parseSearchQuery("From:carol").from).toEqual(["carol"]);
+  });
+
+  it("keeps unknown operators and URLs as free text", () => {
+    const query = parseSearchQuery("re:invoice https://example.com/a");
+    expect(query.text).toEqual(["re:invoice", "https://example.com/a"]);
+  });
+
+  it.each([
+    ["", "Search query is required"],
+    ["is:starred", "Unsupported search operator is:starred"],
+    ["has:attachment", "Unsupported search operator has:attachment"],
+    ["before:yesterday", "before: expects a date"],
+    ["after:2024/02/31", "after: expects a date"],
+    ["after:2024/03/01 before:2024/02/01", "after: must be earlier"],
+    ['from:""', "from: needs a value"],
+  ])("rejects %j", (input, message) => {
+    expect(() => parseSearchQuery(input)).toThrow(ValidationError);
+    expect(() => parseSearchQuery(input)).toThrow(message);
+  });
+
+  it("rejects overly long queries", () => {
+    expect(() => parseSearchQuery("a".repeat(501))).toThrow(ValidationError);
+  });
+});
+
+describe("highlightMatches", () => {
+  it("returns merged, case-insensitive ranges", () => {
+    expect(
+      highlightMatches("subject", "Budget review: budgeting", [
+        "budget",
+        "get rev",
+      ])
+    ).toEqual({
+      field: "subject",
+      text: "Budget review: budgeting",
+      ranges: [
+        [0, 10],
+        [15, 21],
+      ],
+    });
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(highlightMatches("from", "alice@example.com", ["bob"])).toBeNull();
+  });
+
+  it("cuts bodies to a window around the first match", () => {
+    const body = `${"x".repeat(200)} invoice ${"y".repeat(400)}`;
+    const highlight = highlightMatches("body", body, ["invoice"]);
+
+    expect(highlight?.text.length).toBeLessThan(body.length);
+    const [[start, end]] = highlight!.ranges;
+    expect(highlight?.text.slice(start, end)).toBe("invoice");
+  });
+});
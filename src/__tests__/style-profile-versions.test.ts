@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+import { UserRepository } from "../repositories/UserRepository";
+import { ConflictError } from "../utils/errors";
+import { DEFAULT_STYLE_PROFILE } from "../utils/styleProfile";
+
+import { createFakePrisma } from "./helpers/fakePrisma";
+import { createMailApp, type MailApp } from "./helpers/mailApp";
+
+jest.mock("../config/index", () => {
+  const testConfig = {
+    nodeEnv: "test",
+    googleClientId: "test-client",
+    googleClientSecret: "test-secret",
+    googleRedirectUri: "http://localhost/callback",
+    vertexAiProjectId: "test-project",
+    vertexAiLocation: "us-central1",
+    tokenEncryptionKey: "",
+  };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+jest.mock("../lib/cache", () => ({
+  __esModule: true,
+  default: {},
+  CacheManager: {
+    getStarredEmails: jest.fn().mockResolvedValue(null),
+    setStarredEmails: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+describe("Style profile versions", () => {
+  let app: MailApp["app"];
+  let tables: MailApp["tables"];
+  let aliceThreadId: string;
+
+  beforeEach(async () => {
+    ({ app, tables, aliceThreadId } = await createMailApp());
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const asUser = (uid: string) => ({ "x-test-user": uid });
+
+  it("records a profile saved before versioning as v1 on first read", async () => {
+    const current = await app.inject({
+      method: "GET",
+      url: "/api/profile/style",
+      headers: asUser("alice-uid"),
+    });
+
+    expect(current.statusCode).toBe(200);
+    expect(tables.styleProfileVersion).toEqual([
+      expect.objectContaining({ version: 1, source: "QUESTIONNAIRE" }),
+    ]);
+    expect(current.json().data).toMatchObject({
+      versionId: tables.styleProfileVersion[0].id,
+      version: 1,
+    });
+  });
+
+  it("saves profile edits as versions and links new drafts to the current one", async () => {
+    const edit = await app.inject({
+      method: "PATCH",
+      url: "/api/profile/style",
+      headers: asUser("alice-uid"),
+      payload: { toneAndFormality: { primaryTone: "Formal" } },
+    });
+
+    expect(edit.statusCode).toBe(200);
+    expect(edit.json().data).toMatchObject({
+      version: 2,
+      source: "MANUAL_EDIT",
+      profile: {
+        toneAndFormality: { primaryTone: "Formal", formalityScore: 3 },
+      },
+    });
+
+    const draft = await app.inject({
+      method: "POST",
+      url: "/api/emails/draft",
+      headers: asUser("alice-uid"),
+      payload: { threadId: aliceThreadId },
+    });
+    expect(draft.json().data.styleProfileVersionId).toBe(edit.json().data.id);
+  });
+
+  it("rejects profile edits that fail the schema", async () => {
+    const response = await app.inject({
+      method: "PATCH",
+      url: "/api/profile/style",
+      headers: asUser("alice-uid"),
+      payload: { toneAndFormality: { formalityScore: 9 }, mood: "happy" },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toContain("mood: is not an editable field");
+    expect(tables.styleProfileVersion.map(({ source }) => source)).toEqual([
+      "QUESTIONNAIRE",
+    ]);
+  });
+
+  it("rolls back to an earlier version only for its owner", async () => {
+    const edit = (primaryTone: string) =>
+      app.inject({
+        method: "PATCH",
+        url: "/api/profile/style",
+        headers: asUser("alice-uid"),
+        payload: { toneAndFormality: { primaryTone } },
+      });
+    const first = (await edit("Formal")).json().data;
+    await edit("Casual");
+
+    const rollback = (uid: string) =>
+      app.inject({
+        method: "POST",
+        url: `/api/profile/style/versions/${first.id}/rollback`,
+        headers: asUser(uid),
+      });
+
+    expect((await rollback("bob-uid")).statusCode).toBe(404);
+
+    const response = await rollback("alice-uid");
+    expect(response.statusCode).toBe(201);
+    expect(response.json().data).toMatchObject({
+      version: 4,
+      source: "ROLLBACK",
+      restoredFromVersion: 2,
+    });
+    expect(
+      (tables.user[0].aiStyleProfile as typeof DEFAULT_STYLE_PROFILE)
+        .toneAndFormality.primaryTone
+    ).toBe("Formal");
+  });
+
+  it("answers a malformed version id with 404", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/profile/style/versions/not-an-id/rollback",
+      headers: asUser("alice-uid"),
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+});
+
+describe("UserRepository style profile versions", () => {
+  let fake: ReturnType<typeof createFakePrisma>;
+  let repository: UserRepository;
+  let userId: string;
+
+  beforeEach(() => {
+    fake = createFakePrisma();
+    userId = fake.nextId();
+    fake.tables.user.push({ id: userId, firebaseUid: "alice-uid" });
+    repository = new UserRepository(fake.client as unknown as PrismaClient);
+  });
+
+  it("turns a concurrent save of the same version into a ConflictError", async () => {
+    jest.spyOn(fake.client.styleProfileVersion, "create").mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "test",
+      })
+    );
+
+    await expect(
+      repository.storeStyleProfile(
+        "alice-uid",
+        DEFAULT_STYLE_PROFILE,
+        "MANUAL_EDIT"
+      )
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it("does not send a malformed version id to the database", async () => {
+    const findFirst = jest.spyOn(fake.client.styleProfileVersion, "findFirst");
+
+    expect(
+      await repository.findStyleProfileVersion(userId, "not-an-id")
+    ).toBeNull();
+    expect(findFirst).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,141 @@
+import { AIIntegration } from "../integrations/AIIntegration";
+import { FakeLLMProvider, type LLMProviders } from "../integrations/llm";
+import {
+  DEFAULT_STYLE_PROFILE,
+  repairStyleProfile,
+  validateStyleProfile,
+} from "../utils/styleProfile";
+
+function withStyleProfileResponses(...responses: unknown[]): {
+  ai: AIIntegration;
+  generateJSON: jest.Mock;
+} {
+  const fake = new FakeLLMProvider();
+  const generateJSON = jest.fn();
+  for (const response of responses) {
+    generateJSON.mockImplementationOnce(async () => {
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    });
+  }
+
+  const styleProfile = Object.assign(Object.create(fake), { generateJSON });
+  const providers: LLMProviders = {
+    styleProfile,
+    draft: fake,
+    summary: fake,
+  };
+  return { ai: new AIIntegration(providers), generateJSON };
+}
+
+describe("validateStyleProfile", () => {
+  it("accepts the default profile", () => {
+    expect(validateStyleProfile(DEFAULT_STYLE_PROFILE)).toEqual([]);
+  });
+
+  it("reports missing sections and out-of-range fields by path", () => {
+    const { writingHabits: _omitted, ...partial } = DEFAULT_STYLE_PROFILE;
+
+    const errors = validateStyleProfile({
+      ...partial,
+      toneAndFormality: {
+        ...DEFAULT_STYLE_PROFILE.toneAndFormality,
+        primaryTone: "Grumpy",
+        formalityScore: 9,
+      },
+    });
+
+    expect(errors).toEqual([
+      "writingHabits: is required",
+      "toneAndFormality.primaryTone: must be one of Friendly, Formal, Direct, Diplomatic, Casual, Professional",
+      "toneAndFormality.formalityScore: must be at most 5",
+    ]);
+  });
+});
+
+describe("repairStyleProfile", () => {
+  it("keeps valid fields, defaults the rest and drops unknown keys", () => {
+    const repair = repairStyleProfile({
+      ...DEFAULT_STYLE_PROFILE,
+      toneAndFormality: {
+        primaryTone: "Casual",
+        secondaryTone: "Sarcastic",
+        formalityScore: "high",
+        toneFlexibility: "Rigid",
+      },
+      mood: "cheerful",
+    });
+
+    expect(repair?.repairedFields).toEqual([
+      "toneAndFormality.secondaryTone",
+      "toneAndFormality.formalityScore",
+    ]);
+    expect(repair?.profile.toneAndFormality).toEqual({
+      primaryTone: "Casual",
+      formalityScore: 3,
+      toneFlexibility: "Rigid",
+    });
+    expect(repair?.profile).not.toHaveProperty("mood");
+  });
+
+  it("gives up when most of the profile is unusable", () => {
+    expect(repairStyleProfile({})).toBeNull();
+    expect(
+      repairStyleProfile({
+        toneAndFormality: DEFAULT_STYLE_PROFILE.toneAndFormality,
+      })
+    ).toBeNull();
+  });
+});
+
+describe("AIIntegration.generateStyleProfile", () => {
+  it("asks again with the validation errors and uses the corrected answer", async () => {
+    const { ai, generateJSON } = withStyleProfileResponses(
+      { toneAndFormality: { primaryTone: "Grumpy" } },
+      DEFAULT_STYLE_PROFILE
+    );
+
+    const result = await ai.generateStyleProfile({ role: "Engineer" });
+
+    expect(result).toEqual({
+      profile: DEFAULT_STYLE_PROFILE,
+      repairedFields: [],
+    });
+    expect(generateJSON).toHaveBeenCalledTimes(2);
+    const correction = generateJSON.mock.calls[1][0] as string;
+    expect(correction).toContain('"primaryTone": "Grumpy"');
+    expect(correction).toContain(
+      "- toneAndFormality.primaryTone: must be one of"
+    );
+  });
+
+  it("retries malformed JSON and fills defaults into a mostly valid answer", async () => {
+    const { ai, generateJSON } = withStyleProfileResponses(
+      new SyntaxError("Unexpected end of JSON input"),
+      {
+        ...DEFAULT_STYLE_PROFILE,
+        lexicalFeatures: {
+          ...DEFAULT_STYLE_PROFILE.lexicalFeatures,
+          emojiUsage: "Constantly",
+        },
+      }
+    );
+
+    const { repairedFields } = await ai.generateStyleProfile({});
+
+    expect(generateJSON.mock.calls[1][0]).toContain(
+      "Your previous response was not valid JSON."
+    );
+    expect(repairedFields).toEqual(["lexicalFeatures.emojiUsage"]);
+  });
+
+  it("fails when the second answer is still unusable", async () => {
+    const { ai } = withStyleProfileResponses({}, {});
+
+    await expect(ai.generateStyleProfile({})).rejects.toThrow(
+      "Style profile failed validation: toneAndFormality: is required"
+    );
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @jest-environment node
+ */
+
+import { createMailApp, type MailApp } from "./helpers/mailApp";
+
+jest.mock("../config/index", () => {
+  const testConfig = {
+    nodeEnv: "test",
+    googleClientId: "test-client",
+    googleClientSecret: "test-secret",
+    googleRedirectUri: "http://localhost/callback",
+    vertexAiProjectId: "test-project",
+    vertexAiLocation: "us-central1",
+    tokenEncryptionKey: "",
+  };
+  return { __esModule: true, default: testConfig, config: testConfig };
+});
+
+jest.mock("../lib/cache", () => ({
+  __esModule: true,
+  default: {},
+  CacheManager: {
+    getStarredEmails: jest.fn().mockResolvedValue(null),
+    setStarredEmails: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+describe("Thread access", () => {
+  let app: MailApp["app"];
+  let tables: MailApp["tables"];
+  let gmail: MailApp["gmail"];
+  let ai: MailApp["ai"];
+  let aliceThreadId: string;
+  let aliceDraftId: string;
+
+  beforeEach(async () => {
+    ({ app, tables, gmail, ai, aliceThreadId, aliceDraftId } =
+      await createMailApp());
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const asUser = (uid: string) => ({ "x-test-user": uid });
+
+  it("lets the owner read their own thread", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/emails/${aliceThreadId}`,
+      headers: asUser("alice-uid"),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.subject).toBe("Quarterly numbers");
+  });
+
+  it("returns 404 when another user reads the thread", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/emails/${aliceThreadId}`,
+      headers: asUser("bob-uid"),
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(JSON.stringify(response.json())).not.toContain("Confidential");
+    expect(gmail.getThreadMessages).not.toHaveBeenCalled();
+  });
+
+  it("summarizes the owner's thread once and reuses the summary", async () => {
+    const request = () =>
+      app.inject({
+        method: "GET",
+        url: `/api/emails/${aliceThreadId}/summary`,
+        headers: asUser("alice-uid"),
+      });
+
+    const first = await request();
+    const second = await request();
+
+    expect(first.statusCode).toBe(200);
+    expect(first.json().data.actionItems).toEqual([
+      { task: "Review the figures", owner: "Alice" },
+    ]);
+    expect(second.json().data.tldr).toBe("CFO shared confidential figures.");
+    expect(ai.summarizeThread).toHaveBeenCalledTimes(1);
+  });
+
+  it("summarizes the thread again once a sent draft joins it", async () => {
+    const summarize = () =>
+      app.inject({
+        method: "GET",
+        url: `/api/emails/${aliceThreadId}/summary`,
+        headers: asUser("alice-uid"),
+      });
+
+    await summarize();
+    gmail.getThreadMessages.mockResolvedValue([
+      {
+        from: "cfo@example.com",
+        subject: "Quarterly numbers",
+        date: new Date().toISOString(),
+        messageIdHeader: "<numbers@example.com>",
+      },
+    ]);
+    const sent = await app.inject({
+      method: "POST",
+      url: "/api/emails/send",
+      headers: asUser("alice-uid"),
+      payload: { draftId: aliceDraftId },
+    });
+    expect(sent.statusCode).toBe(200);
+    expect(tables.threadSummary).toHaveLength(0);
+
+    await summarize();
+    expect(ai.summarizeThread).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns 404 when another user reads the thread summary", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/emails/${aliceThreadId}/summary`,
+      headers: asUser("bob-uid"),
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(ai.summarizeThread).not.toHaveBeenCalled();
+    expect(tables.threadSummary).toHaveLength(0);
+  });
+
+  it("returns 404 when another user replies to the thread", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/emails/${aliceThreadId}/reply`,
+      headers: asUser("bob-uid"),
+      payload: { body: "Hijacked reply" },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(gmail.sendReply).not.toHaveBeenCalled();
+  });
+
+  it("forwards typed text as escaped HTML above the original", async () => {
+    gmail.getThreadMessages.mockResolvedValue([
+      {
+        from: "cfo@example.com",
+        to: "alice@example.com",
+        subject: "Quarterly numbers",
+        date: new Date().toISOString(),
+        body: "Confidential figures attached.",
+        htmlBody: "<p>Confidential figures attached.</p>",
+        messageIdHeader: "<numbers@example.com>",
+      },
+    ]);
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/emails/${aliceThreadId}/reply`,
+      headers: asUser("alice-uid"),
+      payload: {
+        mode: "forward",
+        to: ["auditor@example.com"],
+        body: "See <below>\nThanks",
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { body } = gmail.sendReply.mock.calls[0][1];
+    expect(body).toMatch(/^See &lt;below&gt;<br>Thanks<br><br><div>/);
+    expect(body).toContain("<p>Confidential figures attached.</p>");
+  });
+
+  it("returns 404 when another user stars, archives or trashes the thread", async () => {
+    for (const action of ["star", "archive", "trash"]) {
+      const response = await app.inject({
+        method: "POST",
+        url: `/api/emails/${aliceThreadId}/${action}`,
+        headers: asUser("bob-uid"),
+      });
+      expect(response.statusCode).toBe(404);
+    }
+
+    expect(gmail.modifyThread).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when another user sends the draft", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/emails/send",
+      headers: asUser("bob-uid"),
+      payload: { draftId: aliceDraftId },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(gmail.sendReply).not.toHaveBeenCalled();
+    expect(tables.draft[0].status).toBe("PENDING");
+  });
+});
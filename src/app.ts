@@ -8,16 +8,33 @@ import Fastify, { type FastifyInstance } from "fastify";
 
 import config from "./config/index";
 import { AuthControllerImpl } from "./controllers/AuthController";
+import { DraftController } from "./controllers/DraftController";
 import { EmailController } from "./controllers/EmailController";
+import { EventController } from "./controllers/EventController";
+import { JobController } from "./controllers/JobController";
 import { OnboardingController } from "./controllers/OnboardingController";
+import { ProfileController } from "./controllers/ProfileController";
+import { WebhookController } from "./controllers/WebhookController";
+import { AIIntegration } from "./integrations/AIIntegration";
 import { GmailIntegration } from "./integrations/GmailIntegration";
-import { VertexAIIntegration } from "./integrations/VertexAIIntegration";
+import { createLLMProviders } from "./integrations/llm";
 import { backgroundService } from "./lib/background";
+import redis from "./lib/cache";
 import { EmailRepository } from "./repositories/EmailRepository";
+import { JobRepository } from "./repositories/JobRepository";
+import { LabelRepository } from "./repositories/LabelRepository";
 import { UserRepository } from "./repositories/UserRepository";
 import { AuthService } from "./services/AuthService";
+import { DraftService } from "./services/DraftService";
 import { EmailService } from "./services/EmailService";
+import { EventService } from "./services/EventService";
+import { GmailPushService } from "./services/GmailPushService";
+import { GmailTokenManager } from "./services/GmailTokenManager";
+import { JobQueueService } from "./services/JobQueueService";
+import { OnboardingService } from "./services/OnboardingService";
 import { UserService } from "./services/UserService";
+import { unwrapServiceResult } from "./utils/errors";
+import { redactQueryParams } from "./utils/helpers";
 
 // Initialize Prisma
 const prisma = new PrismaClient();
@@ -25,25 +42,70 @@ const prisma = new PrismaClient();
 // Initialize repositories
 const userRepository = new UserRepository(prisma);
 const emailRepository = new EmailRepository(prisma);
+const jobRepository = new JobRepository(redis);
+const labelRepository = new LabelRepository(prisma);
 
 // Initialize integrations
 const gmailIntegration = new GmailIntegration();
-const vertexAIIntegration = new VertexAIIntegration();
+const aiIntegration = new AIIntegration(createLLMProviders(config));
 
 // Initialize services
-const authService = new AuthService(userRepository, gmailIntegration);
+const gmailTokenManager = new GmailTokenManager(
+  userRepository,
+  gmailIntegration
+);
+const jobQueueService = new JobQueueService(jobRepository);
+// Pub/sub needs a dedicated connection; it cannot issue other commands
+const eventService = new EventService(redis, redis.duplicate());
+const gmailPushService = new GmailPushService(
+  userRepository,
+  gmailIntegration,
+  gmailTokenManager,
+  jobQueueService,
+  {
+    topic: config.gmailPushTopic,
+    token: config.gmailPushToken,
+    audience: config.gmailPushAudience,
+    serviceAccount: config.gmailPushServiceAccount,
+  }
+);
+const authService = new AuthService(
+  userRepository,
+  gmailIntegration,
+  gmailPushService,
+  gmailTokenManager
+);
 const emailService = new EmailService(
   emailRepository,
   userRepository,
   gmailIntegration,
-  vertexAIIntegration
+  aiIntegration,
+  eventService,
+  gmailTokenManager,
+  labelRepository
+);
+const userService = new UserService(userRepository, aiIntegration);
+const draftService = new DraftService(
+  emailRepository,
+  userRepository,
+  eventService
+);
+const onboardingService = new OnboardingService(
+  userRepository,
+  aiIntegration,
+  jobQueueService,
+  eventService
 );
-const userService = new UserService(userRepository, vertexAIIntegration);
 
 // Initialize controllers
 const authController = new AuthControllerImpl(authService);
 const emailController = new EmailController(emailService);
-const onboardingController = new OnboardingController();
+const draftController = new DraftController(draftService);
+const webhookController = new WebhookController(gmailPushService);
+const jobController = new JobController(jobQueueService);
+const eventController = new EventController(eventService);
+const onboardingController = new OnboardingController(onboardingService);
+const profileController = new ProfileController(userService);
 
 let fastifyInstance: FastifyInstance | null = null;
 
@@ -57,6 +119,18 @@ export async function createApp() {
               target: "pino-pretty",
             }
           : undefined,
+      serializers: {
+        // Fastify's default request fields, with the push token masked
+        req(request) {
+          return {
+            method: request.method,
+            url: redactQueryParams(request.url, ["token"]),
+            host: request.host,
+            remoteAddress: request.ip,
+            remotePort: request.socket?.remotePort,
+          };
+        },
+      },
     },
   });
 
@@ -105,14 +179,14 @@ export async function createApp() {
       await prisma.user.findFirst();
 
       // Test AI connection
-      const aiConnected = await vertexAIIntegration.testConnection();
+      const aiConnected = await aiIntegration.testConnection();
 
       return {
         status: "healthy",
         timestamp: new Date().toISOString(),
         services: {
           database: "connected",
-          vertexAI: aiConnected ? "connected" : "disconnected",
+          ai: aiConnected ? "connected" : "disconnected",
         },
       };
     } catch (error) {
@@ -131,12 +205,56 @@ export async function createApp() {
     };
   });
 
-  // Use DB-backed sync for background service so inbox uses stored threads
-  backgroundService.setSyncFunction(async (uid: string) => {
-    try {
-      await emailService.syncUserEmails(uid);
-    } catch (e) {
-      fastify.log.error({ err: e }, "Background sync failed");
+  // Background work runs as durable jobs so restarts and failures retry
+  jobQueueService.registerHandler(
+    "email.sync",
+    async (job) =>
+      unwrapServiceResult(await emailService.syncUserEmails(job.firebaseUid)),
+    { concurrency: 4, maxAttempts: 3, backoffMs: 30 * 1000 }
+  );
+  jobQueueService.registerHandler(
+    "onboarding.fetch-emails",
+    async (job) =>
+      unwrapServiceResult(
+        await onboardingService.fetchStyleLearningEmails(job.firebaseUid)
+      ),
+    { concurrency: 2, maxAttempts: 3, backoffMs: 10 * 1000 }
+  );
+  jobQueueService.registerHandler(
+    "onboarding.generate-profile",
+    async (job) => {
+      unwrapServiceResult(
+        await onboardingService.generateProfile(job.firebaseUid)
+      );
+      return { profileGenerated: true };
+    },
+    {
+      concurrency: 2,
+      maxAttempts: 3,
+      backoffMs: 15 * 1000,
+      onFailed: async (job) => {
+        await onboardingService.markProfileFailed(job.firebaseUid);
+      },
+    }
+  );
+
+  // Use DB-backed sync for background service so inbox uses stored threads;
+  // the dedupe key keeps at most one pending sync per user
+  backgroundService.setSyncScheduler(async (uid: string) => {
+    await jobQueueService.enqueue(
+      "email.sync",
+      uid,
+      {},
+      { dedupeKey: `email.sync:${uid}` }
+    );
+  });
+
+  backgroundService.setMaintenanceFunction(async () => {
+    const result = await gmailPushService.renewExpiringWatches();
+    if (!result.success) {
+      fastify.log.error({ err: result.error }, "Gmail watch renewal failed");
+    } else if (result.data && result.data.renewed + result.data.failed > 0) {
+      fastify.log.info(result.data, "Gmail watch renewal completed");
     }
   });
 
@@ -145,10 +263,14 @@ export async function createApp() {
   // Register controller routes
   authController.registerRoutes(fastify);
 
-  // Import auth middleware
-  const { requireAuth, requireGmailAuth } = await import(
-    "./middleware/auth.js"
-  );
+  // Import auth middleware; the Gmail check shares the app's token manager
+  const { requireAuth, createRequireGmailAuth } =
+    await import("./middleware/auth.js");
+  const requireGmailAuth = createRequireGmailAuth({
+    gmailIntegration,
+    tokenManager: gmailTokenManager,
+    userRepository,
+  });
 
   // Email routes
   fastify.get(
@@ -166,26 +288,139 @@ export async function createApp() {
     { preHandler: requireGmailAuth },
     emailController.refreshMessages.bind(emailController)
   );
+  // Searches local mail only, so Gmail tokens are not validated
+  fastify.get(
+    "/api/emails/search",
+    { preHandler: requireAuth() },
+    emailController.searchMessages.bind(emailController)
+  );
+  fastify.get(
+    "/api/emails/starred",
+    { preHandler: requireAuth() },
+    emailController.getStarredMessages.bind(emailController)
+  );
   fastify.get(
     "/api/emails/:id",
     { preHandler: requireGmailAuth },
     emailController.getMessage.bind(emailController)
   );
+  // Summarizes stored mail only, so Gmail tokens are not validated
+  fastify.get(
+    "/api/emails/:id/summary",
+    { preHandler: requireAuth() },
+    emailController.getThreadSummary.bind(emailController)
+  );
   fastify.post(
     "/api/emails/draft",
     { preHandler: requireGmailAuth },
     emailController.generateDraft.bind(emailController)
   );
+  fastify.post(
+    "/api/emails/draft/stream",
+    { preHandler: requireGmailAuth },
+    emailController.streamDraft.bind(emailController)
+  );
   fastify.post(
     "/api/emails/send",
     { preHandler: requireGmailAuth },
     emailController.sendEmail.bind(emailController)
   );
+  fastify.post(
+    "/api/emails/compose",
+    { preHandler: requireGmailAuth },
+    emailController.composeMessage.bind(emailController)
+  );
+  // Generates a subject and body from a brief; nothing is sent
+  fastify.post(
+    "/api/emails/compose/draft",
+    { preHandler: requireAuth() },
+    emailController.generateComposeDraft.bind(emailController)
+  );
   fastify.post(
     "/api/emails/:id/reply",
     { preHandler: requireGmailAuth },
     emailController.replyToMessage.bind(emailController)
   );
+  fastify.get(
+    "/api/emails/:emailId/attachments/:attachmentId",
+    { preHandler: requireGmailAuth },
+    emailController.downloadAttachment.bind(emailController)
+  );
+  fastify.post(
+    "/api/emails/:id/labels",
+    { preHandler: requireGmailAuth },
+    emailController.updateThreadLabels.bind(emailController)
+  );
+  // read, unread, star, unstar, archive, trash
+  fastify.post(
+    "/api/emails/:id/:action",
+    { preHandler: requireGmailAuth },
+    emailController.applyThreadAction.bind(emailController)
+  );
+  fastify.get(
+    "/api/labels",
+    { preHandler: requireGmailAuth },
+    emailController.getLabels.bind(emailController)
+  );
+
+  // Draft routes
+  fastify.get(
+    "/api/drafts",
+    { preHandler: requireAuth() },
+    draftController.listDrafts.bind(draftController)
+  );
+  fastify.get(
+    "/api/drafts/:id",
+    { preHandler: requireAuth() },
+    draftController.getDraft.bind(draftController)
+  );
+  fastify.patch(
+    "/api/drafts/:id",
+    { preHandler: requireAuth() },
+    draftController.updateDraft.bind(draftController)
+  );
+  // Regeneration reads the thread like /api/emails/draft, so it is served by
+  // the email controller
+  fastify.post(
+    "/api/drafts/:id/regenerate",
+    { preHandler: requireGmailAuth },
+    emailController.regenerateDraft.bind(emailController)
+  );
+  fastify.post(
+    "/api/drafts/:id/approve",
+    { preHandler: requireAuth() },
+    draftController.approveDraft.bind(draftController)
+  );
+  fastify.post(
+    "/api/drafts/:id/reject",
+    { preHandler: requireAuth() },
+    draftController.rejectDraft.bind(draftController)
+  );
+  fastify.delete(
+    "/api/drafts/:id",
+    { preHandler: requireAuth() },
+    draftController.deleteDraft.bind(draftController)
+  );
+
+  // Real-time event stream (SSE)
+  fastify.get(
+    "/api/events",
+    { preHandler: requireAuth() },
+    eventController.streamEvents.bind(eventController)
+  );
+
+  // Job routes
+  fastify.get(
+    "/api/jobs/:id",
+    { preHandler: requireAuth() },
+    jobController.getJob.bind(jobController)
+  );
+
+  // Webhook routes (authenticated by push token, not user session)
+  fastify.post(
+    "/api/webhooks/gmail",
+    webhookController.handleGmailPush.bind(webhookController)
+  );
 
   // Onboarding routes
   fastify.post(
@@ -204,6 +439,28 @@ export async function createApp() {
     onboardingController.generateProfile.bind(onboardingController)
   );
 
+  // Style profile routes
+  fastify.get(
+    "/api/profile/style",
+    { preHandler: requireAuth() },
+    profileController.getStyleProfile.bind(profileController)
+  );
+  fastify.patch(
+    "/api/profile/style",
+    { preHandler: requireAuth() },
+    profileController.updateStyleProfile.bind(profileController)
+  );
+  fastify.get(
+    "/api/profile/style/versions",
+    { preHandler: requireAuth() },
+    profileController.listStyleProfileVersions.bind(profileController)
+  );
+  fastify.post(
+    "/api/profile/style/versions/:id/rollback",
+    { preHandler: requireAuth() },
+    profileController.rollbackStyleProfile.bind(profileController)
+  );
+
   // Global error handler
   fastify.setErrorHandler((error, request, reply) => {
     fastify.log.error(error);
@@ -228,6 +485,8 @@ export async function createApp() {
 async function gracefulShutdown() {
   try {
     backgroundService.stop();
+    jobQueueService.stop();
+    await eventService.close();
     if (fastifyInstance) {
       fastifyInstance.log.info("✅ Background service stopped");
     } else {
@@ -255,4 +514,11 @@ async function gracefulShutdown() {
 process.on("SIGINT", gracefulShutdown);
 process.on("SIGTERM", gracefulShutdown);
 
-export { prisma, userService, emailService, authService, backgroundService };
+export {
+  prisma,
+  userService,
+  emailService,
+  authService,
+  backgroundService,
+  jobQueueService,
+};
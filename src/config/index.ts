@@ -1,5 +1,13 @@
 import "dotenv/config";
 
+export type LLMProviderName = "vertex" | "openai" | "fake";
+
+// Which backend and model serve one AI task
+export interface LLMSelection {
+  provider: LLMProviderName;
+  model: string;
+}
+
 export interface AppConfig {
   // Server Configuration
   port: number;
@@ -24,6 +32,23 @@ export interface AppConfig {
   vertexAiLocation: string;
   googleApplicationCredentials: string;
 
+  // LLM Configuration
+  llm: {
+    tasks: {
+      styleProfile: LLMSelection;
+      draft: LLMSelection;
+      summary: LLMSelection;
+    };
+    openaiBaseUrl: string;
+    openaiApiKey?: string;
+  };
+
+  // Gmail Push Notifications (Pub/Sub)
+  gmailPushTopic?: string;
+  gmailPushToken?: string;
+  gmailPushAudience?: string;
+  gmailPushServiceAccount?: string;
+
   // Redis Configuration
   redisUrl: string;
 
@@ -43,11 +68,43 @@ const requiredEnvVars = [
   "GOOGLE_CLIENT_ID",
   "GOOGLE_CLIENT_SECRET",
   "GOOGLE_REDIRECT_URI",
-  "VERTEX_AI_PROJECT_ID",
   // REDIS_URL is preferred; if missing, we'll build from REDIS_HOST/REDIS_PORT
   "JWT_SECRET",
 ];
 
+const LLM_PROVIDERS: LLMProviderName[] = ["vertex", "openai", "fake"];
+
+const DEFAULT_LLM_MODELS: Record<LLMProviderName, string> = {
+  vertex: "gemini-2.0-flash-001",
+  openai: "llama3.1",
+  fake: "fake",
+};
+
+/**
+ * Provider and model for one task. LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL
+ * override LLM_PROVIDER / LLM_MODEL; LLM_MODEL only applies to tasks that
+ * keep the default provider, since model names differ between backends.
+ */
+function llmSelection(task: string): LLMSelection {
+  const taskProvider = process.env[`LLM_${task}_PROVIDER`];
+  const provider = (taskProvider ||
+    process.env.LLM_PROVIDER ||
+    "vertex") as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(
+      `Unknown LLM provider "${provider}"; expected one of ${LLM_PROVIDERS.join(", ")}`
+    );
+  }
+
+  return {
+    provider,
+    model:
+      process.env[`LLM_${task}_MODEL`] ||
+      (!taskProvider && process.env.LLM_MODEL) ||
+      DEFAULT_LLM_MODELS[provider],
+  };
+}
+
 function validateConfig(): void {
   const missing = requiredEnvVars.filter((envVar) => !process.env[envVar]);
   if (missing.length > 0) {
@@ -60,6 +117,20 @@ function validateConfig(): void {
 function createConfig(): AppConfig {
   validateConfig();
 
+  const llmTasks = {
+    styleProfile: llmSelection("STYLE_PROFILE"),
+    draft: llmSelection("DRAFT"),
+    summary: llmSelection("SUMMARY"),
+  };
+  const usesVertex = Object.values(llmTasks).some(
+    (selection) => selection.provider === "vertex"
+  );
+  if (usesVertex && !process.env.VERTEX_AI_PROJECT_ID) {
+    throw new Error(
+      "Missing required environment variables: VERTEX_AI_PROJECT_ID"
+    );
+  }
+
   return {
     // Server Configuration
     port: parseInt(process.env.PORT || "8000", 10),
@@ -80,11 +151,24 @@ function createConfig(): AppConfig {
     googleRedirectUri: process.env.GOOGLE_REDIRECT_URI!,
 
     // Vertex AI Configuration
-    vertexAiProjectId: process.env.VERTEX_AI_PROJECT_ID!,
+    vertexAiProjectId: process.env.VERTEX_AI_PROJECT_ID || "",
     vertexAiLocation: process.env.VERTEX_AI_LOCATION || "us-central1",
     googleApplicationCredentials:
       process.env.GOOGLE_APPLICATION_CREDENTIALS || "",
 
+    // LLM Configuration
+    llm: {
+      tasks: llmTasks,
+      openaiBaseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+      openaiApiKey: process.env.OPENAI_API_KEY,
+    },
+
+    // Gmail Push Notifications (Pub/Sub)
+    gmailPushTopic: process.env.GMAIL_PUSH_TOPIC,
+    gmailPushToken: process.env.GMAIL_PUSH_TOKEN,
+    gmailPushAudience: process.env.GMAIL_PUSH_AUDIENCE,
+    gmailPushServiceAccount: process.env.GMAIL_PUSH_SERVICE_ACCOUNT,
+
     // Redis Configuration
     redisUrl:
       process.env.REDIS_URL ||
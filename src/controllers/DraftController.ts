@@ -0,0 +1,230 @@
+/* eslint-disable import/no-unresolved */
+import { FastifyRequest, FastifyReply } from "fastify";
+
+import { DraftService } from "../services/DraftService";
+import { DraftStatus } from "../types";
+
+const DRAFT_STATUSES: DraftStatus[] = [
+  "PENDING",
+  "APPROVED",
+  "EDITED",
+  "REJECTED",
+  "SENT",
+];
+
+export class DraftController {
+  constructor(private draftService: DraftService) {}
+
+  async listDrafts(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { status } = request.query as { status?: string };
+      const normalizedStatus = status?.toUpperCase() as DraftStatus | undefined;
+
+      if (normalizedStatus && !DRAFT_STATUSES.includes(normalizedStatus)) {
+        reply.code(400).send({ error: `Unknown draft status: ${status}` });
+        return;
+      }
+
+      const result = await this.draftService.getDrafts(
+        request.firebaseUser.firebaseUid,
+        normalizedStatus
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error listing drafts:", error);
+      reply.code(500).send({
+        error: "Failed to list drafts",
+      });
+    }
+  }
+
+  async getDraft(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+
+      const result = await this.draftService.getDraft(
+        request.firebaseUser.firebaseUid,
+        id
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error getting draft:", error);
+      reply.code(500).send({
+        error: "Failed to get draft",
+      });
+    }
+  }
+
+  async updateDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+      const { content } = (request.body ?? {}) as { content?: string };
+
+      if (typeof content !== "string" || !content.trim()) {
+        reply.code(400).send({ error: "Draft content is required" });
+        return;
+      }
+
+      const result = await this.draftService.editDraft(
+        request.firebaseUser.firebaseUid,
+        id,
+        content
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error updating draft:", error);
+      reply.code(500).send({
+        error: "Failed to update draft",
+      });
+    }
+  }
+
+  async approveDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+
+      const result = await this.draftService.approveDraft(
+        request.firebaseUser.firebaseUid,
+        id
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error approving draft:", error);
+      reply.code(500).send({
+        error: "Failed to approve draft",
+      });
+    }
+  }
+
+  async rejectDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+      const { reason } = (request.body ?? {}) as { reason?: string };
+
+      const result = await this.draftService.rejectDraft(
+        request.firebaseUser.firebaseUid,
+        id,
+        typeof reason === "string" ? reason : undefined
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error rejecting draft:", error);
+      reply.code(500).send({
+        error: "Failed to reject draft",
+      });
+    }
+  }
+
+  async deleteDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+
+      const result = await this.draftService.deleteDraft(
+        request.firebaseUser.firebaseUid,
+        id
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({ success: true });
+    } catch (error: unknown) {
+      console.error("Error deleting draft:", error);
+      reply.code(500).send({
+        error: "Failed to delete draft",
+      });
+    }
+  }
+}
@@ -3,6 +3,203 @@
 import { FastifyRequest, FastifyReply } from "fastify";
 
 import { EmailService } from "../services/EmailService";
+import {
+  CursorPage,
+  DraftControls,
+  DraftDirectness,
+  DraftLength,
+  EmailGenerationContext,
+  PaginatedResponse,
+  ReplyMode,
+  ThreadAction,
+} from "../types";
+import {
+  DRAFT_DIRECTNESS,
+  DRAFT_LENGTHS,
+  DRAFT_TONES,
+  toDraftTone,
+} from "../utils/drafts";
+import { openEventStream } from "../utils/sse";
+
+const THREAD_ACTIONS: ThreadAction[] = [
+  "read",
+  "unread",
+  "star",
+  "unstar",
+  "archive",
+  "trash",
+];
+
+const REPLY_MODES: ReplyMode[] = ["reply", "reply_all", "forward"];
+
+const MAX_BRIEF_LENGTH = 2000;
+const MAX_INSTRUCTION_LENGTH = 500;
+
+const isAddressList = (value: unknown): value is string[] | undefined =>
+  value === undefined ||
+  (Array.isArray(value) && value.every((item) => typeof item === "string"));
+
+const trimAddresses = (value?: string[]) =>
+  value?.map((address) => address.trim());
+
+type DraftRecipient = NonNullable<EmailGenerationContext["recipient"]>;
+
+// What a client may set in a draft request's `context`; the rest of the
+// generation context (attachments, regeneration instructions) is server-side
+type DraftRequestContext = DraftControls &
+  Partial<
+    Pick<
+      EmailGenerationContext,
+      "originalEmail" | "threadHistory" | "recipient"
+    >
+  >;
+
+const DRAFT_CONTEXT_FIELDS = [
+  "originalEmail",
+  "threadHistory",
+  "recipient",
+  "tone",
+  "length",
+  "directness",
+  "includeGreeting",
+];
+
+const RECIPIENT_RELATIONSHIPS: Array<DraftRecipient["relationship"]> = [
+  "colleague",
+  "client",
+  "manager",
+  "other",
+];
+
+// Draft generation knobs from a request body; the first invalid one is
+// reported as an error message
+function parseDraftControls(
+  source: Record<string, unknown>
+): { controls: DraftControls } | { error: string } {
+  const { tone, length, directness, includeGreeting } = source;
+
+  const draftTone = typeof tone === "string" ? toDraftTone(tone) : undefined;
+  if (tone && !draftTone) {
+    return { error: `tone must be one of: ${DRAFT_TONES.join(", ")}` };
+  }
+  if (length !== undefined && !DRAFT_LENGTHS.includes(length as DraftLength)) {
+    return { error: `length must be one of: ${DRAFT_LENGTHS.join(", ")}` };
+  }
+  if (
+    directness !== undefined &&
+    !DRAFT_DIRECTNESS.includes(directness as DraftDirectness)
+  ) {
+    return {
+      error: `directness must be one of: ${DRAFT_DIRECTNESS.join(", ")}`,
+    };
+  }
+  if (includeGreeting !== undefined && typeof includeGreeting !== "boolean") {
+    return { error: "includeGreeting must be a boolean" };
+  }
+
+  return {
+    controls: {
+      tone: draftTone,
+      length: length as DraftLength | undefined,
+      directness: directness as DraftDirectness | undefined,
+      includeGreeting,
+    },
+  };
+}
+
+// The `context` of a draft request, checked field by field; unknown fields
+// are rejected rather than passed on to the prompt
+function parseDraftContext(
+  source: unknown
+): { context: DraftRequestContext } | { error: string } {
+  if (source === undefined) {
+    return { context: {} };
+  }
+  if (typeof source !== "object" || source === null || Array.isArray(source)) {
+    return { error: "context must be an object" };
+  }
+
+  const fields = source as Record<string, unknown>;
+  const unknownField = Object.keys(fields).find(
+    (field) => !DRAFT_CONTEXT_FIELDS.includes(field)
+  );
+  if (unknownField) {
+    return { error: `context.${unknownField} is not supported` };
+  }
+
+  const { originalEmail, threadHistory, recipient } = fields;
+  if (originalEmail !== undefined && typeof originalEmail !== "string") {
+    return { error: "context.originalEmail must be a string" };
+  }
+  if (
+    threadHistory !== undefined &&
+    !(
+      Array.isArray(threadHistory) &&
+      threadHistory.every((item) => typeof item === "string")
+    )
+  ) {
+    return { error: "context.threadHistory must be an array of strings" };
+  }
+  const parsedRecipient = parseDraftRecipient(recipient);
+  if ("error" in parsedRecipient) {
+    return parsedRecipient;
+  }
+
+  const parsed = parseDraftControls(fields);
+  if ("error" in parsed) {
+    return parsed;
+  }
+
+  return {
+    context: {
+      ...parsed.controls,
+      originalEmail,
+      threadHistory: threadHistory as string[] | undefined,
+      recipient: parsedRecipient.recipient,
+    },
+  };
+}
+
+function parseDraftRecipient(
+  value: unknown
+): { recipient?: DraftRecipient } | { error: string } {
+  if (value === undefined) {
+    return {};
+  }
+
+  const { name, email, relationship } = (value ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    typeof email !== "string" ||
+    (name !== undefined && typeof name !== "string")
+  ) {
+    return {
+      error: "context.recipient must have a string email and optional name",
+    };
+  }
+  if (
+    relationship !== undefined &&
+    !RECIPIENT_RELATIONSHIPS.includes(
+      relationship as DraftRecipient["relationship"]
+    )
+  ) {
+    return {
+      error: `context.recipient.relationship must be one of: ${RECIPIENT_RELATIONSHIPS.join(", ")}`,
+    };
+  }
+
+  return {
+    recipient: {
+      email,
+      name,
+      relationship: relationship as DraftRecipient["relationship"],
+    },
+  };
+}
 
 export class EmailController {
   constructor(private emailService: EmailService) {}
@@ -17,19 +214,44 @@ export class EmailController {
         return;
       }
 
+      const { cursor, limit, unread, label, since } = request.query as {
+        cursor?: string;
+        limit?: string;
+        unread?: string;
+        label?: string;
+        since?: string;
+      };
+
+      if (unread !== undefined && unread !== "true" && unread !== "false") {
+        reply.code(400).send({ error: "unread must be true or false" });
+        return;
+      }
+
+      const sinceDate = since ? new Date(since) : undefined;
+      if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+        reply.code(400).send({ error: "since must be an ISO date" });
+        return;
+      }
+
       const result = await this.emailService.getThreads(
-        request.firebaseUser.firebaseUid
+        request.firebaseUser.firebaseUid,
+        {
+          cursor: cursor || undefined,
+          limit: limit ? Number.parseInt(limit, 10) || undefined : undefined,
+          filters: {
+            unread: unread === undefined ? undefined : unread === "true",
+            label: label || undefined,
+            since: sinceDate,
+          },
+        }
       );
 
-      if (!result.success) {
-        reply.code(400).send({ error: result.error });
+      if (!result.success || !result.data) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
         return;
       }
 
-      reply.send({
-        success: true,
-        data: result.data,
-      });
+      reply.send(this.toPaginatedResponse(result.data));
     } catch (error: any) {
       console.error("Error getting messages:", error);
       reply.code(500).send({
@@ -60,7 +282,11 @@ export class EmailController {
       reply.send({
         success: true,
         data: {
-          synced: result.data?.synced ?? 0,
+          mode: result.data?.mode,
+          synced: result.data?.added ?? 0,
+          added: result.data?.added ?? 0,
+          updated: result.data?.updated ?? 0,
+          removed: result.data?.removed ?? 0,
           errors: result.data?.errors ?? 0,
           errorDetails:
             result.data && result.data.errorDetails.length > 0
@@ -96,20 +322,17 @@ export class EmailController {
         return;
       }
 
-      // Then get latest threads
+      // Then get the first page of latest threads
       const threadsResult = await this.emailService.getThreads(
         request.firebaseUser.firebaseUid
       );
 
-      if (!threadsResult.success) {
+      if (!threadsResult.success || !threadsResult.data) {
         reply.code(400).send({ error: threadsResult.error });
         return;
       }
 
-      reply.send({
-        success: true,
-        data: threadsResult.data,
-      });
+      reply.send(this.toPaginatedResponse(threadsResult.data));
     } catch (error: any) {
       console.error("Error refreshing messages:", error);
       reply.code(500).send({
@@ -118,6 +341,50 @@ export class EmailController {
     }
   }
 
+  async searchMessages(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { q, cursor, limit } = request.query as {
+        q?: string;
+        cursor?: string;
+        limit?: string;
+      };
+
+      if (!q?.trim()) {
+        reply.code(400).send({ error: "Search query (q) is required" });
+        return;
+      }
+
+      const result = await this.emailService.searchEmails(
+        request.firebaseUser.firebaseUid,
+        {
+          query: q,
+          cursor: cursor || undefined,
+          limit: limit ? Number.parseInt(limit, 10) || undefined : undefined,
+        }
+      );
+
+      if (!result.success || !result.data) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send(this.toPaginatedResponse(result.data));
+    } catch (error: any) {
+      console.error("Error searching messages:", error);
+      reply.code(500).send({
+        error: "Failed to search messages",
+      });
+    }
+  }
+
   async getMessage(
     request: FastifyRequest,
     reply: FastifyReply
@@ -129,6 +396,7 @@ export class EmailController {
       }
 
       const { id } = request.params as { id: string };
+      const { markRead } = request.query as { markRead?: string };
 
       if (!id) {
         reply.code(400).send({ error: "Thread ID is required" });
@@ -137,7 +405,8 @@ export class EmailController {
 
       const result = await this.emailService.getThread(
         request.firebaseUser.firebaseUid,
-        id
+        id,
+        { markRead: markRead === "true" }
       );
 
       const payload = result.data;
@@ -153,7 +422,9 @@ export class EmailController {
           return;
         }
 
-        reply.code(404).send({ error: result.error || "Thread not found" });
+        reply
+          .code(result.statusCode ?? 404)
+          .send({ error: result.error || "Thread not found" });
         return;
       }
 
@@ -170,6 +441,45 @@ export class EmailController {
     }
   }
 
+  async getThreadSummary(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+
+      if (!id) {
+        reply.code(400).send({ error: "Thread ID is required" });
+        return;
+      }
+
+      const result = await this.emailService.summarizeThread(
+        request.firebaseUser.firebaseUid,
+        id
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error("Error summarizing thread:", error);
+      reply.code(500).send({
+        error: "Failed to summarize thread",
+      });
+    }
+  }
+
   async generateDraft(
     request: FastifyRequest,
     reply: FastifyReply
@@ -180,9 +490,10 @@ export class EmailController {
         return;
       }
 
-      const { threadId, context } = request.body as {
+      const { threadId, context, variants } = request.body as {
         threadId: string;
-        context: any;
+        context?: unknown;
+        variants?: unknown;
       };
 
       if (!threadId) {
@@ -190,20 +501,34 @@ export class EmailController {
         return;
       }
 
+      if (variants !== undefined && typeof variants !== "number") {
+        reply.code(400).send({ error: "variants must be a number" });
+        return;
+      }
+
+      const parsed = parseDraftContext(context);
+      if ("error" in parsed) {
+        reply.code(400).send({ error: parsed.error });
+        return;
+      }
+
       const result = await this.emailService.generateDraft(
         request.firebaseUser.firebaseUid,
         threadId,
-        context
+        parsed.context,
+        variants
       );
 
       if (!result.success) {
-        reply.code(400).send({ error: result.error });
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
         return;
       }
 
+      // data stays a single draft for clients that predate variants
       reply.send({
         success: true,
-        data: result.data,
+        data: result.data?.[0],
+        variants: result.data,
       });
     } catch (error: any) {
       console.error("Error generating draft:", error);
@@ -213,6 +538,147 @@ export class EmailController {
     }
   }
 
+  /**
+   * Stream a reply draft as server-sent events: `token` events carry text as
+   * it is generated and a terminal `done` or `error` event closes the stream.
+   * The stream opens on the first token, so failures before that (unknown
+   * thread, no style profile) are plain JSON errors. A client disconnect
+   * stops the draft from being stored; whether generation itself stops
+   * depends on the provider (see LLMProvider.stream).
+   */
+  async streamDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { threadId, context } = request.body as {
+        threadId: string;
+        context?: unknown;
+      };
+
+      if (!threadId) {
+        reply.code(400).send({ error: "Thread ID is required" });
+        return;
+      }
+
+      const parsed = parseDraftContext(context);
+      if ("error" in parsed) {
+        reply.code(400).send({ error: parsed.error });
+        return;
+      }
+
+      const res = reply.raw;
+      const abort = new AbortController();
+      res.on("close", () => {
+        // Closed before the terminal event was written: the client left
+        if (!res.writableEnded) abort.abort();
+      });
+
+      let streaming = false;
+      const write = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        if (!streaming) {
+          streaming = true;
+          openEventStream(reply);
+        }
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const result = await this.emailService.streamDraft(
+        request.firebaseUser.firebaseUid,
+        threadId,
+        parsed.context,
+        (text) => write("token", { text }),
+        abort.signal
+      );
+
+      if (abort.signal.aborted) {
+        return;
+      }
+
+      if (!result.success) {
+        if (!streaming) {
+          reply.code(result.statusCode ?? 400).send({ error: result.error });
+          return;
+        }
+        write("error", { error: result.error });
+      } else {
+        write("done", { draftId: result.data?.id, draft: result.data });
+      }
+      res.end();
+    } catch (error: any) {
+      console.error("Error streaming draft:", error);
+      if (!reply.sent) {
+        reply.code(500).send({
+          error: "Failed to generate draft",
+        });
+      } else if (!reply.raw.writableEnded) {
+        reply.raw.end();
+      }
+    }
+  }
+
+  async regenerateDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+      const body = (request.body ?? {}) as Record<string, unknown>;
+      const { instruction } = body;
+
+      if (instruction !== undefined && typeof instruction !== "string") {
+        reply.code(400).send({ error: "instruction must be a string" });
+        return;
+      }
+
+      if (instruction && instruction.length > MAX_INSTRUCTION_LENGTH) {
+        reply.code(400).send({
+          error: `instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`,
+        });
+        return;
+      }
+
+      const parsed = parseDraftControls(body);
+      if ("error" in parsed) {
+        reply.code(400).send({ error: parsed.error });
+        return;
+      }
+
+      const result = await this.emailService.regenerateDraft(
+        request.firebaseUser.firebaseUid,
+        id,
+        { ...parsed.controls, instruction: instruction?.trim() || undefined }
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.code(201).send({
+        success: true,
+        data: result.data?.draft,
+        variants: result.data?.variants,
+      });
+    } catch (error: any) {
+      console.error("Error regenerating draft:", error);
+      reply.code(500).send({
+        error: "Failed to regenerate draft",
+      });
+    }
+  }
+
   async sendEmail(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     try {
       if (!request.firebaseUser) {
@@ -235,16 +701,21 @@ export class EmailController {
       );
 
       if (!result.success) {
-        reply.code(400).send({ error: result.error });
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
         return;
       }
 
+      const payload = result.data;
+
       reply.send({
         success: true,
         data: {
-          message: result.data,
-          sentAt: new Date().toISOString(),
+          message: "Draft sent successfully",
+          draft: payload?.draft,
+          gmailMessageId: payload?.gmailMessageId,
+          sentAt: (payload?.draft.sentAt ?? new Date()).toISOString(),
         },
+        upsertErrors: payload?.upsertErrors ?? [],
       });
     } catch (error: any) {
       console.error("Error sending email:", error);
@@ -254,6 +725,207 @@ export class EmailController {
     }
   }
 
+  async applyThreadAction(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id, action } = request.params as { id: string; action: string };
+
+      if (!THREAD_ACTIONS.includes(action as ThreadAction)) {
+        reply.code(404).send({ error: `Unknown thread action: ${action}` });
+        return;
+      }
+
+      const result = await this.emailService.applyThreadAction(
+        request.firebaseUser.firebaseUid,
+        id,
+        action as ThreadAction
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error("Error updating thread:", error);
+      reply.code(500).send({
+        error: "Failed to update thread",
+      });
+    }
+  }
+
+  async updateThreadLabels(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+      const { add, remove } = (request.body ?? {}) as {
+        add?: unknown;
+        remove?: unknown;
+      };
+
+      const isLabelList = (value: unknown) =>
+        value === undefined ||
+        (Array.isArray(value) &&
+          value.every((item) => typeof item === "string" && item));
+      if (!isLabelList(add) || !isLabelList(remove)) {
+        reply
+          .code(400)
+          .send({ error: "add and remove must be arrays of label ids" });
+        return;
+      }
+
+      const result = await this.emailService.updateThreadLabels(
+        request.firebaseUser.firebaseUid,
+        id,
+        {
+          addLabelIds: add as string[] | undefined,
+          removeLabelIds: remove as string[] | undefined,
+        }
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error("Error updating thread labels:", error);
+      reply.code(500).send({
+        error: "Failed to update thread labels",
+      });
+    }
+  }
+
+  async getLabels(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { refresh } = request.query as { refresh?: string };
+
+      const result = await this.emailService.getLabels(
+        request.firebaseUser.firebaseUid,
+        { refresh: refresh === "true" }
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error("Error getting labels:", error);
+      reply.code(500).send({
+        error: "Failed to get labels",
+      });
+    }
+  }
+
+  async getStarredMessages(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const result = await this.emailService.getStarredEmails(
+        request.firebaseUser.firebaseUid
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error("Error getting starred messages:", error);
+      reply.code(500).send({
+        error: "Failed to get starred messages",
+      });
+    }
+  }
+
+  async downloadAttachment(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { emailId, attachmentId } = request.params as {
+        emailId: string;
+        attachmentId: string;
+      };
+
+      const result = await this.emailService.getAttachment(
+        request.firebaseUser.firebaseUid,
+        emailId,
+        attachmentId
+      );
+
+      if (!result.success || !result.data) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      const { filename, mimeType, data } = result.data;
+      const asciiName = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+
+      reply
+        .header("Content-Type", mimeType)
+        .header("Content-Length", data.length)
+        .header(
+          "Content-Disposition",
+          `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+        )
+        .header("X-Content-Type-Options", "nosniff")
+        .send(data);
+    } catch (error: any) {
+      console.error("Error downloading attachment:", error);
+      reply.code(500).send({
+        error: "Failed to download attachment",
+      });
+    }
+  }
+
   async replyToMessage(
     request: FastifyRequest,
     reply: FastifyReply
@@ -265,22 +937,56 @@ export class EmailController {
       }
 
       const { id } = request.params as { id: string };
-      const { body } = request.body as { body: string };
+      const {
+        body,
+        mode = "reply",
+        to,
+        cc,
+        bcc,
+      } = (request.body ?? {}) as {
+        body?: unknown;
+        mode?: ReplyMode;
+        to?: unknown;
+        cc?: unknown;
+        bcc?: unknown;
+      };
 
       if (!id) {
         reply.code(400).send({ error: "Thread ID is required" });
         return;
       }
 
-      if (!body || !body.trim()) {
+      if (!REPLY_MODES.includes(mode)) {
+        reply
+          .code(400)
+          .send({ error: "mode must be reply, reply_all or forward" });
+        return;
+      }
+
+      // A forward may go out without a note of its own
+      const text = typeof body === "string" ? body.trim() : "";
+      if (!text && mode !== "forward") {
         reply.code(400).send({ error: "Reply body is required" });
         return;
       }
 
+      if (!isAddressList(to) || !isAddressList(cc) || !isAddressList(bcc)) {
+        reply
+          .code(400)
+          .send({ error: "to, cc and bcc must be arrays of email addresses" });
+        return;
+      }
+
       const result = await this.emailService.replyToThread(
         request.firebaseUser.firebaseUid,
         id,
-        body.trim()
+        {
+          body: text,
+          mode,
+          to: trimAddresses(to),
+          cc: trimAddresses(cc),
+          bcc: trimAddresses(bcc),
+        }
       );
 
       const payload = result.data;
@@ -296,7 +1002,7 @@ export class EmailController {
           return;
         }
 
-        reply.code(400).send({ error: result.error });
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
         return;
       }
 
@@ -312,4 +1018,154 @@ export class EmailController {
       });
     }
   }
+
+  async composeMessage(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { to, cc, bcc, subject, body } = (request.body ?? {}) as {
+        to?: unknown;
+        cc?: unknown;
+        bcc?: unknown;
+        subject?: unknown;
+        body?: unknown;
+      };
+
+      if (!isAddressList(to) || !isAddressList(cc) || !isAddressList(bcc)) {
+        reply
+          .code(400)
+          .send({ error: "to, cc and bcc must be arrays of email addresses" });
+        return;
+      }
+
+      if (typeof body !== "string" || !body.trim()) {
+        reply.code(400).send({ error: "Email body is required" });
+        return;
+      }
+
+      if (subject !== undefined && typeof subject !== "string") {
+        reply.code(400).send({ error: "subject must be a string" });
+        return;
+      }
+
+      const result = await this.emailService.composeEmail(
+        request.firebaseUser.firebaseUid,
+        {
+          to: trimAddresses(to) ?? [],
+          cc: trimAddresses(cc),
+          bcc: trimAddresses(bcc),
+          subject: subject?.trim() ?? "",
+          body: body.trim(),
+        }
+      );
+
+      const payload = result.data;
+
+      if (!result.success) {
+        if (payload?.thread) {
+          reply.code(207).send({
+            success: false,
+            error: result.error,
+            data: payload.thread,
+            upsertErrors: payload.upsertErrors ?? [],
+          });
+          return;
+        }
+
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.code(201).send({
+        success: true,
+        data: payload?.thread,
+      });
+    } catch (error: any) {
+      console.error("Error composing message:", error);
+      reply.code(500).send({
+        error: "Failed to send email",
+      });
+    }
+  }
+
+  async generateComposeDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { brief, to, subject, tone } = (request.body ?? {}) as {
+        brief?: unknown;
+        to?: unknown;
+        subject?: unknown;
+        tone?: unknown;
+      };
+
+      if (typeof brief !== "string" || !brief.trim()) {
+        reply.code(400).send({ error: "brief is required" });
+        return;
+      }
+
+      if (brief.length > MAX_BRIEF_LENGTH) {
+        reply.code(400).send({
+          error: `brief must be at most ${MAX_BRIEF_LENGTH} characters`,
+        });
+        return;
+      }
+
+      if (!isAddressList(to)) {
+        reply
+          .code(400)
+          .send({ error: "to must be an array of email addresses" });
+        return;
+      }
+
+      const result = await this.emailService.generateComposeDraft(
+        request.firebaseUser.firebaseUid,
+        {
+          brief: brief.trim(),
+          to: trimAddresses(to),
+          subject: typeof subject === "string" ? subject.trim() : undefined,
+          tone: typeof tone === "string" ? tone : undefined,
+        }
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error("Error generating compose draft:", error);
+      reply.code(500).send({
+        error: "Failed to generate email",
+      });
+    }
+  }
+
+  private toPaginatedResponse<T>(page: CursorPage<T>): PaginatedResponse<T[]> {
+    return {
+      success: true,
+      data: page.items,
+      pagination: {
+        limit: page.limit,
+        nextCursor: page.nextCursor,
+        hasMore: page.nextCursor !== null,
+      },
+    };
+  }
 }
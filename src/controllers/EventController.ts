@@ -0,0 +1,94 @@
+/* eslint-disable import/no-unresolved */
+import { FastifyRequest, FastifyReply } from "fastify";
+
+import { EventService, isLaterEventId } from "../services/EventService";
+import { UserEvent } from "../types";
+import { openEventStream } from "../utils/sse";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const CLIENT_RETRY_MS = 5000;
+
+export class EventController {
+  constructor(private eventService: EventService) {}
+
+  async streamEvents(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { firebaseUid } = request.firebaseUser;
+      const { lastEventId: lastEventIdQuery } = request.query as {
+        lastEventId?: string;
+      };
+      const lastEventIdHeader = request.headers["last-event-id"];
+      const lastEventId =
+        (typeof lastEventIdHeader === "string" ? lastEventIdHeader : "") ||
+        lastEventIdQuery;
+
+      const res = reply.raw;
+      let lastSentId = lastEventId;
+      let replaying = true;
+      const pending: UserEvent[] = [];
+
+      const send = (event: UserEvent) => {
+        if (event.id) {
+          // Live events can overlap the replayed range; send each once
+          if (lastSentId && !isLaterEventId(event.id, lastSentId)) return;
+          lastSentId = event.id;
+        }
+
+        res.write(
+          `${event.id ? `id: ${event.id}\n` : ""}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+        );
+      };
+
+      // Subscribe before replaying so nothing published in between is lost
+      const unsubscribe = await this.eventService.subscribe(
+        firebaseUid,
+        (event) => (replaying ? pending.push(event) : send(event))
+      );
+
+      openEventStream(reply);
+
+      const heartbeat = setInterval(() => {
+        res.write(": heartbeat\n\n");
+      }, HEARTBEAT_INTERVAL_MS);
+
+      res.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe().catch((error) =>
+          request.log.error({ err: error }, "Failed to unsubscribe SSE client")
+        );
+      });
+
+      res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+      if (lastEventId) {
+        try {
+          const missed = await this.eventService.replaySince(
+            firebaseUid,
+            lastEventId
+          );
+          missed.forEach(send);
+        } catch (error) {
+          request.log.error({ err: error }, "Failed to replay SSE events");
+        }
+      }
+
+      replaying = false;
+      pending.splice(0).forEach(send);
+    } catch (error: unknown) {
+      console.error("Error opening event stream:", error);
+      if (!reply.sent) {
+        reply.code(500).send({
+          error: "Failed to open event stream",
+        });
+      }
+    }
+  }
+}
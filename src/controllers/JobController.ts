@@ -0,0 +1,52 @@
+/* eslint-disable import/no-unresolved */
+import { FastifyRequest, FastifyReply } from "fastify";
+
+import { JobQueueService } from "../services/JobQueueService";
+
+export class JobController {
+  constructor(private jobQueue: JobQueueService) {}
+
+  async getJob(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+
+      const result = await this.jobQueue.getJob(
+        request.firebaseUser.firebaseUid,
+        id
+      );
+
+      if (!result.success || !result.data) {
+        reply.code(result.statusCode ?? 404).send({ error: result.error });
+        return;
+      }
+
+      const job = result.data;
+      reply.send({
+        success: true,
+        data: {
+          id: job.id,
+          type: job.type,
+          status: job.status,
+          attempts: job.attempts,
+          maxAttempts: job.maxAttempts,
+          result: job.result,
+          error: job.lastError,
+          runAt: job.runAt,
+          createdAt: job.createdAt,
+          updatedAt: job.updatedAt,
+          completedAt: job.completedAt,
+        },
+      });
+    } catch (error: unknown) {
+      console.error("Error getting job:", error);
+      reply.code(500).send({
+        error: "Failed to get job",
+      });
+    }
+  }
+}
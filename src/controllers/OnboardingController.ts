@@ -1,16 +1,13 @@
 /* eslint-disable import/no-unresolved */
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { FastifyRequest, FastifyReply } from "fastify";
 
-import {
-  fetchRecentEmailsForStyleLearning,
-  cacheUserEmailsForOnboarding,
-} from "../lib/onboarding-emails";
 import { prisma } from "../lib/prisma";
-import { generateStyleProfile } from "../lib/vertexai";
-import { OnboardingStatus, AIStyleProfile } from "../types";
+import { OnboardingService } from "../services/OnboardingService";
+import { OnboardingStatus } from "../types";
 
 export class OnboardingController {
+  constructor(private onboardingService: OnboardingService) {}
+
   async startQuestionnaire(
     request: FastifyRequest,
     reply: FastifyReply
@@ -21,42 +18,20 @@ export class OnboardingController {
         return;
       }
 
-      const { firebaseUid } = request.firebaseUser;
+      // Email fetching for style learning runs as a background job
+      const result = await this.onboardingService.startQuestionnaire(
+        request.firebaseUser.firebaseUid
+      );
 
-      // Update onboarding status
-      await prisma.user.update({
-        where: { firebaseUid },
-        data: {
-          onboardingStatus: "QUESTIONNAIRE_IN_PROGRESS" as OnboardingStatus,
-        },
-      });
-
-      // Trigger background email fetching (non-blocking)
-      (async () => {
-        try {
-          const { sentEmails, inboxEmails } =
-            await fetchRecentEmailsForStyleLearning(firebaseUid, {
-              sentCount: 10,
-              inboxCount: 20,
-            });
-          await cacheUserEmailsForOnboarding(firebaseUid, {
-            sentEmails,
-            inboxEmails,
-          });
-          request.log?.info(
-            `[Onboarding] Cached emails for ${firebaseUid}: sent=${sentEmails.length}, inbox=${inboxEmails.length}`
-          );
-        } catch (err) {
-          request.log?.error(
-            { err },
-            "[Onboarding] Background email fetch failed"
-          );
-        }
-      })();
+      if (!result.success || !result.data) {
+        reply.code(result.statusCode ?? 500).send({ error: result.error });
+        return;
+      }
 
       reply.send({
         status: "questionnaire_started",
         message: "Background email analysis started",
+        jobId: result.data.id,
       });
     } catch (error: unknown) {
       console.error("Error starting questionnaire:", error);
@@ -112,7 +87,6 @@ export class OnboardingController {
         return;
       }
 
-      const { firebaseUid } = request.firebaseUser;
       const questionnaireData = request.body as QuestionnaireResponses;
 
       if (!questionnaireData || Object.keys(questionnaireData).length === 0) {
@@ -120,54 +94,21 @@ export class OnboardingController {
         return;
       }
 
-      // Save questionnaire and advance status
-      await prisma.user.update({
-        where: { firebaseUid },
-        data: {
-          questionnaireData: questionnaireData as unknown as object,
-          onboardingStatus: "QUESTIONNAIRE_COMPLETED" as OnboardingStatus,
-        },
-      });
+      // Save questionnaire and queue AI profile generation
+      const result = await this.onboardingService.submitQuestionnaire(
+        request.firebaseUser.firebaseUid,
+        questionnaireData as unknown as Record<string, unknown>
+      );
 
-      // Trigger AI profile generation in background
-      (async () => {
-        try {
-          // Set generating status
-          await prisma.user.update({
-            where: { firebaseUid },
-            data: {
-              onboardingStatus: "PROFILE_GENERATING" as OnboardingStatus,
-            },
-          });
-
-          // Generate profile using Vertex AI
-          const styleProfile = (await generateStyleProfile(
-            questionnaireData as unknown as Record<string, any>
-          )) as AIStyleProfile;
-
-          // Store profile and set ACTIVE
-          await prisma.user.update({
-            where: { firebaseUid },
-            data: {
-              aiStyleProfile: styleProfile as unknown as object,
-              onboardingStatus: "ACTIVE" as OnboardingStatus,
-            },
-          });
-        } catch (err) {
-          console.error("[Onboarding] Profile generation failed:", err);
-          // Reset to completed to allow retry
-          await prisma.user.update({
-            where: { firebaseUid },
-            data: {
-              onboardingStatus: "PROFILE_ERROR" as OnboardingStatus,
-            },
-          });
-        }
-      })();
+      if (!result.success || !result.data) {
+        reply.code(result.statusCode ?? 500).send({ error: result.error });
+        return;
+      }
 
       reply.send({
         status: "submitted",
         message: "AI style profile generation started",
+        jobId: result.data.id,
       });
     } catch (error: unknown) {
       console.error("Error generating profile:", error);
@@ -178,7 +119,7 @@ export class OnboardingController {
   }
 }
 
-// TypeScript types aligned with routes/onboarding schema
+// Shape of the onboarding questionnaire submission
 interface QuestionnaireResponses {
   userId: string;
   submissionTimestamp: string;
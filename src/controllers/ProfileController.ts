@@ -0,0 +1,136 @@
+/* eslint-disable import/no-unresolved */
+import { FastifyRequest, FastifyReply } from "fastify";
+
+import { UserService } from "../services/UserService";
+
+export class ProfileController {
+  constructor(private userService: UserService) {}
+
+  async getStyleProfile(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const result = await this.userService.getCurrentStyleProfile(
+        request.firebaseUser.firebaseUid
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error getting style profile:", error);
+      reply.code(500).send({
+        error: "Failed to get style profile",
+      });
+    }
+  }
+
+  async updateStyleProfile(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const result = await this.userService.updateStyleProfile(
+        request.firebaseUser.firebaseUid,
+        request.body
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error updating style profile:", error);
+      reply.code(500).send({
+        error: "Failed to update style profile",
+      });
+    }
+  }
+
+  async listStyleProfileVersions(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const result = await this.userService.listStyleProfileVersions(
+        request.firebaseUser.firebaseUid
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error listing style profile versions:", error);
+      reply.code(500).send({
+        error: "Failed to list style profile versions",
+      });
+    }
+  }
+
+  async rollbackStyleProfile(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      if (!request.firebaseUser) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id } = request.params as { id: string };
+
+      const result = await this.userService.rollbackStyleProfile(
+        request.firebaseUser.firebaseUid,
+        id
+      );
+
+      if (!result.success) {
+        reply.code(result.statusCode ?? 400).send({ error: result.error });
+        return;
+      }
+
+      reply.code(201).send({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: unknown) {
+      console.error("Error rolling back style profile:", error);
+      reply.code(500).send({
+        error: "Failed to roll back style profile",
+      });
+    }
+  }
+}
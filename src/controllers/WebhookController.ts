@@ -0,0 +1,66 @@
+/* eslint-disable import/no-unresolved */
+import { FastifyRequest, FastifyReply } from "fastify";
+
+import { GmailPushService } from "../services/GmailPushService";
+
+// Envelope Pub/Sub POSTs to push subscriptions
+interface PubSubPushBody {
+  message?: {
+    data?: string;
+    messageId?: string;
+    publishTime?: string;
+  };
+  subscription?: string;
+}
+
+export class WebhookController {
+  constructor(private gmailPushService: GmailPushService) {}
+
+  async handleGmailPush(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const { token } = request.query as { token?: string };
+      const authHeader = request.headers.authorization;
+      const bearerToken = authHeader?.startsWith("Bearer ")
+        ? authHeader.slice("Bearer ".length)
+        : undefined;
+
+      const verified = await this.gmailPushService.verifyPushRequest({
+        token,
+        bearerToken,
+      });
+      if (!verified) {
+        reply.code(401).send({ error: "Unauthorized" });
+        return;
+      }
+
+      const body = request.body as PubSubPushBody | undefined;
+      const notification = body?.message?.data
+        ? this.gmailPushService.decodeNotification(body.message.data)
+        : null;
+
+      if (!notification) {
+        reply.code(400).send({ error: "Invalid Gmail push payload" });
+        return;
+      }
+
+      const result =
+        await this.gmailPushService.handleNotification(notification);
+
+      if (!result.success) {
+        // A non-2xx response makes Pub/Sub redeliver the message later
+        reply.code(500).send({ error: result.error });
+        return;
+      }
+
+      reply.code(204).send();
+    } catch (error: unknown) {
+      console.error("Error handling Gmail push:", error);
+      reply.code(500).send({
+        error: "Failed to handle Gmail push",
+      });
+    }
+  }
+}
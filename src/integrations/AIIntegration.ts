@@ -0,0 +1,509 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import {
+  AIStyleProfile,
+  ComposeGenerationContext,
+  ComposedDraft,
+  DraftDirectness,
+  DraftLength,
+  EmailGenerationContext,
+  EmailThread,
+  StyleSample,
+  ThreadSummaryContent,
+} from "../types";
+import { ExternalServiceError } from "../utils/errors";
+import { truncateText } from "../utils/helpers";
+import {
+  STYLE_PROFILE_SCHEMA,
+  repairStyleProfile,
+  validateStyleProfile,
+  type StyleProfileRepair,
+} from "../utils/styleProfile";
+
+import type { LLMProviders, LLMSchema } from "./llm";
+
+const STYLE_PROFILE_PROMPT_PATH = path.join(
+  process.cwd(),
+  "prompts",
+  "style-profile-generation.md"
+);
+
+// Per-message cap so one pasted log cannot crowd out the rest of a thread
+const MAX_SUMMARY_MESSAGE_CHARS = 4000;
+
+// Validation errors quoted back to the model or into an error message
+const MAX_REPORTED_ERRORS = 20;
+
+const DRAFT_LENGTH_GUIDANCE: Record<DraftLength, string> = {
+  short: "2-4 sentences",
+  medium: "one or two short paragraphs",
+  long: "several paragraphs that address every point raised",
+};
+
+const DRAFT_DIRECTNESS_GUIDANCE: Record<DraftDirectness, string> = {
+  direct: "Lead with the answer or request, without hedging",
+  balanced: "Give brief context, then the answer or request",
+  softened: "Cushion requests and refusals with warmth and reasons",
+};
+
+const DRAFT_SCHEMA: LLMSchema = {
+  type: "object",
+  properties: {
+    drafts: { type: "array", items: { type: "string" } },
+  },
+  required: ["drafts"],
+};
+
+const COMPOSED_DRAFT_SCHEMA: LLMSchema = {
+  type: "object",
+  properties: {
+    subject: { type: "string" },
+    body: { type: "string" },
+  },
+  required: ["subject", "body"],
+};
+
+/**
+ * Prompts and output handling for every AI feature. The model behind each
+ * task comes from the configured LLM providers.
+ */
+export class AIIntegration {
+  private styleProfileTemplate: string | null = null;
+
+  constructor(private providers: LLMProviders) {}
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const text = await this.providers.draft.generateText(
+        "Say 'Hello' in one word.",
+        { temperature: 0.1, maxOutputTokens: 10 }
+      );
+      return !!text;
+    } catch (error) {
+      console.error(
+        `${this.providers.draft.name} connection test failed:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * The response is checked against STYLE_PROFILE_SCHEMA. An invalid one is
+   * sent back once with its errors; if the second answer is still invalid,
+   * its bad fields fall back to defaults, or generation fails when too
+   * little of it is usable.
+   */
+  async generateStyleProfile(
+    questionnaireData: Record<string, unknown>,
+    sentSamples: StyleSample[] = []
+  ): Promise<StyleProfileRepair> {
+    const provider = this.providers.styleProfile;
+    let response: unknown;
+    let errors: string[];
+    try {
+      const prompt = await this.createStyleProfilePrompt(
+        questionnaireData,
+        sentSamples
+      );
+
+      response = await this.requestStyleProfile(prompt);
+      errors = validateStyleProfile(response);
+      if (errors.length > 0) {
+        console.warn(
+          `[AI] Style profile failed validation, asking again: ${errors.join("; ")}`
+        );
+        response = await this.requestStyleProfile(
+          this.createStyleProfileCorrectionPrompt(prompt, response, errors)
+        );
+        errors = validateStyleProfile(response);
+      }
+    } catch (error) {
+      throw new ExternalServiceError(
+        provider.name,
+        `Failed to generate style profile: ${error}`
+      );
+    }
+
+    const repair = repairStyleProfile(response);
+    if (!repair) {
+      throw new ExternalServiceError(
+        provider.name,
+        `Style profile failed validation: ${errors.slice(0, MAX_REPORTED_ERRORS).join("; ")}`
+      );
+    }
+    if (repair.repairedFields.length > 0) {
+      console.warn(
+        `[AI] Style profile fields replaced with defaults: ${repair.repairedFields.join(", ")}`
+      );
+    }
+    return repair;
+  }
+
+  /**
+   * One or more alternative replies from a single request. Variants are
+   * asked to differ in approach, not just wording; empty ones are dropped.
+   */
+  async generateEmailDrafts(
+    styleProfile: AIStyleProfile,
+    context: EmailGenerationContext,
+    count: number = 1
+  ): Promise<string[]> {
+    const provider = this.providers.draft;
+    try {
+      const prompt = this.createEmailDraftPrompt(styleProfile, context, {
+        count,
+        json: true,
+      });
+
+      const { drafts } = await provider.generateJSON<{ drafts?: unknown[] }>(
+        prompt,
+        DRAFT_SCHEMA,
+        { temperature: 0.7, topP: 0.9, topK: 40, maxOutputTokens: 1024 * count }
+      );
+
+      return (drafts ?? [])
+        .filter(
+          (draft): draft is string =>
+            typeof draft === "string" && draft.trim() !== ""
+        )
+        .slice(0, count);
+    } catch (error) {
+      throw new ExternalServiceError(
+        provider.name,
+        `Failed to generate email draft: ${error}`
+      );
+    }
+  }
+
+  /** Stream a single reply as text chunks until done or `signal` aborts. */
+  async *streamEmailDraft(
+    styleProfile: AIStyleProfile,
+    context: EmailGenerationContext,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const provider = this.providers.draft;
+    try {
+      const prompt = this.createEmailDraftPrompt(styleProfile, context, {
+        count: 1,
+        json: false,
+      });
+
+      yield* provider.stream(prompt, {
+        temperature: 0.7,
+        topP: 0.9,
+        topK: 40,
+        maxOutputTokens: 1024,
+        signal,
+      });
+    } catch (error) {
+      throw new ExternalServiceError(
+        provider.name,
+        `Failed to generate email draft: ${error}`
+      );
+    }
+  }
+
+  async generateComposeDraft(
+    styleProfile: AIStyleProfile,
+    context: ComposeGenerationContext
+  ): Promise<ComposedDraft> {
+    const provider = this.providers.draft;
+    try {
+      const prompt = this.createComposeDraftPrompt(styleProfile, context);
+
+      const draft = await provider.generateJSON<Partial<ComposedDraft>>(
+        prompt,
+        COMPOSED_DRAFT_SCHEMA,
+        { temperature: 0.7, topP: 0.9, topK: 40, maxOutputTokens: 1024 }
+      );
+
+      return {
+        // A subject the user already typed wins over the generated one
+        subject: context.subject || draft.subject || "",
+        body: draft.body || "",
+      };
+    } catch (error) {
+      throw new ExternalServiceError(
+        provider.name,
+        `Failed to generate email draft: ${error}`
+      );
+    }
+  }
+
+  async summarizeThread(thread: EmailThread): Promise<ThreadSummaryContent> {
+    const provider = this.providers.summary;
+    try {
+      const summary = await provider.generateJSON<
+        Partial<ThreadSummaryContent>
+      >(this.createThreadSummaryPrompt(thread), this.getThreadSummarySchema(), {
+        temperature: 0.2,
+        topP: 0.8,
+        topK: 40,
+        maxOutputTokens: 1024,
+      });
+
+      return {
+        tldr: summary.tldr || "",
+        decisions: summary.decisions ?? [],
+        openQuestions: summary.openQuestions ?? [],
+        actionItems: summary.actionItems ?? [],
+        deadlines: summary.deadlines ?? [],
+      };
+    } catch (error) {
+      throw new ExternalServiceError(
+        provider.name,
+        `Failed to summarize thread: ${error}`
+      );
+    }
+  }
+
+  private async createStyleProfilePrompt(
+    questionnaireData: Record<string, unknown>,
+    sentSamples: StyleSample[]
+  ): Promise<string> {
+    if (!this.styleProfileTemplate) {
+      this.styleProfileTemplate = await fs.readFile(
+        STYLE_PROFILE_PROMPT_PATH,
+        "utf-8"
+      );
+    }
+
+    const samplesText = sentSamples.length
+      ? sentSamples
+          .map(
+            (sample, index) =>
+              `=== SAMPLE ${index + 1} ===\nSubject: ${sample.subject}\n\n${sample.body}`
+          )
+          .join("\n\n")
+      : "(No sent email samples available; rely on the questionnaire.)";
+
+    // Function replacers so "$" sequences in user text are not interpreted
+    return this.styleProfileTemplate
+      .replace("{{USER_RESPONSES_JSON}}", () =>
+        JSON.stringify(questionnaireData, null, 2)
+      )
+      .replace("{{SENT_EMAIL_SAMPLES}}", () => samplesText)
+      .trim();
+  }
+
+  // Malformed JSON counts as an invalid response rather than a failure
+  private async requestStyleProfile(prompt: string): Promise<unknown> {
+    try {
+      return await this.providers.styleProfile.generateJSON<unknown>(
+        prompt,
+        STYLE_PROFILE_SCHEMA,
+        { temperature: 0.3, topP: 0.8, topK: 40, maxOutputTokens: 2048 }
+      );
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private createStyleProfileCorrectionPrompt(
+    prompt: string,
+    previous: unknown,
+    errors: string[]
+  ): string {
+    const previousText =
+      previous === undefined
+        ? "Your previous response was not valid JSON."
+        : `Your previous response was:\n${JSON.stringify(previous, null, 2)}`;
+    const errorList = errors
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map((error) => `- ${error}`)
+      .join("\n");
+
+    return `
+${prompt}
+
+${previousText}
+
+It did not match the required schema:
+${errorList}
+
+Return the complete corrected JSON object, keeping every field that was already valid.
+    `.trim();
+  }
+
+  private createEmailDraftPrompt(
+    styleProfile: AIStyleProfile,
+    context: EmailGenerationContext,
+    output: { count: number; json: boolean }
+  ): string {
+    const { count } = output;
+    const controls = [
+      context.tone && `- Tone: ${context.tone}`,
+      context.length && `- Length: ${DRAFT_LENGTH_GUIDANCE[context.length]}`,
+      context.directness &&
+        `- Directness: ${DRAFT_DIRECTNESS_GUIDANCE[context.directness]}`,
+      context.includeGreeting === false &&
+        "- Start with the content itself; no greeting line",
+    ].filter(Boolean);
+    const adjustments = controls.length
+      ? `**REQUESTED ADJUSTMENTS (override the profile where they conflict):**\n${controls.join("\n")}\n`
+      : "";
+    const revision = context.previousDraft
+      ? `**PREVIOUS DRAFT:**\n${context.previousDraft}\n\n**REVISION REQUEST:**\n${context.instruction || "Write a different version"}\n`
+      : "";
+    let format =
+      "Return only the email text, without a subject line or commentary";
+    if (output.json) {
+      format =
+        count === 1
+          ? 'Return JSON with a "drafts" array holding the one draft'
+          : `Return JSON with a "drafts" array of exactly ${count} drafts that each take a different approach`;
+    }
+
+    return `
+You are an AI email assistant that writes emails in the exact style of a specific user.
+
+**USER'S WRITING STYLE PROFILE:**
+${JSON.stringify(styleProfile, null, 2)}
+
+**EMAIL CONTEXT:**
+Original Email: ${context.originalEmail}
+${
+  context.threadHistory
+    ? `Thread History: ${context.threadHistory.join("\n---\n")}`
+    : ""
+}
+${
+  context.attachments?.length
+    ? `Attachments:\n${context.attachments
+        .map((attachment) => `[${attachment.filename}]\n${attachment.text}`)
+        .join("\n---\n")}`
+    : ""
+}
+${
+  context.recipient
+    ? `Recipient: ${context.recipient.name} (${context.recipient.email}) - ${context.recipient.relationship}`
+    : ""
+}
+
+${adjustments}
+${revision}
+**INSTRUCTIONS:**
+- ${context.previousDraft ? "Rewrite the previous draft as the revision request asks" : "Write a reply to the original email"}
+- Match the user's writing style EXACTLY as described in the profile
+- Use their preferred greetings, closings, tone, and structural patterns
+- Maintain their typical sentence complexity and vocabulary level
+- Adapt formality based on recipient relationship if specified
+- Preserve proper email threading and context
+- Refer to attachment contents only where the reply needs them
+- ${format}
+
+Generate the email ${count === 1 ? "draft" : "drafts"} now:
+    `.trim();
+  }
+
+  private createComposeDraftPrompt(
+    styleProfile: AIStyleProfile,
+    context: ComposeGenerationContext
+  ): string {
+    return `
+You are an AI email assistant that writes emails in the exact style of a specific user.
+
+**USER'S WRITING STYLE PROFILE:**
+${JSON.stringify(styleProfile, null, 2)}
+
+**WHAT THE USER WANTS TO SAY:**
+${context.brief}
+${context.to?.length ? `Recipients: ${context.to.join(", ")}` : ""}
+${context.subject ? `Subject: ${context.subject}` : ""}
+${context.tone ? `Requested Tone: ${context.tone}` : ""}
+
+**INSTRUCTIONS:**
+- Write a new email, not a reply, that says what the user asked for
+- Match the user's writing style EXACTLY as described in the profile
+- Use their preferred greetings, closings, tone, and structural patterns
+- Do not invent facts, dates or commitments beyond the request
+- Return JSON with a short "subject" and the email "body"
+
+Generate the email now:
+    `.trim();
+  }
+
+  private createThreadSummaryPrompt(thread: EmailThread): string {
+    const transcript = thread.messages
+      .map(
+        (message, index) =>
+          `=== MESSAGE ${index + 1} ===\nFrom: ${message.from}\nTo: ${message.to}\nDate: ${new Date(message.timestamp).toISOString()}\n\n${truncateText(message.body, MAX_SUMMARY_MESSAGE_CHARS)}`
+      )
+      .join("\n\n");
+
+    return `
+You are an assistant that helps a busy person catch up on a long email thread.
+
+**SUBJECT:** ${thread.subject}
+
+**MESSAGES (oldest first):**
+${transcript}
+
+**INSTRUCTIONS:**
+- "tldr": two or three sentences on where the thread stands now
+- "decisions": what has been agreed, one item each
+- "openQuestions": questions still waiting for an answer
+- "actionItems": tasks someone committed to or was asked to do, with the
+  person responsible as "owner" and a "dueDate" when one is given
+- "deadlines": every date something is due, with an ISO 8601 "date" when the
+  thread makes the day unambiguous (resolve relative dates against the
+  message date), otherwise the date as written
+- Use only what the messages say; leave a list empty rather than guess
+- Later messages override earlier ones when they conflict
+
+Summarize the thread now:
+    `.trim();
+  }
+
+  private getThreadSummarySchema(): LLMSchema {
+    return {
+      type: "object",
+      properties: {
+        tldr: { type: "string" },
+        decisions: {
+          type: "array",
+          items: { type: "string" },
+        },
+        openQuestions: {
+          type: "array",
+          items: { type: "string" },
+        },
+        actionItems: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              task: { type: "string" },
+              owner: { type: "string" },
+              dueDate: { type: "string" },
+            },
+            required: ["task"],
+          },
+        },
+        deadlines: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              description: { type: "string" },
+              date: { type: "string" },
+            },
+            required: ["description", "date"],
+          },
+        },
+      },
+      required: [
+        "tldr",
+        "decisions",
+        "openQuestions",
+        "actionItems",
+        "deadlines",
+      ],
+    };
+  }
+}
@@ -0,0 +1,125 @@
+/* eslint-disable import/no-unresolved */
+import { google } from "googleapis";
+
+import config from "../config/index";
+import { AuthTokens, GmailCredentials } from "../types/index.js";
+
+const DEFAULT_POOL_SIZE = 200;
+
+// The client class googleapis builds and accepts as `auth`. It can differ
+// from a direct google-auth-library import when the two resolve to
+// different copies of that package.
+export type OAuth2Client = InstanceType<typeof google.auth.OAuth2>;
+
+export type TokenRefreshListener = (
+  firebaseUid: string,
+  tokens: AuthTokens
+) => void;
+
+/**
+ * Small LRU of authenticated OAuth clients, one per user. A client only ever
+ * holds its own user's credentials, so concurrent calls for different users
+ * cannot pick up each other's tokens.
+ */
+export class GmailClientPool {
+  private clients = new Map<string, OAuth2Client>();
+  private refreshListener?: TokenRefreshListener;
+
+  constructor(private maxSize: number = DEFAULT_POOL_SIZE) {}
+
+  /**
+   * The user's client with the given credentials applied. A token the
+   * client refreshed itself is kept over an older stored copy.
+   */
+  acquire(credentials: GmailCredentials): OAuth2Client {
+    const { firebaseUid } = credentials;
+    let client = this.clients.get(firebaseUid);
+
+    if (client) {
+      // Re-insert to mark as most recently used
+      this.clients.delete(firebaseUid);
+    } else {
+      client = this.createClient(firebaseUid);
+    }
+    this.clients.set(firebaseUid, client);
+    this.evictOverflow();
+
+    if (this.isNewer(credentials, client)) {
+      client.setCredentials({
+        access_token: credentials.accessToken,
+        refresh_token:
+          credentials.refreshToken ?? client.credentials.refresh_token,
+        expiry_date: credentials.expiresAt?.getTime(),
+      });
+    } else if (!client.credentials.refresh_token && credentials.refreshToken) {
+      client.setCredentials({
+        ...client.credentials,
+        refresh_token: credentials.refreshToken,
+      });
+    }
+
+    return client;
+  }
+
+  // Drop a user's client, e.g. after logout or a revoked grant
+  release(firebaseUid: string): void {
+    const client = this.clients.get(firebaseUid);
+    if (client) {
+      client.removeAllListeners("tokens");
+      this.clients.delete(firebaseUid);
+    }
+  }
+
+  onTokensRefreshed(listener: TokenRefreshListener): void {
+    this.refreshListener = listener;
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  private createClient(firebaseUid: string): OAuth2Client {
+    const client = new google.auth.OAuth2(
+      config.googleClientId,
+      config.googleClientSecret,
+      config.googleRedirectUri
+    );
+
+    // google-auth-library refreshes on its own when a call hits an expired
+    // token; pass those along so they get persisted
+    client.on("tokens", (tokens) => {
+      if (!tokens.access_token || !this.refreshListener) return;
+      this.refreshListener(firebaseUid, {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token || undefined,
+        expiresAt: tokens.expiry_date
+          ? new Date(tokens.expiry_date)
+          : undefined,
+      });
+    });
+
+    return client;
+  }
+
+  private isNewer(credentials: GmailCredentials, client: OAuth2Client) {
+    const current = client.credentials;
+    if (
+      !credentials.accessToken ||
+      credentials.accessToken === current.access_token
+    ) {
+      return false;
+    }
+    if (!credentials.expiresAt || !current.expiry_date) {
+      return true;
+    }
+    return credentials.expiresAt.getTime() >= current.expiry_date;
+  }
+
+  private evictOverflow() {
+    while (this.clients.size > this.maxSize) {
+      const oldest = this.clients.keys().next().value;
+      if (oldest === undefined) return;
+      this.release(oldest);
+    }
+  }
+}
@@ -1,22 +1,72 @@
-import { OAuth2Client } from "google-auth-library";
 import { google, gmail_v1 } from "googleapis";
 
 // eslint-disable-next-line import/no-unresolved
 import config from "../config/index";
+import {
+  AttachmentContent,
+  AuthTokens,
+  GmailCredentials,
+  GmailAttachment,
+  GmailHistoryChanges,
+  GmailLabel,
+  GmailMessage,
+  ThreadLabelChange,
+  // eslint-disable-next-line import/no-unresolved
+} from "../types/index.js";
+import {
+  ExternalServiceError,
+  GmailReconnectRequiredError,
+  SyncCursorExpiredError,
+  // eslint-disable-next-line import/no-unresolved
+} from "../utils/errors.js";
 // eslint-disable-next-line import/no-unresolved
-import { AuthTokens, GmailMessage } from "../types/index.js";
+import { parseMailContent } from "../utils/mailParser.js";
 // eslint-disable-next-line import/no-unresolved
-import { ExternalServiceError } from "../utils/errors.js";
+import { encodeMimeMessage } from "../utils/mime.js";
+
+import {
+  GmailClientPool,
+  OAuth2Client,
+  TokenRefreshListener,
+} from "./GmailClientPool";
+
+// The most message IDs Gmail returns per messages.list page
+const MESSAGE_LIST_PAGE_SIZE = 500;
 
 export class GmailIntegration {
+  // Credential-less client for the consent flow only; user calls go through
+  // the per-user pool
   private oauth2Client: OAuth2Client;
+  private clientPool: GmailClientPool;
+  private grantRevokedListener?: (firebaseUid: string) => void;
 
-  constructor() {
+  constructor(clientPool: GmailClientPool = new GmailClientPool()) {
     this.oauth2Client = new google.auth.OAuth2(
       config.googleClientId,
       config.googleClientSecret,
       config.googleRedirectUri
     );
+    this.clientPool = clientPool;
+  }
+
+  /**
+   * Called with tokens google-auth-library refreshed in the middle of a
+   * Gmail call, so they can be persisted.
+   */
+  onTokensRefreshed(listener: TokenRefreshListener): void {
+    this.clientPool.onTokensRefreshed(listener);
+  }
+
+  /**
+   * Called when a Gmail call fails because google-auth-library's automatic
+   * refresh was answered with invalid_grant, so the account can be flagged.
+   */
+  onGrantRevoked(listener: (firebaseUid: string) => void): void {
+    this.grantRevokedListener = listener;
+  }
+
+  releaseClient(firebaseUid: string): void {
+    this.clientPool.release(firebaseUid);
   }
 
   getAuthUrl(): string {
@@ -39,6 +89,9 @@ export class GmailIntegration {
       return {
         accessToken: tokens.access_token || undefined,
         refreshToken: tokens.refresh_token || undefined,
+        expiresAt: tokens.expiry_date
+          ? new Date(tokens.expiry_date)
+          : undefined,
       };
     } catch (error) {
       throw new ExternalServiceError(
@@ -48,38 +101,68 @@ export class GmailIntegration {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token. Google may rotate the
+   * refresh token too; callers should persist whatever comes back.
+   */
+  async refreshAccessToken(refreshToken: string): Promise<AuthTokens> {
+    const client = new google.auth.OAuth2(
+      config.googleClientId,
+      config.googleClientSecret,
+      config.googleRedirectUri
+    );
+    client.setCredentials({ refresh_token: refreshToken });
+
+    try {
+      const { token } = await client.getAccessToken();
+      if (!token) {
+        throw new Error("No access token returned");
+      }
+
+      const { credentials } = client;
+      return {
+        accessToken: token,
+        refreshToken: credentials.refresh_token || refreshToken,
+        expiresAt: credentials.expiry_date
+          ? new Date(credentials.expiry_date)
+          : undefined,
+      };
+    } catch (error) {
+      if (this.isInvalidGrant(error)) {
+        throw new GmailReconnectRequiredError();
+      }
+      throw new ExternalServiceError(
+        "Gmail OAuth",
+        `Failed to refresh access token: ${(error as Error)?.message || String(error)}`
+      );
+    }
+  }
+
   async validateTokens(
-    tokens: AuthTokens
+    tokens: GmailCredentials
   ): Promise<{ valid: boolean; refreshedTokens?: AuthTokens }> {
     try {
       // Accept either access token or refresh token; refresh if needed
-      this.oauth2Client.setCredentials({
-        access_token: tokens.accessToken,
-        refresh_token: tokens.refreshToken,
-      });
+      const client = this.clientPool.acquire(tokens);
 
       let refreshedTokens: AuthTokens | undefined;
 
       // If we only have a refresh token, attempt to get a fresh access token
       if (!tokens.accessToken && tokens.refreshToken) {
-        const at = await this.oauth2Client.getAccessToken();
+        const at = await client.getAccessToken();
         if (!at || !at.token) {
           return { valid: false };
         }
-        this.oauth2Client.setCredentials({
-          access_token: at.token,
-          refresh_token: tokens.refreshToken,
-        });
         refreshedTokens = {
           accessToken: at.token,
           refreshToken: tokens.refreshToken,
         };
       }
 
-      const gmail = google.gmail({ version: "v1", auth: this.oauth2Client });
+      const gmail = google.gmail({ version: "v1", auth: client });
       await gmail.users.getProfile({ userId: "me" });
 
-      const latest = this.getRefreshedTokens();
+      const latest = this.getRefreshedTokens(client);
       if (latest?.accessToken && latest.accessToken !== tokens.accessToken) {
         refreshedTokens = {
           accessToken: latest.accessToken,
@@ -93,68 +176,247 @@ export class GmailIntegration {
       if (code === 401 || code === 403) {
         return { valid: false };
       }
-      throw new ExternalServiceError(
-        "Gmail",
+      throw this.toGmailError(
+        tokens,
+        error,
         `Token validation failed: ${(error as Error)?.message || String(error)}`
       );
     }
   }
 
-  async getMessages(
-    tokens: AuthTokens,
-    maxResults: number = 25
-  ): Promise<GmailMessage[]> {
+  /**
+   * IDs of the messages matching a Gmail search query, newest first. Pages
+   * through the listing until `limit` IDs are collected or it runs out.
+   */
+  async listMessageIds(
+    tokens: GmailCredentials,
+    query: string,
+    limit: number
+  ): Promise<string[]> {
     try {
-      this.oauth2Client.setCredentials({
-        access_token: tokens.accessToken,
-        refresh_token: tokens.refreshToken,
-      });
+      const gmail = this.getGmail(tokens);
+      const ids: string[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await gmail.users.messages.list({
+          userId: "me",
+          q: query,
+          maxResults: Math.min(MESSAGE_LIST_PAGE_SIZE, limit - ids.length),
+          pageToken,
+        });
+
+        for (const message of response.data.messages || []) {
+          if (message.id) ids.push(message.id);
+        }
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken && ids.length < limit);
+
+      return ids.slice(0, limit);
+    } catch (error) {
+      throw this.toGmailError(
+        tokens,
+        error,
+        `Failed to list messages: ${error}`
+      );
+    }
+  }
 
-      const gmail = google.gmail({ version: "v1", auth: this.oauth2Client });
+  async getProfile(
+    tokens: GmailCredentials
+  ): Promise<{ emailAddress: string; historyId: string }> {
+    try {
+      const gmail = this.getGmail(tokens);
+      const response = await gmail.users.getProfile({ userId: "me" });
 
-      const response = await gmail.users.messages.list({
+      return {
+        emailAddress: response.data.emailAddress || "",
+        historyId: response.data.historyId || "",
+      };
+    } catch (error) {
+      throw this.toGmailError(
+        tokens,
+        error,
+        `Failed to fetch profile: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Ask Gmail to publish mailbox changes to a Pub/Sub topic. Registrations
+   * lapse after seven days and must be renewed by calling this again.
+   */
+  async watchMailbox(
+    tokens: GmailCredentials,
+    topicName: string
+  ): Promise<{ historyId: string; expiration: Date }> {
+    try {
+      const gmail = this.getGmail(tokens);
+      const response = await gmail.users.watch({
         userId: "me",
-        maxResults,
-        q: "in:inbox",
+        requestBody: { topicName },
+      });
+
+      return {
+        historyId: response.data.historyId || "",
+        expiration: new Date(Number(response.data.expiration)),
+      };
+    } catch (error) {
+      throw this.toGmailError(
+        tokens,
+        error,
+        `Failed to register mailbox watch: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Verify the OIDC token Pub/Sub attaches to authenticated push requests.
+   * Returns the service account email the token was issued to, or null.
+   */
+  async verifyPushToken(
+    idToken: string,
+    audience: string
+  ): Promise<string | null> {
+    try {
+      const ticket = await new google.auth.OAuth2().verifyIdToken({
+        idToken,
+        audience,
       });
+      const payload = ticket.getPayload();
+      if (!payload?.email || !payload.email_verified) {
+        return null;
+      }
+      return payload.email;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Collect message additions, deletions and label changes recorded since
+   * startHistoryId. Throws SyncCursorExpiredError when Gmail no longer has
+   * history that far back, so callers can fall back to a full sync.
+   */
+  async listHistory(
+    tokens: GmailCredentials,
+    startHistoryId: string
+  ): Promise<GmailHistoryChanges> {
+    try {
+      const gmail = this.getGmail(tokens);
+
+      const added = new Set<string>();
+      const deleted = new Set<string>();
+      const labelChanges = new Map<string, string[]>();
+      let historyId = startHistoryId;
+      let pageToken: string | undefined;
+
+      do {
+        const response = await gmail.users.history.list({
+          userId: "me",
+          startHistoryId,
+          pageToken,
+          historyTypes: [
+            "messageAdded",
+            "messageDeleted",
+            "labelAdded",
+            "labelRemoved",
+          ],
+        });
+
+        for (const record of response.data.history || []) {
+          for (const { message } of record.messagesAdded || []) {
+            if (!message?.id) continue;
+            added.add(message.id);
+            deleted.delete(message.id);
+          }
+          for (const { message } of record.messagesDeleted || []) {
+            if (!message?.id) continue;
+            deleted.add(message.id);
+            added.delete(message.id);
+            labelChanges.delete(message.id);
+          }
+          for (const { message } of [
+            ...(record.labelsAdded || []),
+            ...(record.labelsRemoved || []),
+          ]) {
+            if (!message?.id || deleted.has(message.id)) continue;
+            labelChanges.set(message.id, message.labelIds || []);
+          }
+        }
+
+        if (response.data.historyId) {
+          historyId = response.data.historyId;
+        }
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
 
-      const messages = response.data.messages || [];
-      const detailedMessages: GmailMessage[] = [];
+      return {
+        historyId,
+        addedMessageIds: Array.from(added),
+        deletedMessageIds: Array.from(deleted),
+        labelChanges: Array.from(labelChanges, ([messageId, labelIds]) => ({
+          messageId,
+          labelIds,
+        })),
+      };
+    } catch (error) {
+      if ((error as { code?: number })?.code === 404) {
+        throw new SyncCursorExpiredError(
+          `Gmail history ${startHistoryId} is no longer available`
+        );
+      }
+      throw this.toGmailError(
+        tokens,
+        error,
+        `Failed to list history: ${error}`
+      );
+    }
+  }
 
-      for (const message of messages) {
-        if (message.id) {
+  async getMessagesByIds(
+    tokens: GmailCredentials,
+    messageIds: string[]
+  ): Promise<GmailMessage[]> {
+    try {
+      const gmail = this.getGmail(tokens);
+      const messages: GmailMessage[] = [];
+
+      for (const id of messageIds) {
+        try {
           const details = await gmail.users.messages.get({
             userId: "me",
-            id: message.id,
+            id,
+            format: "full",
           });
 
           const gmailMessage = this.parseGmailMessage(details.data);
           if (gmailMessage) {
-            detailedMessages.push(gmailMessage);
+            messages.push(gmailMessage);
           }
+        } catch (error) {
+          // Messages can be deleted between the history entry and this fetch
+          if ((error as { code?: number })?.code === 404) continue;
+          throw error;
         }
       }
 
-      return detailedMessages;
+      return messages;
     } catch (error) {
-      throw new ExternalServiceError(
-        "Gmail",
+      throw this.toGmailError(
+        tokens,
+        error,
         `Failed to fetch messages: ${error}`
       );
     }
   }
 
   async getThreadMessages(
-    tokens: AuthTokens,
+    tokens: GmailCredentials,
     gmailThreadId: string
   ): Promise<GmailMessage[]> {
     try {
-      this.oauth2Client.setCredentials({
-        access_token: tokens.accessToken,
-        refresh_token: tokens.refreshToken,
-      });
-
-      const gmail = google.gmail({ version: "v1", auth: this.oauth2Client });
+      const gmail = this.getGmail(tokens);
       const response = await gmail.users.threads.get({
         userId: "me",
         id: gmailThreadId,
@@ -173,101 +435,165 @@ export class GmailIntegration {
 
       return parsed;
     } catch (error) {
-      throw new ExternalServiceError(
-        "Gmail",
+      throw this.toGmailError(
+        tokens,
+        error,
         `Failed to fetch thread ${gmailThreadId}: ${error}`
       );
     }
   }
 
-  async sendEmail(
-    tokens: AuthTokens,
-    to: string,
-    subject: string,
-    body: string
-  ): Promise<string> {
+  /**
+   * Add and remove labels on every message of a thread. Returns each
+   * message's labels as Gmail now reports them.
+   */
+  async modifyThread(
+    tokens: GmailCredentials,
+    gmailThreadId: string,
+    change: ThreadLabelChange
+  ): Promise<Array<{ messageId: string; labelIds: string[] }>> {
     try {
-      this.oauth2Client.setCredentials({
-        access_token: tokens.accessToken,
-        refresh_token: tokens.refreshToken,
+      const gmail = this.getGmail(tokens);
+      const response = await gmail.users.threads.modify({
+        userId: "me",
+        id: gmailThreadId,
+        requestBody: {
+          addLabelIds: change.addLabelIds ?? [],
+          removeLabelIds: change.removeLabelIds ?? [],
+        },
       });
 
-      const gmail = google.gmail({ version: "v1", auth: this.oauth2Client });
+      return (response.data.messages || [])
+        .filter((message) => Boolean(message.id))
+        .map((message) => ({
+          messageId: message.id as string,
+          labelIds: message.labelIds || [],
+        }));
+    } catch (error) {
+      throw this.toGmailError(
+        tokens,
+        error,
+        `Failed to modify thread ${gmailThreadId}: ${error}`
+      );
+    }
+  }
+
+  async listLabels(tokens: GmailCredentials): Promise<GmailLabel[]> {
+    try {
+      const gmail = this.getGmail(tokens);
+      const response = await gmail.users.labels.list({ userId: "me" });
+
+      return (response.data.labels || [])
+        .filter((label) => label.id && label.name)
+        .map((label) => ({
+          id: label.id as string,
+          name: label.name as string,
+          type: label.type === "system" ? "SYSTEM" : "USER",
+          color: label.color?.backgroundColor || undefined,
+        }));
+    } catch (error) {
+      throw this.toGmailError(tokens, error, `Failed to list labels: ${error}`);
+    }
+  }
+
+  /**
+   * Raw bytes of one attachment. Parts Gmail inlined in the message have no
+   * attachmentId, so they are read from the message payload instead.
+   */
+  async getAttachmentContent(
+    tokens: GmailCredentials,
+    gmailMessageId: string,
+    attachment: { partId: string; attachmentId?: string }
+  ): Promise<Buffer> {
+    try {
+      const gmail = this.getGmail(tokens);
+
+      if (attachment.attachmentId) {
+        const response = await gmail.users.messages.attachments.get({
+          userId: "me",
+          messageId: gmailMessageId,
+          id: attachment.attachmentId,
+        });
+        return Buffer.from(response.data.data || "", "base64url");
+      }
+
+      const message = await gmail.users.messages.get({
+        userId: "me",
+        id: gmailMessageId,
+        format: "full",
+      });
+      const part = this.findPart(message.data.payload, attachment.partId);
+      if (!part?.body?.data) {
+        throw new Error(`Part ${attachment.partId} has no content`);
+      }
+      return Buffer.from(part.body.data, "base64url");
+    } catch (error) {
+      throw this.toGmailError(
+        tokens,
+        error,
+        `Failed to fetch attachment: ${error}`
+      );
+    }
+  }
 
-      const email = [`To: ${to}`, `Subject: ${subject}`, "", body].join("\n");
+  /**
+   * Send a message that starts a new thread. Returns Gmail's ids so the
+   * caller can mirror the sent message locally.
+   */
+  async sendEmail(
+    tokens: GmailCredentials,
+    options: {
+      to: string[];
+      subject: string;
+      body: string;
+      cc?: string[];
+      bcc?: string[];
+    }
+  ): Promise<{ id: string; threadId: string }> {
+    // Built outside the try so invalid input surfaces as a ValidationError
+    const raw = encodeMimeMessage({ ...options, html: options.body });
 
-      const encodedEmail = Buffer.from(email).toString("base64url");
+    try {
+      const gmail = this.getGmail(tokens);
 
       const result = await gmail.users.messages.send({
         userId: "me",
-        requestBody: {
-          raw: encodedEmail,
-        },
+        requestBody: { raw },
       });
 
-      return result.data.id || "";
+      return { id: result.data.id || "", threadId: result.data.threadId || "" };
     } catch (error) {
-      throw new ExternalServiceError("Gmail", `Failed to send email: ${error}`);
+      throw this.toGmailError(tokens, error, `Failed to send email: ${error}`);
     }
   }
 
   async sendReply(
-    tokens: AuthTokens,
+    tokens: GmailCredentials,
     options: {
       threadId: string;
-      to: string;
+      to: string[];
       subject: string;
       body: string;
       inReplyTo?: string;
       references?: string[];
       cc?: string[];
       bcc?: string[];
+      attachments?: AttachmentContent[];
     }
   ): Promise<string> {
-    try {
-      this.oauth2Client.setCredentials({
-        access_token: tokens.accessToken,
-        refresh_token: tokens.refreshToken,
-      });
-
-      const gmail = google.gmail({ version: "v1", auth: this.oauth2Client });
-
-      const headers: string[] = [
-        `To: ${options.to}`,
-        `Subject: ${options.subject}`,
-      ];
-
-      if (options.cc?.length) {
-        headers.push(`Cc: ${options.cc.join(", ")}`);
-      }
-      if (options.bcc?.length) {
-        headers.push(`Bcc: ${options.bcc.join(", ")}`);
-      }
-      if (options.inReplyTo) {
-        headers.push(`In-Reply-To: ${options.inReplyTo}`);
-      }
-      if (options.references?.length) {
-        headers.push(`References: ${options.references.join(" ")}`);
-      }
-
-      headers.push('Content-Type: text/html; charset="UTF-8"');
-      headers.push("", options.body);
+    const raw = encodeMimeMessage({ ...options, html: options.body });
 
-      const encodedEmail = Buffer.from(headers.join("\n")).toString(
-        "base64url"
-      );
+    try {
+      const gmail = this.getGmail(tokens);
 
       const result = await gmail.users.messages.send({
         userId: "me",
-        requestBody: {
-          raw: encodedEmail,
-          threadId: options.threadId,
-        },
+        requestBody: { raw, threadId: options.threadId },
       });
 
       return result.data.id || "";
     } catch (error) {
-      throw new ExternalServiceError("Gmail", `Failed to send reply: ${error}`);
+      throw this.toGmailError(tokens, error, `Failed to send reply: ${error}`);
     }
   }
 
@@ -281,7 +607,8 @@ export class GmailIntegration {
           (h: gmail_v1.Schema$MessagePartHeader) =>
             (h.name ?? "").toLowerCase() === name.toLowerCase()
         )?.value || "";
-      const { html, text } = this.extractBodies(data.payload);
+      const content = parseMailContent(data.payload);
+      const attachments = this.extractAttachments(data.payload);
 
       return {
         id: data.id || "",
@@ -289,14 +616,20 @@ export class GmailIntegration {
         subject: getHeader("Subject"),
         from: getHeader("From"),
         to: getHeader("To"),
+        cc: getHeader("Cc") || undefined,
         date: getHeader("Date"),
         snippet: data.snippet || "",
-        body: text || html || data.snippet || "",
-        htmlBody: html,
+        body: content.text || data.snippet || "",
+        quotedText:
+          [content.signature, content.quoted].filter(Boolean).join("\n\n") ||
+          undefined,
+        htmlBody: content.html,
         isUnread: data.labelIds?.includes("UNREAD") || false,
         messageIdHeader: getHeader("Message-ID") || undefined,
         references:
           getHeader("References") || getHeader("In-Reply-To") || undefined,
+        labelIds: data.labelIds || [],
+        attachments,
       };
     } catch (error) {
       console.error("Error parsing Gmail message:", error);
@@ -304,46 +637,48 @@ export class GmailIntegration {
     }
   }
 
-  private extractBodies(payload?: gmail_v1.Schema$MessagePart | null): {
-    html?: string;
-    text?: string;
-  } {
-    let html: string | undefined = undefined;
-    let text: string | undefined = undefined;
-
-    const decode = (b64: string) =>
-      Buffer.from(b64, "base64").toString("utf-8");
-
-    if (payload?.body?.data) {
-      // Single-part message
-      const mime = payload.mimeType || "text/plain";
-      if (mime.includes("html")) html = decode(payload.body.data);
-      else text = decode(payload.body.data);
-      return { html, text };
-    }
+  /**
+   * Parts carrying a filename or stored out of line. Inline images are kept
+   * too, flagged, so HTML bodies can resolve their cid: references.
+   */
+  private extractAttachments(
+    payload?: gmail_v1.Schema$MessagePart | null
+  ): GmailAttachment[] {
+    const attachments: GmailAttachment[] = [];
 
     const visit = (part?: gmail_v1.Schema$MessagePart | null) => {
       if (!part) return;
-      if (part.mimeType?.includes("text/html") && part.body?.data && !html) {
-        html = decode(part.body.data);
-      }
-      if (part.mimeType?.includes("text/plain") && part.body?.data && !text) {
-        text = decode(part.body.data);
-      }
-      if (part.parts) {
-        for (const p of part.parts) visit(p);
+
+      if (part.filename || part.body?.attachmentId) {
+        const header = (name: string) =>
+          part.headers?.find(
+            (h) => (h.name ?? "").toLowerCase() === name.toLowerCase()
+          )?.value || "";
+        const contentId = header("Content-ID").replace(/^<|>$/g, "");
+        const disposition = header("Content-Disposition").toLowerCase();
+
+        attachments.push({
+          partId: part.partId ?? "",
+          attachmentId: part.body?.attachmentId || undefined,
+          filename: part.filename || "attachment",
+          mimeType: part.mimeType || "application/octet-stream",
+          size: part.body?.size ?? 0,
+          contentId: contentId || undefined,
+          isInline:
+            disposition.startsWith("inline") ||
+            (Boolean(contentId) && !disposition.startsWith("attachment")),
+        });
       }
-    };
 
-    if (payload?.parts) {
-      for (const p of payload.parts) visit(p);
-    }
+      for (const child of part.parts || []) visit(child);
+    };
 
-    return { html, text };
+    visit(payload);
+    return attachments;
   }
 
-  getRefreshedTokens(): AuthTokens | null {
-    const { credentials } = this.oauth2Client;
+  getRefreshedTokens(client: OAuth2Client): AuthTokens | null {
+    const { credentials } = client;
     if (!credentials.access_token) return null;
 
     return {
@@ -351,4 +686,53 @@ export class GmailIntegration {
       refreshToken: credentials.refresh_token || undefined,
     };
   }
+
+  private getGmail(tokens: GmailCredentials): gmail_v1.Gmail {
+    return google.gmail({
+      version: "v1",
+      auth: this.clientPool.acquire(tokens),
+    });
+  }
+
+  private findPart(
+    part: gmail_v1.Schema$MessagePart | null | undefined,
+    partId: string
+  ): gmail_v1.Schema$MessagePart | null {
+    if (!part) return null;
+    if (part.partId === partId) return part;
+    for (const child of part.parts || []) {
+      const found = this.findPart(child, partId);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Error to rethrow from a failed Gmail call. invalid_grant here means the
+   * client refreshed its token mid-call and Google rejected the grant.
+   */
+  private toGmailError(
+    tokens: GmailCredentials,
+    error: unknown,
+    message: string
+  ): Error {
+    if (this.isInvalidGrant(error)) {
+      this.clientPool.release(tokens.firebaseUid);
+      this.grantRevokedListener?.(tokens.firebaseUid);
+      return new GmailReconnectRequiredError();
+    }
+    return new ExternalServiceError("Gmail", message);
+  }
+
+  // Google answers a revoked or expired refresh token with invalid_grant
+  private isInvalidGrant(error: unknown): boolean {
+    const err = error as {
+      message?: string;
+      response?: { data?: { error?: string } };
+    };
+    return (
+      err?.response?.data?.error === "invalid_grant" ||
+      Boolean(err?.message?.includes("invalid_grant"))
+    );
+  }
 }
@@ -0,0 +1,86 @@
+import {
+  estimateTokens,
+  type LLMGenerationOptions,
+  type LLMProvider,
+  type LLMSchema,
+  type LLMStreamOptions,
+} from "./LLMProvider";
+
+/**
+ * Offline provider for tests and local development. Output depends only on
+ * the prompt, so the same input always gives the same text, and JSON always
+ * satisfies the requested schema.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private model: string = "fake") {
+    this.name = `Fake LLM (${model})`;
+  }
+
+  async generateText(
+    prompt: string,
+    _options?: LLMGenerationOptions
+  ): Promise<string> {
+    return `[${this.model}:${fingerprint(prompt)}] Thanks for your message. This is a placeholder reply generated offline.`;
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: LLMSchema,
+    _options?: LLMGenerationOptions
+  ): Promise<T> {
+    return sampleFromSchema(schema, fingerprint(prompt)) as T;
+  }
+
+  async *stream(
+    prompt: string,
+    options: LLMStreamOptions = {}
+  ): AsyncGenerator<string> {
+    const text = await this.generateText(prompt, options);
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      yield word;
+    }
+  }
+
+  async countTokens(prompt: string): Promise<number> {
+    return estimateTokens(prompt);
+  }
+}
+
+// Short stable hash so different prompts give visibly different output
+function fingerprint(text: string): string {
+  let hash = 0;
+  for (let index = 0; index < text.length; index++) {
+    hash = (hash * 31 + text.charCodeAt(index)) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+function sampleFromSchema(
+  schema: LLMSchema,
+  seed: string,
+  key: string = "value"
+): unknown {
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [
+          name,
+          sampleFromSchema(property, seed, name),
+        ])
+      );
+    case "array":
+      return schema.items ? [sampleFromSchema(schema.items, seed, key)] : [];
+    case "string":
+      return schema.enum?.[0] ?? `Sample ${key} ${seed}`;
+    case "integer":
+    case "number":
+      return schema.minimum ?? 1;
+    case "boolean":
+      return false;
+  }
+}
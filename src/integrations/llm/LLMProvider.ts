@@ -0,0 +1,61 @@
+/**
+ * Provider-neutral subset of JSON Schema for structured output. Each
+ * provider translates it to its own dialect.
+ */
+export interface LLMSchema {
+  type: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  description?: string;
+  properties?: Record<string, LLMSchema>;
+  required?: string[];
+  items?: LLMSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface LLMGenerationOptions {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMStreamOptions extends LLMGenerationOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * A text model behind one backend. Each instance is bound to a single
+ * model; tasks that need a different model get their own instance.
+ */
+export interface LLMProvider {
+  // Shown in errors and logs, e.g. "Vertex AI (gemini-2.0-flash-001)"
+  readonly name: string;
+
+  generateText(prompt: string, options?: LLMGenerationOptions): Promise<string>;
+
+  // Parsed JSON constrained by `schema`
+  generateJSON<T>(
+    prompt: string,
+    schema: LLMSchema,
+    options?: LLMGenerationOptions
+  ): Promise<T>;
+
+  /**
+   * Text chunks as they are generated. Once `signal` aborts the generator
+   * ends; providers that can also cancel the request upstream do so, while
+   * the others keep generating (and billing) in the background.
+   */
+  stream(prompt: string, options?: LLMStreamOptions): AsyncGenerator<string>;
+
+  countTokens(prompt: string): Promise<number>;
+}
+
+export type LLMTask = "styleProfile" | "draft" | "summary";
+
+export type LLMProviders = Record<LLMTask, LLMProvider>;
+
+// Rough token estimate for backends without a counting endpoint
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
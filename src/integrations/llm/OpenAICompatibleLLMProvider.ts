@@ -0,0 +1,142 @@
+import {
+  estimateTokens,
+  type LLMGenerationOptions,
+  type LLMProvider,
+  type LLMSchema,
+  type LLMStreamOptions,
+} from "./LLMProvider";
+
+export interface OpenAICompatibleLLMOptions {
+  // e.g. http://localhost:11434/v1 for Ollama or a llama.cpp/vLLM server
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+type ChatCompletion = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+};
+
+/**
+ * Chat Completions over plain HTTP, for local servers that implement the
+ * OpenAI API.
+ */
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private options: OpenAICompatibleLLMOptions) {
+    this.name = `OpenAI-compatible (${options.model})`;
+  }
+
+  async generateText(
+    prompt: string,
+    options: LLMGenerationOptions = {}
+  ): Promise<string> {
+    const response = await this.post(this.createBody(prompt, options));
+    const completion = (await response.json()) as ChatCompletion;
+    return completion.choices?.[0]?.message?.content || "";
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: LLMSchema,
+    options: LLMGenerationOptions = {}
+  ): Promise<T> {
+    const response = await this.post({
+      ...this.createBody(prompt, options),
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "response", schema },
+      },
+    });
+    const completion = (await response.json()) as ChatCompletion;
+    return JSON.parse(completion.choices?.[0]?.message?.content || "{}") as T;
+  }
+
+  // Aborting cancels the HTTP request; the generator then just ends
+  async *stream(
+    prompt: string,
+    options: LLMStreamOptions = {}
+  ): AsyncGenerator<string> {
+    try {
+      const response = await this.post(
+        { ...this.createBody(prompt, options), stream: true },
+        options.signal
+      );
+      if (!response.body) {
+        return;
+      }
+
+      const decoder = new TextDecoder();
+      let buffered = "";
+      for await (const bytes of response.body) {
+        buffered += decoder.decode(bytes, { stream: true });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+          if (!data) continue;
+          if (data === "[DONE]") return;
+
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) {
+            yield text;
+          }
+        }
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // The API has no counting endpoint
+  async countTokens(prompt: string): Promise<number> {
+    return estimateTokens(prompt);
+  }
+
+  private createBody(prompt: string, options: LLMGenerationOptions) {
+    return {
+      model: this.options.model,
+      messages: [{ role: "user", content: prompt }],
+      temperature: options.temperature,
+      top_p: options.topP,
+      max_tokens: options.maxOutputTokens,
+    };
+  }
+
+  private async post(
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(
+      `${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.options.apiKey && {
+            Authorization: `Bearer ${this.options.apiKey}`,
+          }),
+        },
+        body: JSON.stringify(body),
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Chat completion failed with ${response.status}: ${await response.text()}`
+      );
+    }
+    return response;
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  type GenerateContentRequest,
+  type Schema,
+  SchemaType,
+  VertexAI,
+} from "@google-cloud/vertexai";
+
+import type {
+  LLMGenerationOptions,
+  LLMProvider,
+  LLMSchema,
+  LLMStreamOptions,
+} from "./LLMProvider";
+
+type GenerativeModel = ReturnType<VertexAI["getGenerativeModel"]>;
+
+export interface VertexLLMOptions {
+  project: string;
+  location: string;
+  model: string;
+}
+
+export class VertexLLMProvider implements LLMProvider {
+  readonly name: string;
+  // Created on first use so importing the app needs no GCP credentials
+  private generativeModel: GenerativeModel | null = null;
+
+  constructor(private options: VertexLLMOptions) {
+    this.name = `Vertex AI (${options.model})`;
+  }
+
+  async generateText(
+    prompt: string,
+    options: LLMGenerationOptions = {}
+  ): Promise<string> {
+    const result = await this.getModel().generateContent(
+      this.createRequest(prompt, options)
+    );
+    return result.response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+
+  async generateJSON<T>(
+    prompt: string,
+    schema: LLMSchema,
+    options: LLMGenerationOptions = {}
+  ): Promise<T> {
+    const request = this.createRequest(prompt, options);
+    request.generationConfig = {
+      ...request.generationConfig,
+      responseMimeType: "application/json",
+      responseSchema: toVertexSchema(schema),
+    };
+
+    const result = await this.getModel().generateContent(request);
+    const text = result.response.candidates?.[0]?.content?.parts?.[0]?.text;
+    return JSON.parse(text || "{}") as T;
+  }
+
+  /**
+   * The Vertex SDK (1.x) takes no abort signal, so aborting only stops
+   * reading: the model finishes the response server-side and its output
+   * tokens are still billed. Keep maxOutputTokens tight for streamed tasks.
+   */
+  async *stream(
+    prompt: string,
+    options: LLMStreamOptions = {}
+  ): AsyncGenerator<string> {
+    const result = await this.getModel().generateContentStream(
+      this.createRequest(prompt, options)
+    );
+    // The aggregate is never awaited; keep its rejection from going
+    // unhandled when the stream fails or is abandoned
+    result.response.catch(() => undefined);
+
+    for await (const chunk of result.stream) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  async countTokens(prompt: string): Promise<number> {
+    const { totalTokens } = await this.getModel().countTokens({
+      contents: [{ role: "user", parts: [{ text: prompt }] }],
+    });
+    return totalTokens;
+  }
+
+  private getModel(): GenerativeModel {
+    if (!this.generativeModel) {
+      const vertexAI = new VertexAI({
+        project: this.options.project,
+        location: this.options.location,
+      });
+      this.generativeModel = vertexAI.getGenerativeModel({
+        model: this.options.model,
+      });
+    }
+    return this.generativeModel;
+  }
+
+  private createRequest(
+    prompt: string,
+    options: LLMGenerationOptions
+  ): GenerateContentRequest {
+    return {
+      contents: [{ role: "user", parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: options.temperature,
+        topP: options.topP,
+        topK: options.topK,
+        maxOutputTokens: options.maxOutputTokens,
+      },
+    };
+  }
+}
+
+function toVertexSchema(schema: LLMSchema): Schema {
+  return {
+    type: schema.type.toUpperCase() as SchemaType,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items && toVertexSchema(schema.items),
+    properties:
+      schema.properties &&
+      Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [
+          key,
+          toVertexSchema(value),
+        ])
+      ),
+    // Accepted by the API though missing from the SDK's Schema type
+    ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+    ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+  } as Schema;
+}
@@ -0,0 +1,56 @@
+import type { AppConfig, LLMSelection } from "../../config";
+
+import { FakeLLMProvider } from "./FakeLLMProvider";
+import type { LLMProvider, LLMProviders, LLMTask } from "./LLMProvider";
+import { OpenAICompatibleLLMProvider } from "./OpenAICompatibleLLMProvider";
+import { VertexLLMProvider } from "./VertexLLMProvider";
+
+export * from "./LLMProvider";
+export { FakeLLMProvider } from "./FakeLLMProvider";
+export { OpenAICompatibleLLMProvider } from "./OpenAICompatibleLLMProvider";
+export { VertexLLMProvider } from "./VertexLLMProvider";
+
+export function createLLMProvider(
+  selection: LLMSelection,
+  config: Pick<AppConfig, "vertexAiProjectId" | "vertexAiLocation" | "llm">
+): LLMProvider {
+  switch (selection.provider) {
+    case "vertex":
+      return new VertexLLMProvider({
+        project: config.vertexAiProjectId,
+        location: config.vertexAiLocation,
+        model: selection.model,
+      });
+    case "openai":
+      return new OpenAICompatibleLLMProvider({
+        baseUrl: config.llm.openaiBaseUrl,
+        apiKey: config.llm.openaiApiKey,
+        model: selection.model,
+      });
+    case "fake":
+      return new FakeLLMProvider(selection.model);
+  }
+}
+
+/** One provider per task as configured; tasks sharing a model share it. */
+export function createLLMProviders(
+  config: Pick<AppConfig, "vertexAiProjectId" | "vertexAiLocation" | "llm">
+): LLMProviders {
+  const created = new Map<string, LLMProvider>();
+  const forTask = (task: LLMTask) => {
+    const selection = config.llm.tasks[task];
+    const key = `${selection.provider}:${selection.model}`;
+    let provider = created.get(key);
+    if (!provider) {
+      provider = createLLMProvider(selection, config);
+      created.set(key, provider);
+    }
+    return provider;
+  };
+
+  return {
+    styleProfile: forTask("styleProfile"),
+    draft: forTask("draft"),
+    summary: forTask("summary"),
+  };
+}
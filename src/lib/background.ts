@@ -3,17 +3,28 @@ import { cleanupOfflineUsers, isUserOnline } from "./user.js";
 import { prisma } from "./prisma.js";
 // no direct cache usage in this module
 
+// How often hourly maintenance (e.g. Gmail watch renewal) runs
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+
 class BackgroundService {
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning = false;
-  // Pluggable sync function; default to legacy Redis-based sync
-  private syncFn: (uid: string) => Promise<void | number> = async (uid) => {
+  private lastMaintenanceAt = 0;
+  // Pluggable sync scheduler; default to running the legacy Redis-based sync
+  // inline. The app swaps in the durable job queue.
+  private scheduleSyncFn: (uid: string) => Promise<void> = async (uid) => {
     await syncUserMessages(uid);
   };
+  private maintenanceFn: (() => Promise<void>) | null = null;
+
+  // Allow app to route per-user syncs through the job queue
+  setSyncScheduler(fn: (uid: string) => Promise<void>) {
+    this.scheduleSyncFn = fn;
+  }
 
-  // Allow app to inject DB-backed sync (EmailService.syncUserEmails)
-  setSyncFunction(fn: (uid: string) => Promise<void | number>) {
-    this.syncFn = fn;
+  // Allow app to inject hourly maintenance work
+  setMaintenanceFunction(fn: () => Promise<void>) {
+    this.maintenanceFn = fn;
   }
 
   start() {
@@ -50,25 +61,33 @@ class BackgroundService {
       // Get all online users
       const onlineUsers = await this.getOnlineUsers();
 
-      // Sync messages for each online user
+      // Schedule a message sync for each online user
       for (const user of onlineUsers) {
         try {
-          await this.syncFn(user.firebaseUid);
+          await this.scheduleSyncFn(user.firebaseUid);
         } catch (error) {
           console.error(
-            `Failed to sync messages for user ${user.firebaseUid}:`,
+            `Failed to schedule sync for user ${user.firebaseUid}:`,
             error
           );
         }
       }
 
+      if (
+        this.maintenanceFn &&
+        Date.now() - this.lastMaintenanceAt >= MAINTENANCE_INTERVAL_MS
+      ) {
+        this.lastMaintenanceAt = Date.now();
+        await this.maintenanceFn();
+      }
+
       // Clean up offline users (run every 2 minutes)
       if (Date.now() % 240000 < 30000) {
         // Roughly every 2 minutes
         await cleanupOfflineUsers();
       }
 
-      console.log(`Background sync completed for ${onlineUsers.length} users`);
+      console.log(`Background sync scheduled for ${onlineUsers.length} users`);
     } catch (error) {
       console.error("Background service error:", error);
     }
@@ -106,9 +125,9 @@ class BackgroundService {
   async syncAllUsers() {
     const users = await this.getOnlineUsers();
     for (const user of users) {
-      await this.syncFn(user.firebaseUid);
+      await this.scheduleSyncFn(user.firebaseUid);
     }
-    console.log(`Manually synced ${users.length} users`);
+    console.log(`Manually scheduled sync for ${users.length} users`);
   }
 }
 
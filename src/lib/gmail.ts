@@ -4,6 +4,8 @@ import { prisma } from "./prisma.js";
 import redis from "./cache.js";
 import { slackNotifier } from "./slack.js";
 import { getUserTokensDecrypted } from "./user.js";
+import { parseMailContent } from "../utils/mailParser.js";
+import { encodeMimeMessage } from "../utils/mime.js";
 
 const SCOPES = [
   "https://mail.google.com/",
@@ -23,47 +25,6 @@ export interface GmailMessage {
   isUnread: boolean;
 }
 
-// Helper function to extract email body from Gmail message payload
-function extractBody(payload: any): string {
-  let body = "";
-
-  // Check if body is in payload.body.data (single part message)
-  if (payload.body?.data) {
-    body = Buffer.from(payload.body.data, "base64").toString("utf-8");
-    return body;
-  }
-
-  // Check if message has parts (multipart message)
-  if (payload.parts) {
-    // Try to find text/html first, fall back to text/plain
-    const htmlPart = payload.parts.find(
-      (part: any) => part.mimeType === "text/html"
-    );
-    const textPart = payload.parts.find(
-      (part: any) => part.mimeType === "text/plain"
-    );
-
-    const preferredPart = htmlPart || textPart;
-
-    if (preferredPart?.body?.data) {
-      body = Buffer.from(preferredPart.body.data, "base64").toString("utf-8");
-      return body;
-    }
-
-    // If still no body, check for nested parts (multipart/alternative, etc.)
-    for (const part of payload.parts) {
-      if (part.parts) {
-        const nestedBody = extractBody(part);
-        if (nestedBody) {
-          return nestedBody;
-        }
-      }
-    }
-  }
-
-  return body;
-}
-
 export function createOAuth2Client(): OAuth2Client {
   const redirectUri = process.env.GOOGLE_REDIRECT_URI;
   return new google.auth.OAuth2(
@@ -223,8 +184,7 @@ export async function getGmailMessages(
         const isUnread =
           messageDetail.data.labelIds?.includes("UNREAD") || false;
 
-        // Extract body from payload
-        const body = extractBody(messageDetail.data.payload);
+        const body = parseMailContent(messageDetail.data.payload).text;
 
         formattedMessages.push({
           id: message.id!,
@@ -355,29 +315,14 @@ export async function sendEmailReply(
     const profile = await gmail.users.getProfile({ userId: "me" });
     const userEmail = profile.data.emailAddress;
 
-    // Prepare email headers
-    let emailContent = `From: ${userEmail}\r\n`;
-    emailContent += `To: ${replyData.to}\r\n`;
-    emailContent += `Subject: ${replyData.subject}\r\n`;
-
-    if (replyData.inReplyTo) {
-      emailContent += `In-Reply-To: ${replyData.inReplyTo}\r\n`;
-    }
-
-    if (replyData.references) {
-      emailContent += `References: ${replyData.references}\r\n`;
-    }
-
-    emailContent += `Content-Type: text/html; charset=utf-8\r\n`;
-    emailContent += `\r\n`;
-    emailContent += replyData.body;
-
-    // Encode the email content
-    const encodedMessage = Buffer.from(emailContent)
-      .toString("base64")
-      .replace(/\+/g, "-")
-      .replace(/\//g, "_")
-      .replace(/=+$/, "");
+    const encodedMessage = encodeMimeMessage({
+      from: userEmail ?? undefined,
+      to: [replyData.to],
+      subject: replyData.subject,
+      html: replyData.body,
+      inReplyTo: replyData.inReplyTo,
+      references: replyData.references?.split(/\s+/).filter(Boolean),
+    });
 
     // Send the email
     const response = await gmail.users.messages.send({
@@ -450,8 +395,7 @@ export async function getGmailMessage(
 
     const isUnread = messageDetail.data.labelIds?.includes("UNREAD") || false;
 
-    // Extract body from payload
-    const body = extractBody(messageDetail.data.payload);
+    const body = parseMailContent(messageDetail.data.payload).text;
 
     return {
       id: messageDetail.data.id!,
@@ -1,6 +1,7 @@
 import { google } from "googleapis";
 import { getUserTokensDecrypted } from "./user.js";
 import redis from "./cache.js";
+import { parseMailContent } from "../utils/mailParser.js";
 
 interface EmailForStyleLearning {
   id: string;
@@ -65,8 +66,8 @@ export async function fetchRecentEmailsForStyleLearning(
           const to = headers.find((h) => h.name === "To")?.value || "";
           const date = headers.find((h) => h.name === "Date")?.value || "";
 
-          // Extract body
-          const body = extractEmailBody(fullMsg.data.payload);
+          const body =
+            parseMailContent(fullMsg.data.payload).text || "(no content)";
 
           sentEmails.push({
             id: msg.id!,
@@ -107,7 +108,8 @@ export async function fetchRecentEmailsForStyleLearning(
           const to = headers.find((h) => h.name === "To")?.value || "";
           const date = headers.find((h) => h.name === "Date")?.value || "";
 
-          const body = extractEmailBody(fullMsg.data.payload);
+          const body =
+            parseMailContent(fullMsg.data.payload).text || "(no content)";
 
           inboxEmails.push({
             id: msg.id!,
@@ -135,33 +137,6 @@ export async function fetchRecentEmailsForStyleLearning(
   }
 }
 
-// Extract body from Gmail message payload
-function extractEmailBody(payload: any): string {
-  let body = "";
-
-  if (payload.body?.data) {
-    body = Buffer.from(payload.body.data, "base64").toString("utf-8");
-    return body;
-  }
-
-  if (payload.parts) {
-    const textPart = payload.parts.find(
-      (part: any) => part.mimeType === "text/plain"
-    );
-    const htmlPart = payload.parts.find(
-      (part: any) => part.mimeType === "text/html"
-    );
-
-    const preferredPart = textPart || htmlPart;
-
-    if (preferredPart?.body?.data) {
-      body = Buffer.from(preferredPart.body.data, "base64").toString("utf-8");
-    }
-  }
-
-  return body || "(no content)";
-}
-
 /**
  * Cache user's emails for onboarding in Redis
  * TTL: 1 hour (enough time for questionnaire + profile generation)
@@ -3,10 +3,11 @@ import { FastifyRequest, FastifyReply } from "fastify";
 
 import { firebaseIntegration } from "../integrations/FirebaseIntegration";
 import { GmailIntegration } from "../integrations/GmailIntegration";
-import { prisma } from "../lib/prisma";
 import { slackNotifier } from "../lib/slack";
 import { setUserOnline } from "../lib/user";
 import { UserRepository } from "../repositories/UserRepository";
+import { GmailTokenManager } from "../services/GmailTokenManager";
+import { GmailReconnectRequiredError } from "../utils/errors";
 
 export interface AuthenticatedUser {
   userId: string;
@@ -95,61 +96,86 @@ export function requireAuth() {
   return authMiddleware;
 }
 
-const gmailIntegration = new GmailIntegration();
-const userRepository = new UserRepository(prisma);
-
-// Enhanced middleware that checks Gmail permissions and forces re-verification
-export async function requireGmailAuth(
-  request: FastifyRequest,
-  reply: FastifyReply
-) {
-  try {
-    // First run the standard auth check
-    await authMiddleware(request, reply);
+export interface GmailAuthDependencies {
+  gmailIntegration: GmailIntegration;
+  tokenManager: GmailTokenManager;
+  userRepository: UserRepository;
+}
 
-    // If headers were sent, auth check failed
-    if (reply.sent) return;
+/**
+ * Middleware that also requires working Gmail credentials, refreshing
+ * expired ones. Built from the app's own token manager so every request
+ * shares one client pool and one in-flight refresh per user.
+ */
+export function createRequireGmailAuth({
+  gmailIntegration,
+  tokenManager,
+  userRepository,
+}: GmailAuthDependencies) {
+  return async function requireGmailAuth(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      // First run the standard auth check
+      await authMiddleware(request, reply);
 
-    const user = request.firebaseUser;
-    if (!user) {
-      return reply.status(401).send({ error: "Authentication required" });
-    }
+      // If headers were sent, auth check failed
+      if (reply.sent) return;
 
-    // Check if user has valid Gmail credentials
-    const tokens = await userRepository.getTokens(user.firebaseUid);
+      const user = request.firebaseUser;
+      if (!user) {
+        return reply.status(401).send({ error: "Authentication required" });
+      }
 
-    if (!tokens || !tokens.accessToken) {
-      return reply.status(403).send({
-        error: "Gmail authentication required",
-        requiresAuth: "gmail",
-      });
-    }
+      // Check if user has valid Gmail credentials, refreshing expired ones
+      let tokens;
+      try {
+        tokens = await tokenManager.getValidTokens(user.firebaseUid);
+      } catch (err) {
+        if (err instanceof GmailReconnectRequiredError) {
+          return reply.status(403).send({
+            error: err.message,
+            requiresAuth: "gmail",
+            reconnect: true,
+          });
+        }
+        throw err;
+      }
 
-    try {
-      const validation = await gmailIntegration.validateTokens(tokens);
-      if (!validation.valid) {
+      if (!tokens || !tokens.accessToken) {
         return reply.status(403).send({
           error: "Gmail authentication required",
           requiresAuth: "gmail",
         });
       }
 
-      if (validation.refreshedTokens?.accessToken) {
-        await userRepository.storeTokens(
-          user.firebaseUid,
-          validation.refreshedTokens
-        );
+      try {
+        const validation = await gmailIntegration.validateTokens(tokens);
+        if (!validation.valid) {
+          return reply.status(403).send({
+            error: "Gmail authentication required",
+            requiresAuth: "gmail",
+          });
+        }
+
+        if (validation.refreshedTokens?.accessToken) {
+          await userRepository.storeTokens(
+            user.firebaseUid,
+            validation.refreshedTokens
+          );
+        }
+      } catch (err) {
+        request.log?.error({ err }, "Gmail token validation failed");
+        return reply
+          .status(500)
+          .send({ error: "Server error during authentication" });
       }
-    } catch (err) {
-      request.log?.error({ err }, "Gmail token validation failed");
+    } catch (error) {
+      console.error("Gmail auth middleware error:", error);
       return reply
         .status(500)
         .send({ error: "Server error during authentication" });
     }
-  } catch (error) {
-    console.error("Gmail auth middleware error:", error);
-    return reply
-      .status(500)
-      .send({ error: "Server error during authentication" });
-  }
+  };
 }
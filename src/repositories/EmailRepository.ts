@@ -1,23 +1,56 @@
+/* eslint-disable import/no-unresolved */
 import {
   PrismaClient,
   Prisma,
   Email as EmailModel,
   Thread as ThreadModel,
+  Attachment as AttachmentModel,
   Draft as DraftModel,
+  DraftEvent as DraftEventModel,
+  ThreadSummary as ThreadSummaryModel,
 } from "@prisma/client";
 
-// eslint-disable-next-line import/no-unresolved
-import { EmailMessage, EmailThread, EmailDraft } from "../types/index.js";
-
-type ThreadWithEmails = ThreadModel & { emails: EmailModel[] };
-type ThreadPreview = ThreadModel & { emails: EmailModel[] };
+import {
+  EmailMessage,
+  EmailThread,
+  EmailThreadSummary,
+  EmailDraft,
+  DraftAction,
+  DraftDirectness,
+  DraftEvent,
+  DraftLength,
+  DraftStatus,
+  EmailAttachment,
+  GmailAttachment,
+  ThreadListFilters,
+  ThreadSummary,
+  ThreadSummaryContent,
+} from "../types/index.js";
+import { CursorPosition } from "../utils/cursor.js";
+import { truncateText } from "../utils/helpers.js";
+import { sanitizeEmailHtml } from "../utils/html.js";
+import { ParsedSearchQuery } from "../utils/searchQuery.js";
+
+type EmailWithAttachments = EmailModel & { attachments?: AttachmentModel[] };
+type ThreadWithEmails = ThreadModel & { emails: EmailWithAttachments[] };
+type DraftWithEvents = DraftModel & { events?: DraftEventModel[] };
+type ThreadPreview = ThreadModel & { emails: EmailWithAttachments[] };
 
 type TransactionClient = PrismaClient | Prisma.TransactionClient;
 
-export type EmailUpsertInput = Omit<EmailMessage, "id"> & {
+const PREVIEW_LENGTH = 160;
+
+const buildPreview = (body: string) =>
+  truncateText(body.replace(/\s+/g, " ").trim(), PREVIEW_LENGTH);
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export type EmailUpsertInput = Omit<EmailMessage, "id" | "attachments"> & {
   userId: string;
   threadId: string;
   gmailId: string;
+  attachments?: GmailAttachment[];
 };
 
 export type EmailUpsertResult = {
@@ -28,6 +61,11 @@ export type EmailUpsertResult = {
   error?: string;
 };
 
+export type DraftEventInput = {
+  action: DraftAction;
+  metadata?: Record<string, unknown>;
+};
+
 export type EmailBatchUpsertResult = {
   results: EmailUpsertResult[];
   createdCount: number;
@@ -37,12 +75,16 @@ export type EmailBatchUpsertResult = {
 export class EmailRepository {
   constructor(private prisma: PrismaClient) {}
 
-  async findThreadById(id: string): Promise<EmailThread | null> {
-    const thread = await this.prisma.thread.findUnique({
-      where: { id },
+  async findThreadById(
+    userId: string,
+    id: string
+  ): Promise<EmailThread | null> {
+    const thread = await this.prisma.thread.findFirst({
+      where: { id, userId },
       include: {
         emails: {
           orderBy: { timestamp: "asc" },
+          include: { attachments: true },
         },
       },
     });
@@ -50,25 +92,121 @@ export class EmailRepository {
     return thread ? this.mapToEmailThread(thread as ThreadWithEmails) : null;
   }
 
-  async findThreadsByUserId(
+  async findThreadSummary(
+    userId: string,
+    threadId: string
+  ): Promise<ThreadSummary | null> {
+    const record = await this.prisma.threadSummary.findFirst({
+      where: { threadId, userId },
+    });
+
+    return record ? this.mapToThreadSummary(record) : null;
+  }
+
+  async saveThreadSummary(
+    userId: string,
+    threadId: string,
+    content: ThreadSummaryContent
+  ): Promise<ThreadSummary> {
+    const data = {
+      content: content as unknown as Prisma.InputJsonValue,
+      createdAt: new Date(),
+    };
+    const record = await this.prisma.threadSummary.upsert({
+      where: { threadId },
+      create: { threadId, userId, ...data },
+      update: data,
+    });
+
+    return this.mapToThreadSummary(record);
+  }
+
+  /**
+   * One page of threads ordered by latest message, newest first, each with
+   * its latest email and unread count. The id breaks timestamp ties so the
+   * cursor position is unambiguous.
+   */
+  async findThreadsPage(
     userId: string,
-    limit: number = 25
-  ): Promise<EmailThread[]> {
+    filters: ThreadListFilters,
+    options: { take: number; cursor?: CursorPosition }
+  ): Promise<EmailThreadSummary[]> {
+    const conditions: Prisma.ThreadWhereInput[] = [
+      { userId, lastMessageAt: { not: null } },
+    ];
+
+    if (filters.unread !== undefined) {
+      conditions.push(
+        filters.unread
+          ? { emails: { some: { isUnread: true } } }
+          : { emails: { none: { isUnread: true } } }
+      );
+    }
+    if (filters.label) {
+      conditions.push({
+        emails: { some: { labelIds: { has: filters.label } } },
+      });
+    }
+    if (filters.since) {
+      conditions.push({ lastMessageAt: { gte: filters.since } });
+    }
+    if (options.cursor) {
+      const { timestamp, id } = options.cursor;
+      conditions.push({
+        OR: [
+          { lastMessageAt: { lt: timestamp } },
+          { lastMessageAt: timestamp, id: { lt: id } },
+        ],
+      });
+    }
+
     const threads = await this.prisma.thread.findMany({
-      where: { userId },
+      where: { AND: conditions },
       include: {
         emails: {
           orderBy: { timestamp: "desc" },
           take: 1,
+          include: { attachments: true },
         },
       },
-      orderBy: { updatedAt: "desc" },
-      take: limit,
+      orderBy: [{ lastMessageAt: "desc" }, { id: "desc" }],
+      take: options.take,
+    });
+
+    const unreadCounts = await this.countUnreadByThread(
+      userId,
+      threads.map((thread) => thread.id)
+    );
+
+    return threads.map((thread) => {
+      const summary = this.mapToEmailThread(thread as ThreadPreview);
+      const latest = summary.messages[0];
+      return {
+        ...summary,
+        unreadCount: unreadCounts.get(thread.id) ?? 0,
+        preview: latest ? buildPreview(latest.body) : "",
+      };
     });
+  }
 
-    return threads.map((thread: ThreadModel & { emails: EmailModel[] }) =>
-      this.mapToEmailThread(thread as ThreadPreview)
+  /**
+   * Fill lastMessageAt on threads stored before it was tracked, so they
+   * show up in the paginated list.
+   */
+  async backfillThreadActivity(userId: string): Promise<number> {
+    const stale = await this.prisma.thread.findMany({
+      where: {
+        userId,
+        OR: [{ lastMessageAt: { isSet: false } }, { lastMessageAt: null }],
+      },
+      select: { id: true },
+    });
+
+    await this.refreshThreadActivity(
+      this.prisma,
+      stale.map((thread) => thread.id)
     );
+    return stale.length;
   }
 
   async findThreadByGmailId(
@@ -136,17 +274,28 @@ export class EmailRepository {
         to: emailData.to,
         subject: emailData.subject,
         body: emailData.body,
+        quotedText: emailData.quotedText,
         htmlBody: emailData.htmlBody,
         timestamp: emailData.timestamp,
         isUnread: emailData.isUnread,
+        labelIds: emailData.labelIds ?? [],
       },
     });
+    await this.refreshThreadActivity(this.prisma, [record.threadId]);
+    await this.invalidateThreadSummaries([record.threadId]);
 
     return this.mapToEmailMessage(record);
   }
 
   async upsertEmail(emailData: EmailUpsertInput): Promise<EmailUpsertResult> {
-    return this.upsertEmailInternal(this.prisma, emailData);
+    const result = await this.upsertEmailInternal(this.prisma, emailData);
+    if (result.success) {
+      await this.refreshThreadActivity(this.prisma, [emailData.threadId]);
+    }
+    if (result.created) {
+      await this.invalidateThreadSummaries([emailData.threadId]);
+    }
+    return result;
   }
 
   async upsertEmailsBatch(
@@ -160,6 +309,19 @@ export class EmailRepository {
       Promise.all(emails.map((email) => this.upsertEmailInternal(tx, email)))
     );
 
+    await this.refreshThreadActivity(
+      this.prisma,
+      emails
+        .filter((_, index) => results[index].success)
+        .map((email) => email.threadId)
+    );
+
+    await this.invalidateThreadSummaries(
+      emails
+        .filter((_, index) => results[index].created)
+        .map((email) => email.threadId)
+    );
+
     const errors = results
       .filter((result) => !result.success)
       .map((result) => ({
@@ -178,9 +340,118 @@ export class EmailRepository {
     };
   }
 
-  async markAsRead(emailId: string): Promise<void> {
-    await this.prisma.email.update({
-      where: { id: emailId },
+  // Gmail id and labels of every stored message, for reconciling a full sync
+  async findGmailLabelsByUserId(
+    userId: string
+  ): Promise<Array<{ gmailId: string; labelIds: string[] }>> {
+    return this.prisma.email.findMany({
+      where: { userId },
+      select: { gmailId: true, labelIds: true },
+    });
+  }
+
+  /**
+   * Remove emails Gmail reports as deleted, along with any threads left
+   * without messages. Returns the number of emails removed.
+   */
+  async deleteEmailsByGmailIds(
+    userId: string,
+    gmailIds: string[]
+  ): Promise<number> {
+    if (gmailIds.length === 0) {
+      return 0;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const emails = await tx.email.findMany({
+        where: { userId, gmailId: { in: gmailIds } },
+        select: { threadId: true },
+      });
+
+      const { count } = await tx.email.deleteMany({
+        where: { userId, gmailId: { in: gmailIds } },
+      });
+
+      const threadIds = Array.from(
+        new Set(emails.map((email: { threadId: string }) => email.threadId))
+      );
+      for (const threadId of threadIds) {
+        const remaining = await tx.email.count({ where: { threadId } });
+        if (remaining === 0) {
+          await tx.thread.deleteMany({ where: { id: threadId, userId } });
+        } else {
+          await this.refreshThreadActivity(tx, [threadId]);
+        }
+      }
+
+      return count;
+    });
+  }
+
+  /**
+   * Mirror a message's Gmail labels; read state follows the UNREAD label.
+   * Returns false when the message is not stored locally.
+   */
+  async updateLabelsByGmailId(
+    userId: string,
+    gmailId: string,
+    labelIds: string[]
+  ): Promise<boolean> {
+    const { count } = await this.prisma.email.updateMany({
+      where: { userId, gmailId },
+      data: { labelIds, isUnread: labelIds.includes("UNREAD") },
+    });
+
+    return count > 0;
+  }
+
+  async findEmailsByLabel(
+    userId: string,
+    labelId: string,
+    limit: number = 100
+  ): Promise<EmailMessage[]> {
+    const emails = await this.prisma.email.findMany({
+      where: { userId, labelIds: { has: labelId } },
+      orderBy: { timestamp: "desc" },
+      take: limit,
+    });
+
+    return emails.map((email: EmailModel) => this.mapToEmailMessage(email));
+  }
+
+  /**
+   * An attachment with the Gmail ids needed to download it, or null when it
+   * does not belong to this user's email.
+   */
+  async findAttachment(
+    userId: string,
+    emailId: string,
+    attachmentId: string
+  ): Promise<{
+    attachment: EmailAttachment;
+    gmailMessageId: string;
+    partId: string;
+    gmailAttachmentId?: string;
+  } | null> {
+    const record = await this.prisma.attachment.findFirst({
+      where: { id: attachmentId, emailId, userId },
+      include: { email: { select: { gmailId: true } } },
+    });
+    if (!record) {
+      return null;
+    }
+
+    return {
+      attachment: this.mapToEmailAttachment(record),
+      gmailMessageId: record.email.gmailId,
+      partId: record.partId,
+      gmailAttachmentId: record.gmailAttachmentId ?? undefined,
+    };
+  }
+
+  async markAsRead(userId: string, emailId: string): Promise<void> {
+    await this.prisma.email.updateMany({
+      where: { id: emailId, userId },
       data: { isUnread: false },
     });
   }
@@ -188,7 +459,8 @@ export class EmailRepository {
   async createDraft(
     draftData: Omit<EmailDraft, "id" | "createdAt" | "updatedAt"> & {
       userId: string;
-    }
+    },
+    eventMetadata?: Record<string, unknown>
   ): Promise<EmailDraft> {
     const record = await this.prisma.draft.create({
       data: {
@@ -196,7 +468,19 @@ export class EmailRepository {
         userId: draftData.userId,
         content: draftData.content,
         tone: draftData.tone,
+        length: draftData.length,
+        directness: draftData.directness,
+        includeGreeting: draftData.includeGreeting,
+        instruction: draftData.instruction,
+        variantGroupId: draftData.variantGroupId,
+        styleProfileVersionId: draftData.styleProfileVersionId,
         status: (draftData.status ?? "PENDING") as DraftModel["status"],
+        events: {
+          create: {
+            action: "CREATED",
+            metadata: eventMetadata as Prisma.InputJsonValue | undefined,
+          },
+        },
       },
     });
 
@@ -204,11 +488,12 @@ export class EmailRepository {
   }
 
   async updateDraftStatus(
+    userId: string,
     draftId: string,
     status: DraftModel["status"]
   ): Promise<void> {
-    await this.prisma.draft.update({
-      where: { id: draftId },
+    await this.prisma.draft.updateMany({
+      where: { id: draftId, userId },
       data: {
         status,
         ...(status === "SENT" && { sentAt: new Date() }),
@@ -216,15 +501,242 @@ export class EmailRepository {
     });
   }
 
-  async findDraftsByUserId(userId: string): Promise<EmailDraft[]> {
+  async findDraftById(
+    userId: string,
+    draftId: string,
+    options: { includeEvents?: boolean } = {}
+  ): Promise<EmailDraft | null> {
+    const draft = await this.prisma.draft.findFirst({
+      where: { id: draftId, userId },
+      include: options.includeEvents
+        ? { events: { orderBy: { createdAt: "asc" } } }
+        : undefined,
+    });
+
+    return draft ? this.mapToEmailDraft(draft) : null;
+  }
+
+  // Oldest first, so variants keep the order they were generated in
+  async findDraftsByVariantGroup(
+    userId: string,
+    variantGroupId: string
+  ): Promise<EmailDraft[]> {
     const drafts = await this.prisma.draft.findMany({
-      where: { userId },
+      where: { userId, variantGroupId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return drafts.map((draft: DraftModel) => this.mapToEmailDraft(draft));
+  }
+
+  async setDraftVariantGroup(
+    userId: string,
+    draftId: string,
+    variantGroupId: string
+  ): Promise<void> {
+    await this.prisma.draft.updateMany({
+      where: { id: draftId, userId },
+      data: { variantGroupId },
+    });
+  }
+
+  /**
+   * Update a draft and append the matching audit event, but only while the
+   * draft is still in one of the given statuses. Returns null when another
+   * request moved it first, so a sent or claimed draft is never rewritten.
+   */
+  async applyDraftAction(
+    userId: string,
+    draftId: string,
+    fromStatuses: DraftStatus[],
+    changes: { status: DraftStatus; content?: string },
+    event: DraftEventInput
+  ): Promise<EmailDraft | null> {
+    const record = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.draft.updateMany({
+        where: { id: draftId, userId, status: { in: fromStatuses } },
+        data: {
+          status: changes.status,
+          ...(changes.content !== undefined && { content: changes.content }),
+        },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.draftEvent.create({
+        data: {
+          draftId,
+          action: event.action,
+          metadata: event.metadata as Prisma.InputJsonValue | undefined,
+        },
+      });
+      return tx.draft.findUnique({ where: { id: draftId } });
+    });
+
+    return record ? this.mapToEmailDraft(record) : null;
+  }
+
+  /**
+   * Mark a draft SENT only while it is still in one of the given statuses.
+   * Returns false when another request moved it first.
+   */
+  async claimDraftForSending(
+    userId: string,
+    draftId: string,
+    fromStatuses: DraftStatus[]
+  ): Promise<boolean> {
+    const { count } = await this.prisma.draft.updateMany({
+      where: { id: draftId, userId, status: { in: fromStatuses } },
+      data: { status: "SENT", sentAt: new Date() },
+    });
+    return count === 1;
+  }
+
+  // Undo a claim whose send did not go through
+  async releaseDraftClaim(
+    userId: string,
+    draftId: string,
+    status: DraftStatus
+  ): Promise<void> {
+    await this.prisma.draft.updateMany({
+      where: { id: draftId, userId, status: "SENT", gmailMessageId: null },
+      data: { status, sentAt: null },
+    });
+  }
+
+  async markDraftSent(
+    userId: string,
+    draftId: string,
+    gmailMessageId: string
+  ): Promise<EmailDraft> {
+    const record = await this.prisma.draft.update({
+      where: { id: draftId, userId },
+      data: {
+        status: "SENT",
+        gmailMessageId,
+        sentAt: new Date(),
+        events: {
+          create: {
+            action: "SENT",
+            metadata: { gmailMessageId },
+          },
+        },
+      },
+    });
+
+    return this.mapToEmailDraft(record);
+  }
+
+  async deleteDraft(userId: string, draftId: string): Promise<void> {
+    await this.prisma.draft.delete({
+      where: { id: draftId, userId },
+    });
+  }
+
+  async findDraftsByUserId(
+    userId: string,
+    status?: DraftStatus
+  ): Promise<EmailDraft[]> {
+    const drafts = await this.prisma.draft.findMany({
+      where: { userId, ...(status && { status }) },
       orderBy: { createdAt: "desc" },
     });
 
     return drafts.map((draft: DraftModel) => this.mapToEmailDraft(draft));
   }
 
+  /**
+   * Emails matching a parsed search, newest first, starting after `cursor`.
+   * Free text goes through the Mongo text index; field operators are
+   * case-insensitive substring matches.
+   */
+  async searchEmails(
+    userId: string,
+    query: ParsedSearchQuery,
+    options: { take: number; cursor?: CursorPosition }
+  ): Promise<EmailMessage[]> {
+    const filter: Record<string, unknown> = { userId: { $oid: userId } };
+    const clauses: Record<string, unknown>[] = [];
+
+    if (query.text.length > 0) {
+      // Quoted terms are ANDed by $text, matching Gmail semantics
+      filter.$text = {
+        $search: query.text
+          .map((term) => `"${term.replace(/"/g, "")}"`)
+          .join(" "),
+      };
+    }
+
+    for (const field of ["from", "to", "subject"] as const) {
+      for (const value of query[field]) {
+        clauses.push({
+          [field]: { $regex: escapeRegExp(value), $options: "i" },
+        });
+      }
+    }
+
+    if (query.isUnread !== undefined) {
+      filter.isUnread = query.isUnread;
+    }
+
+    if (query.before || query.after) {
+      filter.timestamp = {
+        ...(query.after && { $gte: { $date: query.after.toISOString() } }),
+        ...(query.before && { $lt: { $date: query.before.toISOString() } }),
+      };
+    }
+
+    if (query.hasDraft) {
+      const drafts = await this.prisma.draft.findMany({
+        where: { userId, status: { in: ["PENDING", "EDITED", "APPROVED"] } },
+        select: { threadId: true },
+        distinct: ["threadId"],
+      });
+      filter.threadId = {
+        $in: drafts.map((draft) => ({ $oid: draft.threadId })),
+      };
+    }
+
+    if (options.cursor) {
+      const cursorDate = { $date: options.cursor.timestamp.toISOString() };
+      clauses.push({
+        $or: [
+          { timestamp: { $lt: cursorDate } },
+          { timestamp: cursorDate, _id: { $lt: { $oid: options.cursor.id } } },
+        ],
+      });
+    }
+
+    if (clauses.length > 0) {
+      filter.$and = clauses;
+    }
+
+    const rows = (await this.prisma.email.aggregateRaw({
+      pipeline: [
+        { $match: filter as Prisma.InputJsonObject },
+        { $sort: { timestamp: -1, _id: -1 } },
+        { $limit: options.take },
+        { $project: { _id: 1 } },
+      ],
+    })) as unknown as Array<{ _id: { $oid: string } }>;
+
+    const ids = rows.map((row) => row._id.$oid);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const emails = await this.prisma.email.findMany({
+      where: { id: { in: ids } },
+    });
+    const byId = new Map(emails.map((email) => [email.id, email]));
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((email): email is EmailModel => Boolean(email))
+      .map((email) => this.mapToEmailMessage(email));
+  }
+
   private async upsertEmailInternal(
     client: TransactionClient,
     emailData: EmailUpsertInput
@@ -250,9 +762,11 @@ export class EmailRepository {
             to: emailData.to,
             subject: emailData.subject,
             body: emailData.body,
+            quotedText: emailData.quotedText,
             htmlBody: emailData.htmlBody,
             timestamp: emailData.timestamp,
             isUnread: emailData.isUnread,
+            ...(emailData.labelIds && { labelIds: emailData.labelIds }),
           },
         });
       } else {
@@ -265,14 +779,25 @@ export class EmailRepository {
             to: emailData.to,
             subject: emailData.subject,
             body: emailData.body,
+            quotedText: emailData.quotedText,
             htmlBody: emailData.htmlBody,
             timestamp: emailData.timestamp,
             isUnread: emailData.isUnread,
+            labelIds: emailData.labelIds ?? [],
           },
         });
         created = true;
       }
 
+      if (emailData.attachments) {
+        await this.replaceAttachments(
+          client,
+          record.id,
+          emailData.userId,
+          emailData.attachments
+        );
+      }
+
       return {
         gmailId: emailData.gmailId,
         success: true,
@@ -291,7 +816,86 @@ export class EmailRepository {
     }
   }
 
-  private mapToEmailMessage(record: EmailModel): EmailMessage {
+  private async countUnreadByThread(
+    userId: string,
+    threadIds: string[]
+  ): Promise<Map<string, number>> {
+    if (threadIds.length === 0) {
+      return new Map();
+    }
+
+    const groups = await this.prisma.email.groupBy({
+      by: ["threadId"],
+      where: { userId, threadId: { in: threadIds }, isUnread: true },
+      _count: { _all: true },
+    });
+    return new Map(groups.map((group) => [group.threadId, group._count._all]));
+  }
+
+  // A cached summary no longer covers a thread that gained messages
+  private async invalidateThreadSummaries(threadIds: string[]): Promise<void> {
+    if (threadIds.length === 0) return;
+    await this.prisma.threadSummary.deleteMany({
+      where: { threadId: { in: Array.from(new Set(threadIds)) } },
+    });
+  }
+
+  // Keep each thread's lastMessageAt equal to its newest email's timestamp
+  private async refreshThreadActivity(
+    client: TransactionClient,
+    threadIds: string[]
+  ): Promise<void> {
+    for (const threadId of new Set(threadIds)) {
+      const latest = await client.email.findFirst({
+        where: { threadId },
+        orderBy: { timestamp: "desc" },
+        select: { timestamp: true },
+      });
+      if (latest) {
+        await client.thread.update({
+          where: { id: threadId },
+          data: { lastMessageAt: latest.timestamp },
+        });
+      }
+    }
+  }
+
+  // Gmail reissues attachmentIds on every fetch; the part id is the key
+  private async replaceAttachments(
+    client: TransactionClient,
+    emailId: string,
+    userId: string,
+    attachments: GmailAttachment[]
+  ): Promise<void> {
+    await client.attachment.deleteMany({
+      where: {
+        emailId,
+        partId: { notIn: attachments.map((attachment) => attachment.partId) },
+      },
+    });
+
+    for (const attachment of attachments) {
+      const data = {
+        gmailAttachmentId: attachment.attachmentId ?? null,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        contentId: attachment.contentId ?? null,
+        isInline: attachment.isInline,
+      };
+      await client.attachment.upsert({
+        where: { emailId_partId: { emailId, partId: attachment.partId } },
+        create: { emailId, userId, partId: attachment.partId, ...data },
+        update: data,
+      });
+    }
+  }
+
+  private mapToEmailMessage(record: EmailWithAttachments): EmailMessage {
+    // Stored HTML keeps the original remote URLs; blocking happens on read
+    // so rows synced before sanitization existed are covered too
+    const html = record.htmlBody ? sanitizeEmailHtml(record.htmlBody) : null;
+
     return {
       id: record.id,
       gmailId: record.gmailId,
@@ -300,9 +904,45 @@ export class EmailRepository {
       to: record.to,
       subject: record.subject,
       body: record.body,
-      htmlBody: record.htmlBody ?? undefined,
+      quotedText: record.quotedText ?? undefined,
+      htmlBody: html?.html,
+      ...(html && {
+        remoteContentBlocked: html.remoteContentBlocked,
+        trackingPixelsBlocked: html.trackingPixelsBlocked,
+      }),
       timestamp: new Date(record.timestamp),
       isUnread: record.isUnread,
+      labelIds: record.labelIds ?? [],
+      ...(record.attachments && {
+        attachments: record.attachments.map((attachment) =>
+          this.mapToEmailAttachment(attachment)
+        ),
+      }),
+    };
+  }
+
+  private mapToThreadSummary(record: ThreadSummaryModel): ThreadSummary {
+    const content = record.content as unknown as ThreadSummaryContent;
+    return {
+      threadId: record.threadId,
+      tldr: content.tldr,
+      decisions: content.decisions ?? [],
+      openQuestions: content.openQuestions ?? [],
+      actionItems: content.actionItems ?? [],
+      deadlines: content.deadlines ?? [],
+      generatedAt: record.createdAt,
+    };
+  }
+
+  private mapToEmailAttachment(record: AttachmentModel): EmailAttachment {
+    return {
+      id: record.id,
+      emailId: record.emailId,
+      filename: record.filename,
+      mimeType: record.mimeType,
+      size: record.size,
+      contentId: record.contentId ?? undefined,
+      isInline: record.isInline,
     };
   }
 
@@ -324,20 +964,43 @@ export class EmailRepository {
       gmailId: record.gmailId,
       subject: record.subject,
       messages: emails,
+      lastMessageAt: record.lastMessageAt ?? undefined,
       createdAt: new Date(record.createdAt),
       updatedAt: new Date(record.updatedAt),
     };
   }
 
-  private mapToEmailDraft(record: DraftModel): EmailDraft {
+  private mapToEmailDraft(record: DraftWithEvents): EmailDraft {
     return {
       id: record.id,
       threadId: record.threadId,
       content: record.content,
       tone: record.tone ?? undefined,
+      length: (record.length as DraftLength | null) ?? undefined,
+      directness: (record.directness as DraftDirectness | null) ?? undefined,
+      includeGreeting: record.includeGreeting ?? undefined,
+      instruction: record.instruction ?? undefined,
+      variantGroupId: record.variantGroupId ?? undefined,
+      styleProfileVersionId: record.styleProfileVersionId ?? undefined,
       status: record.status as EmailDraft["status"],
+      gmailMessageId: record.gmailMessageId ?? undefined,
+      sentAt: record.sentAt ? new Date(record.sentAt) : undefined,
+      events: record.events?.map((event: DraftEventModel) =>
+        this.mapToDraftEvent(event)
+      ),
       createdAt: new Date(record.createdAt),
       updatedAt: new Date(record.updatedAt),
     };
   }
+
+  private mapToDraftEvent(record: DraftEventModel): DraftEvent {
+    return {
+      id: record.id,
+      draftId: record.draftId,
+      action: record.action as DraftAction,
+      metadata:
+        (record.metadata as Record<string, unknown> | null) ?? undefined,
+      createdAt: new Date(record.createdAt),
+    };
+  }
 }
@@ -0,0 +1,235 @@
+/* eslint-disable import/no-unresolved */
+import type Redis from "ioredis";
+
+import type { Job, JobType } from "../types/index.js";
+
+// Unfinished and dead-lettered jobs stay readable for a week. Succeeded jobs
+// are kept only long enough for polling clients to read the result; the sync
+// loop enqueues one per online user every 30 seconds.
+const JOB_RETENTION_SECONDS = 60 * 60 * 24 * 7;
+const COMPLETED_JOB_RETENTION_SECONDS = 60 * 15;
+const DEAD_LETTER_LIMIT = 1000;
+
+export const JOB_KEYS = {
+  JOB: (jobId: string) => `job:${jobId}`,
+  READY: (type: JobType) => `jobs:${type}:ready`,
+  PROCESSING: (type: JobType) => `jobs:${type}:processing`,
+  DELAYED: "jobs:delayed",
+  DEAD_LETTER: "jobs:dead",
+  DEDUPE: (dedupeKey: string) => `jobs:dedupe:${dedupeKey}`,
+  RERUN: (jobId: string) => `jobs:rerun:${jobId}`,
+};
+
+// ZREM decides the winner when several workers promote the same job; the
+// push runs in the same script so a crash cannot drop the job in between
+const PROMOTE_SCRIPT = `
+if redis.call("ZREM", KEYS[1], ARGV[1]) == 1 then
+  redis.call("LPUSH", KEYS[2], ARGV[1])
+  return 1
+end
+return 0`;
+
+// Flag the holder for one more run, but only while it still holds the key;
+// once released, the caller can claim the key for a new job instead
+const REQUEST_RERUN_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("SET", KEYS[2], "1", "EX", ARGV[2])
+  return 1
+end
+return 0`;
+
+// Delete the key only while this job still holds it. The rerun flag is
+// read and cleared in the same step, so a request lands either before the
+// release (and is returned here) or after it (and claims the key itself).
+const RELEASE_DEDUPE_SCRIPT = `
+local rerun = redis.call("DEL", KEYS[2])
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("DEL", KEYS[1])
+end
+return rerun`;
+
+type StoredJob = Omit<
+  Job,
+  "runAt" | "leaseExpiresAt" | "createdAt" | "updatedAt" | "completedAt"
+> & {
+  runAt: string;
+  leaseExpiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+};
+
+/**
+ * Redis-backed storage for background jobs. Each job type has a ready list
+ * and a processing list; retries wait in a shared sorted set keyed by runAt.
+ */
+export class JobRepository {
+  constructor(private redis: Redis) {}
+
+  async save(job: Job): Promise<void> {
+    await this.redis.setex(
+      JOB_KEYS.JOB(job.id),
+      job.status === "COMPLETED"
+        ? COMPLETED_JOB_RETENTION_SECONDS
+        : JOB_RETENTION_SECONDS,
+      JSON.stringify(job)
+    );
+  }
+
+  async findById(jobId: string): Promise<Job | null> {
+    const raw = await this.redis.get(JOB_KEYS.JOB(jobId));
+    if (!raw) return null;
+
+    try {
+      return this.mapToJob(JSON.parse(raw) as StoredJob);
+    } catch (error) {
+      console.error(`Failed to parse job ${jobId}`, error);
+      return null;
+    }
+  }
+
+  async pushReady(job: Job): Promise<void> {
+    await this.redis.lpush(JOB_KEYS.READY(job.type), job.id);
+  }
+
+  async schedule(job: Job): Promise<void> {
+    await this.redis.zadd(JOB_KEYS.DELAYED, job.runAt.getTime(), job.id);
+  }
+
+  /**
+   * Atomically move the oldest ready job of a type onto its processing list.
+   */
+  async claimNext(type: JobType): Promise<string | null> {
+    return this.redis.rpoplpush(
+      JOB_KEYS.READY(type),
+      JOB_KEYS.PROCESSING(type)
+    );
+  }
+
+  async releaseProcessing(type: JobType, jobId: string): Promise<void> {
+    await this.redis.lrem(JOB_KEYS.PROCESSING(type), 1, jobId);
+  }
+
+  async listProcessing(type: JobType): Promise<string[]> {
+    return this.redis.lrange(JOB_KEYS.PROCESSING(type), 0, -1);
+  }
+
+  async requeueProcessing(type: JobType, jobId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .lrem(JOB_KEYS.PROCESSING(type), 1, jobId)
+      .lpush(JOB_KEYS.READY(type), jobId)
+      .exec();
+  }
+
+  /**
+   * Move delayed jobs whose runAt has passed onto their ready lists.
+   */
+  async promoteDue(now: Date, limit: number = 100): Promise<number> {
+    const dueIds = await this.redis.zrangebyscore(
+      JOB_KEYS.DELAYED,
+      "-inf",
+      now.getTime(),
+      "LIMIT",
+      0,
+      limit
+    );
+
+    let promoted = 0;
+    for (const jobId of dueIds) {
+      const job = await this.findById(jobId);
+      if (!job) {
+        // The job expired while it waited; nothing is left to run
+        await this.redis.zrem(JOB_KEYS.DELAYED, jobId);
+        continue;
+      }
+
+      const moved = await this.redis.eval(
+        PROMOTE_SCRIPT,
+        2,
+        JOB_KEYS.DELAYED,
+        JOB_KEYS.READY(job.type),
+        jobId
+      );
+      promoted += Number(moved);
+    }
+    return promoted;
+  }
+
+  async pushDeadLetter(jobId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .lpush(JOB_KEYS.DEAD_LETTER, jobId)
+      .ltrim(JOB_KEYS.DEAD_LETTER, 0, DEAD_LETTER_LIMIT - 1)
+      .exec();
+  }
+
+  async listDeadLetter(limit: number = 50): Promise<string[]> {
+    return this.redis.lrange(JOB_KEYS.DEAD_LETTER, 0, limit - 1);
+  }
+
+  /**
+   * Reserve a dedupe key for a job. Returns false when another unfinished
+   * job already holds it.
+   */
+  async claimDedupe(dedupeKey: string, jobId: string): Promise<boolean> {
+    const result = await this.redis.set(
+      JOB_KEYS.DEDUPE(dedupeKey),
+      jobId,
+      "EX",
+      JOB_RETENTION_SECONDS,
+      "NX"
+    );
+    return result === "OK";
+  }
+
+  async getDedupeHolder(dedupeKey: string): Promise<string | null> {
+    return this.redis.get(JOB_KEYS.DEDUPE(dedupeKey));
+  }
+
+  /**
+   * Ask the job holding a dedupe key to run once more after it finishes.
+   * Returns false when the job no longer holds the key.
+   */
+  async requestRerun(dedupeKey: string, jobId: string): Promise<boolean> {
+    const flagged = await this.redis.eval(
+      REQUEST_RERUN_SCRIPT,
+      2,
+      JOB_KEYS.DEDUPE(dedupeKey),
+      JOB_KEYS.RERUN(jobId),
+      jobId,
+      JOB_RETENTION_SECONDS
+    );
+    return Number(flagged) === 1;
+  }
+
+  /**
+   * Release a job's dedupe key and clear its rerun flag. Returns true when
+   * a rerun had been requested.
+   */
+  async releaseDedupe(dedupeKey: string, jobId: string): Promise<boolean> {
+    const rerun = await this.redis.eval(
+      RELEASE_DEDUPE_SCRIPT,
+      2,
+      JOB_KEYS.DEDUPE(dedupeKey),
+      JOB_KEYS.RERUN(jobId),
+      jobId
+    );
+    return Number(rerun) === 1;
+  }
+
+  private mapToJob(stored: StoredJob): Job {
+    return {
+      ...stored,
+      runAt: new Date(stored.runAt),
+      leaseExpiresAt: stored.leaseExpiresAt
+        ? new Date(stored.leaseExpiresAt)
+        : undefined,
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+      completedAt: stored.completedAt
+        ? new Date(stored.completedAt)
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/* eslint-disable import/no-unresolved */
+import { PrismaClient, Label as LabelModel } from "@prisma/client";
+
+import { GmailLabel, MailLabel } from "../types/index.js";
+
+export class LabelRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<MailLabel[]> {
+    const labels = await this.prisma.label.findMany({
+      where: { userId },
+      orderBy: [{ type: "asc" }, { name: "asc" }],
+    });
+
+    return labels.map((label: LabelModel) => this.mapToMailLabel(label));
+  }
+
+  async findByGmailIds(
+    userId: string,
+    gmailIds: string[]
+  ): Promise<MailLabel[]> {
+    if (gmailIds.length === 0) {
+      return [];
+    }
+
+    const labels = await this.prisma.label.findMany({
+      where: { userId, gmailId: { in: gmailIds } },
+    });
+
+    return labels.map((label: LabelModel) => this.mapToMailLabel(label));
+  }
+
+  /**
+   * Make the local labels match Gmail's list: upsert every label Gmail
+   * returned and drop the ones it no longer has.
+   */
+  async replaceForUser(
+    userId: string,
+    labels: GmailLabel[]
+  ): Promise<MailLabel[]> {
+    await this.prisma.$transaction(async (tx) => {
+      for (const label of labels) {
+        await tx.label.upsert({
+          where: { userId_gmailId: { userId, gmailId: label.id } },
+          create: {
+            userId,
+            gmailId: label.id,
+            name: label.name,
+            type: label.type,
+            color: label.color,
+          },
+          update: {
+            name: label.name,
+            type: label.type,
+            color: label.color ?? null,
+          },
+        });
+      }
+
+      await tx.label.deleteMany({
+        where: { userId, gmailId: { notIn: labels.map((label) => label.id) } },
+      });
+    });
+
+    return this.findByUserId(userId);
+  }
+
+  private mapToMailLabel(record: LabelModel): MailLabel {
+    return {
+      id: record.id,
+      gmailId: record.gmailId,
+      name: record.name,
+      type: record.type,
+      color: record.color ?? undefined,
+    };
+  }
+}
@@ -1,13 +1,24 @@
 /* eslint-disable import/no-unresolved */
-import { PrismaClient, Prisma, User as PrismaUser } from "@prisma/client";
+import {
+  PrismaClient,
+  Prisma,
+  User as PrismaUser,
+  StyleProfileVersion as StyleProfileVersionModel,
+} from "@prisma/client";
 
 import type {
   User,
   AuthTokens,
   OnboardingStatus,
   AIStyleProfile,
+  CurrentStyleProfile,
+  StyleProfileSource,
+  StyleProfileVersion,
+  SyncState,
 } from "../types/index.js";
 import { tryEncrypt, tryDecrypt } from "../utils/encryption.js";
+import { ConflictError } from "../utils/errors.js";
+import { isObjectId } from "../utils/helpers.js";
 
 export class UserRepository {
   constructor(private prisma: PrismaClient) {}
@@ -88,6 +99,23 @@ export class UserRepository {
       data: {
         accessToken: null,
         refreshToken: null,
+        tokenExpiresAt: null,
+      },
+    });
+  }
+
+  /**
+   * Drop credentials Google has revoked and flag the account so the client
+   * prompts the user to connect Gmail again.
+   */
+  async markGmailReconnectRequired(firebaseUid: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { firebaseUid },
+      data: {
+        accessToken: null,
+        refreshToken: null,
+        tokenExpiresAt: null,
+        onboardingStatus: "GMAIL_RECONNECT_REQUIRED",
       },
     });
   }
@@ -105,14 +133,24 @@ export class UserRepository {
 
       const userId = user.id;
 
+      await tx.syncState.deleteMany({ where: { userId } });
+      await tx.label.deleteMany({ where: { userId } });
       await tx.draft.deleteMany({ where: { userId } });
+      await tx.attachment.deleteMany({ where: { userId } });
       await tx.email.deleteMany({ where: { userId } });
       await tx.thread.deleteMany({ where: { userId } });
     });
   }
 
-  async storeTokens(firebaseUid: string, tokens: AuthTokens): Promise<void> {
-    const updateData: Record<string, string | Date | boolean | undefined> = {};
+  async storeTokens(
+    firebaseUid: string,
+    tokens: AuthTokens,
+    options: { markActive?: boolean } = {}
+  ): Promise<void> {
+    const updateData: Record<
+      string,
+      string | Date | boolean | null | undefined
+    > = {};
 
     if (tokens.accessToken) {
       updateData.accessToken = tryEncrypt(tokens.accessToken);
@@ -122,9 +160,17 @@ export class UserRepository {
       updateData.refreshToken = tryEncrypt(tokens.refreshToken);
     }
 
-    // Refresh lastActive and mark user online when we store tokens
-    updateData.lastActive = new Date();
-    updateData.isOnline = true;
+    if (tokens.accessToken) {
+      // An access token without a known expiry must not keep a stale one
+      updateData.tokenExpiresAt = tokens.expiresAt ?? null;
+    }
+
+    // Refresh lastActive and mark user online when we store tokens, unless
+    // this is a background refresh the user did not trigger
+    if (options.markActive ?? true) {
+      updateData.lastActive = new Date();
+      updateData.isOnline = true;
+    }
 
     if (Object.keys(updateData).length > 0) {
       await this.prisma.user.update({
@@ -140,6 +186,7 @@ export class UserRepository {
       select: {
         accessToken: true,
         refreshToken: true,
+        tokenExpiresAt: true,
       },
     });
 
@@ -148,6 +195,7 @@ export class UserRepository {
     return {
       accessToken: tryDecrypt(user.accessToken ?? undefined),
       refreshToken: tryDecrypt(user.refreshToken ?? undefined),
+      expiresAt: user.tokenExpiresAt ?? undefined,
     };
   }
 
@@ -161,16 +209,97 @@ export class UserRepository {
     });
   }
 
+  /**
+   * Save a profile as the user's next version and make it current. The
+   * unique (userId, version) index turns a concurrent save into a
+   * ConflictError instead of two versions with the same number. A profile
+   * saved before versioning existed is recorded as v1 first.
+   */
   async storeStyleProfile(
     firebaseUid: string,
-    profile: unknown
+    profile: AIStyleProfile,
+    source: StyleProfileSource,
+    options: { restoredFromVersion?: number } = {}
+  ): Promise<StyleProfileVersion> {
+    try {
+      const record = await this.prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUnique({
+          where: { firebaseUid },
+          select: { id: true, aiStyleProfile: true },
+        });
+        if (!user) {
+          throw new Error(`User ${firebaseUid} not found`);
+        }
+
+        const latest = await tx.styleProfileVersion.findFirst({
+          where: { userId: user.id },
+          orderBy: { version: "desc" },
+          select: { version: true },
+        });
+        let version = latest?.version ?? 0;
+        if (!latest && user.aiStyleProfile) {
+          await tx.styleProfileVersion.create({
+            data: {
+              userId: user.id,
+              version: ++version,
+              source: "QUESTIONNAIRE",
+              content: user.aiStyleProfile as Prisma.InputJsonValue,
+            },
+          });
+        }
+
+        const created = await tx.styleProfileVersion.create({
+          data: {
+            userId: user.id,
+            version: version + 1,
+            source,
+            content: profile as unknown as Prisma.InputJsonValue,
+            restoredFromVersion: options.restoredFromVersion,
+          },
+        });
+        await tx.user.update({
+          where: { id: user.id },
+          data: {
+            aiStyleProfile: profile as unknown as Prisma.InputJsonValue,
+          },
+        });
+        return created;
+      });
+
+      return this.mapToStyleProfileVersion(record);
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new ConflictError(
+          "Style profile was changed by another request; try again"
+        );
+      }
+      throw error;
+    }
+  }
+
+  async storeQuestionnaire(
+    firebaseUid: string,
+    questionnaireData: Record<string, unknown>
   ): Promise<void> {
     await this.prisma.user.update({
       where: { firebaseUid },
-      data: { aiStyleProfile: profile as Prisma.JsonValue },
+      data: {
+        questionnaireData: questionnaireData as Prisma.InputJsonValue,
+        onboardingStatus: "QUESTIONNAIRE_COMPLETED",
+      },
     });
   }
 
+  async getQuestionnaire(
+    firebaseUid: string
+  ): Promise<Record<string, unknown> | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { firebaseUid },
+      select: { questionnaireData: true },
+    });
+    return (user?.questionnaireData as Record<string, unknown> | null) ?? null;
+  }
+
   async getStyleProfile(firebaseUid: string): Promise<AIStyleProfile | null> {
     const user = await this.prisma.user.findUnique({
       where: { firebaseUid },
@@ -179,6 +308,153 @@ export class UserRepository {
     return (user?.aiStyleProfile as AIStyleProfile | null) || null;
   }
 
+  async getCurrentStyleProfile(
+    firebaseUid: string
+  ): Promise<CurrentStyleProfile | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { firebaseUid },
+      select: { id: true, aiStyleProfile: true },
+    });
+    if (!user?.aiStyleProfile) {
+      return null;
+    }
+
+    const latest =
+      (await this.prisma.styleProfileVersion.findFirst({
+        where: { userId: user.id },
+        orderBy: { version: "desc" },
+        select: { id: true, version: true },
+      })) ??
+      (await this.backfillStyleProfileVersion(user.id, user.aiStyleProfile));
+    return {
+      profile: user.aiStyleProfile as unknown as AIStyleProfile,
+      versionId: latest.id,
+      version: latest.version,
+    };
+  }
+
+  // Newest first
+  async listStyleProfileVersions(
+    userId: string,
+    limit: number
+  ): Promise<StyleProfileVersion[]> {
+    const records = await this.prisma.styleProfileVersion.findMany({
+      where: { userId },
+      orderBy: { version: "desc" },
+      take: limit,
+    });
+    if (records.length === 0) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { aiStyleProfile: true },
+      });
+      if (user?.aiStyleProfile) {
+        const backfilled = await this.backfillStyleProfileVersion(
+          userId,
+          user.aiStyleProfile
+        );
+        return [this.mapToStyleProfileVersion(backfilled)];
+      }
+    }
+    return records.map((record: StyleProfileVersionModel) =>
+      this.mapToStyleProfileVersion(record)
+    );
+  }
+
+  async findStyleProfileVersion(
+    userId: string,
+    versionId: string
+  ): Promise<StyleProfileVersion | null> {
+    // A malformed id would make Prisma throw rather than match nothing
+    if (!isObjectId(versionId)) {
+      return null;
+    }
+    const record = await this.prisma.styleProfileVersion.findFirst({
+      where: { id: versionId, userId },
+    });
+    return record ? this.mapToStyleProfileVersion(record) : null;
+  }
+
+  async getSyncState(userId: string): Promise<SyncState | null> {
+    const state = await this.prisma.syncState.findUnique({
+      where: { userId },
+    });
+
+    if (!state) return null;
+
+    return {
+      historyId: state.historyId ?? undefined,
+      lastFullSyncAt: state.lastFullSyncAt ?? undefined,
+      lastSyncedAt: state.lastSyncedAt ?? undefined,
+      watchExpiration: state.watchExpiration ?? undefined,
+    };
+  }
+
+  async findFirebaseUidsWithWatchExpiringBefore(
+    cutoff: Date
+  ): Promise<string[]> {
+    const states = await this.prisma.syncState.findMany({
+      where: { watchExpiration: { lt: cutoff } },
+      select: { user: { select: { firebaseUid: true } } },
+    });
+
+    return states.map(
+      (state: { user: { firebaseUid: string } }) => state.user.firebaseUid
+    );
+  }
+
+  async updateSyncState(
+    userId: string,
+    updates: Partial<SyncState>
+  ): Promise<void> {
+    await this.prisma.syncState.upsert({
+      where: { userId },
+      create: { userId, ...updates },
+      update: updates,
+    });
+  }
+
+  /**
+   * Record a profile saved before versioning existed as the user's v1. If a
+   * concurrent request got there first, its v1 is returned instead.
+   */
+  private async backfillStyleProfileVersion(
+    userId: string,
+    profile: Prisma.JsonValue
+  ): Promise<StyleProfileVersionModel> {
+    try {
+      return await this.prisma.styleProfileVersion.create({
+        data: {
+          userId,
+          version: 1,
+          source: "QUESTIONNAIRE",
+          content: profile as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      const existing = isUniqueConstraintError(error)
+        ? await this.prisma.styleProfileVersion.findFirst({
+            where: { userId, version: 1 },
+          })
+        : null;
+      if (!existing) throw error;
+      return existing;
+    }
+  }
+
+  private mapToStyleProfileVersion(
+    record: StyleProfileVersionModel
+  ): StyleProfileVersion {
+    return {
+      id: record.id,
+      version: record.version,
+      source: record.source,
+      profile: record.content as unknown as AIStyleProfile,
+      restoredFromVersion: record.restoredFromVersion ?? undefined,
+      createdAt: new Date(record.createdAt),
+    };
+  }
+
   private mapToUser(dbUser: PrismaUser): User {
     return {
       id: dbUser.id,
@@ -194,3 +470,10 @@ export class UserRepository {
     };
   }
 }
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
@@ -1,4 +1,4 @@
-import { createApp, backgroundService } from "./app";
+import { createApp, backgroundService, jobQueueService } from "./app";
 import config from "./config/index";
 
 async function startServer() {
@@ -9,7 +9,10 @@ async function startServer() {
     await app.listen({ port: config.port, host: "0.0.0.0" });
     app.log.info(`🚀 Server running on port ${config.port}`);
 
-    // Start the background service
+    // Start job workers, then the scheduler that feeds them
+    jobQueueService.start();
+    app.log.info("🧵 Job queue started");
+
     backgroundService.start();
     app.log.info("🔄 Background service started");
   } catch (error) {
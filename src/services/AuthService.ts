@@ -1,16 +1,22 @@
 import { GmailIntegration } from "../integrations/GmailIntegration";
 import { UserRepository } from "../repositories/UserRepository";
-import { User, FirebaseUser } from "../types";
+import { AuthTokens, User, FirebaseUser } from "../types";
 import {
+  GmailReconnectRequiredError,
   ServiceResult,
   createSuccessResult,
   handleServiceError,
 } from "../utils/errors";
 
+import { GmailPushService } from "./GmailPushService";
+import { GmailTokenManager } from "./GmailTokenManager";
+
 export class AuthService {
   constructor(
     private userRepository: UserRepository,
-    private gmailIntegration: GmailIntegration
+    private gmailIntegration: GmailIntegration,
+    private gmailPushService: GmailPushService,
+    private tokenManager: GmailTokenManager
   ) {}
 
   async registerOrLoginUser(firebaseUser: FirebaseUser): Promise<
@@ -44,10 +50,13 @@ export class AuthService {
         await this.userRepository.updateLastActive(firebaseUser.firebaseUid);
       }
 
-      // Check Gmail authentication status
-      const tokens = await this.userRepository.getTokens(
+      // Check Gmail authentication status, refreshing expired tokens first
+      const { tokens, reconnectRequired } = await this.loadGmailTokens(
         firebaseUser.firebaseUid
       );
+      if (reconnectRequired) {
+        user = { ...user, onboardingStatus: "GMAIL_RECONNECT_REQUIRED" };
+      }
       // Treat presence of an access token as potentially valid; refresh token is optional
       const hasAccessToken = Boolean(tokens?.accessToken);
 
@@ -55,6 +64,7 @@ export class AuthService {
       if (hasAccessToken) {
         // Validate by hitting Gmail API; if it works, we don't need Gmail auth
         const safeTokens = {
+          firebaseUid: firebaseUser.firebaseUid,
           accessToken: tokens?.accessToken,
           refreshToken: tokens?.refreshToken,
         };
@@ -93,19 +103,24 @@ export class AuthService {
     }>
   > {
     try {
-      const user = await this.userRepository.findByFirebaseUid(firebaseUid);
+      let user = await this.userRepository.findByFirebaseUid(firebaseUid);
       if (!user) {
         return { success: false, error: "User not found" };
       }
 
-      // Check Gmail tokens
-      const tokens = await this.userRepository.getTokens(firebaseUid);
+      // Check Gmail tokens, refreshing expired ones first
+      const { tokens, reconnectRequired } =
+        await this.loadGmailTokens(firebaseUid);
+      if (reconnectRequired) {
+        user = { ...user, onboardingStatus: "GMAIL_RECONNECT_REQUIRED" };
+      }
       // Access token alone is acceptable; validate when present
       const hasAccessToken = Boolean(tokens?.accessToken);
 
       let hasValidGmailAuth = false;
       if (hasAccessToken) {
         const safeTokens = {
+          firebaseUid,
           accessToken: tokens?.accessToken,
           refreshToken: tokens?.refreshToken,
         };
@@ -150,12 +165,29 @@ export class AuthService {
         return { success: false, error: "Failed to obtain access token" };
       }
 
+      const user = await this.userRepository.findByFirebaseUid(firebaseUid);
       await this.userRepository.storeTokens(firebaseUid, tokens);
+      // A new grant replaces whatever the pooled client still holds
+      this.gmailIntegration.releaseClient(firebaseUid);
+
+      // Reconnecting after a revoked grant returns onboarded users to where
+      // they were instead of restarting onboarding
+      const hasProfile =
+        user?.onboardingStatus === "GMAIL_RECONNECT_REQUIRED" &&
+        Boolean(await this.userRepository.getStyleProfile(firebaseUid));
       await this.userRepository.updateOnboardingStatus(
         firebaseUid,
-        "GMAIL_CONNECTED"
+        hasProfile ? "ACTIVE" : "GMAIL_CONNECTED"
       );
 
+      // Push notifications are best-effort; polling still covers the user
+      const watch = await this.gmailPushService.registerWatch(firebaseUid);
+      if (!watch.success) {
+        console.warn(
+          `Gmail watch registration skipped for ${firebaseUid}: ${watch.error}`
+        );
+      }
+
       return createSuccessResult(undefined);
     } catch (error) {
       return handleServiceError(error);
@@ -166,10 +198,25 @@ export class AuthService {
     try {
       await this.userRepository.setOffline(firebaseUid);
       await this.userRepository.clearTokens(firebaseUid);
+      this.gmailIntegration.releaseClient(firebaseUid);
       await this.userRepository.purgeUserData(firebaseUid);
       return createSuccessResult(undefined);
     } catch (error) {
       return handleServiceError(error);
     }
   }
+
+  private async loadGmailTokens(
+    firebaseUid: string
+  ): Promise<{ tokens: AuthTokens | null; reconnectRequired: boolean }> {
+    try {
+      const tokens = await this.tokenManager.getValidTokens(firebaseUid);
+      return { tokens, reconnectRequired: false };
+    } catch (error) {
+      if (error instanceof GmailReconnectRequiredError) {
+        return { tokens: null, reconnectRequired: true };
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,253 @@
+/* eslint-disable import/no-unresolved */
+import { EmailRepository } from "../repositories/EmailRepository";
+import { UserRepository } from "../repositories/UserRepository";
+import { DraftStatus, EmailDraft, User } from "../types";
+import {
+  ALLOWED_SOURCE_STATUSES,
+  DRAFT_ACTION_STATUS,
+  DraftTransitionAction,
+  canApplyDraftAction,
+  canDeleteDraft,
+  summarizeDraftEdit,
+} from "../utils/drafts";
+import {
+  ConflictError,
+  NotFoundError,
+  ServiceResult,
+  ValidationError,
+  createErrorResult,
+  createSuccessResult,
+  handleServiceError,
+} from "../utils/errors";
+
+import { EventService } from "./EventService";
+
+const DRAFT_ACTION_VERB: Record<DraftTransitionAction, string> = {
+  EDITED: "edit",
+  APPROVED: "approve",
+  REJECTED: "reject",
+  SENT: "send",
+};
+
+export class DraftService {
+  constructor(
+    private emailRepository: EmailRepository,
+    private userRepository: UserRepository,
+    private eventService: EventService
+  ) {}
+
+  async getDrafts(
+    firebaseUid: string,
+    status?: DraftStatus
+  ): Promise<ServiceResult<EmailDraft[]>> {
+    return this.executeWithUser<EmailDraft[]>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        const drafts = await this.emailRepository.findDraftsByUserId(
+          user.id,
+          status
+        );
+        return createSuccessResult(drafts);
+      }
+    );
+  }
+
+  async getDraft(
+    firebaseUid: string,
+    draftId: string
+  ): Promise<ServiceResult<EmailDraft>> {
+    return this.executeWithUser<EmailDraft>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        const draft = await this.loadDraft(user, draftId, true);
+        return createSuccessResult(draft);
+      }
+    );
+  }
+
+  async editDraft(
+    firebaseUid: string,
+    draftId: string,
+    content: string
+  ): Promise<ServiceResult<EmailDraft>> {
+    return this.executeWithUser<EmailDraft>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        if (!content.trim()) {
+          throw new ValidationError("Draft content is required");
+        }
+
+        const draft = await this.loadDraft(user, draftId);
+        this.assertTransition(draft, "EDITED");
+
+        const updated = await this.applyTransition(
+          user,
+          draft,
+          "EDITED",
+          { content },
+          {
+            previousStatus: draft.status,
+            ...summarizeDraftEdit(draft.content, content),
+          }
+        );
+
+        await this.publishStatusChange(firebaseUid, updated, draft.status);
+        return createSuccessResult(updated);
+      }
+    );
+  }
+
+  async approveDraft(
+    firebaseUid: string,
+    draftId: string
+  ): Promise<ServiceResult<EmailDraft>> {
+    return this.executeWithUser<EmailDraft>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        const draft = await this.loadDraft(user, draftId);
+        this.assertTransition(draft, "APPROVED");
+
+        const updated = await this.applyTransition(
+          user,
+          draft,
+          "APPROVED",
+          {},
+          { previousStatus: draft.status }
+        );
+
+        await this.publishStatusChange(firebaseUid, updated, draft.status);
+        return createSuccessResult(updated);
+      }
+    );
+  }
+
+  async rejectDraft(
+    firebaseUid: string,
+    draftId: string,
+    reason?: string
+  ): Promise<ServiceResult<EmailDraft>> {
+    return this.executeWithUser<EmailDraft>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        const draft = await this.loadDraft(user, draftId);
+        this.assertTransition(draft, "REJECTED");
+
+        const updated = await this.applyTransition(
+          user,
+          draft,
+          "REJECTED",
+          {},
+          {
+            previousStatus: draft.status,
+            reason: reason?.trim() || null,
+          }
+        );
+
+        await this.publishStatusChange(firebaseUid, updated, draft.status);
+        return createSuccessResult(updated);
+      }
+    );
+  }
+
+  async deleteDraft(
+    firebaseUid: string,
+    draftId: string
+  ): Promise<ServiceResult<void>> {
+    return this.executeWithUser<void>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        const draft = await this.loadDraft(user, draftId);
+        if (!canDeleteDraft(draft.status)) {
+          throw new ConflictError("Sent drafts cannot be deleted");
+        }
+
+        await this.emailRepository.deleteDraft(user.id, draft.id);
+        await this.eventService.publish(firebaseUid, "draft_status_changed", {
+          draftId: draft.id,
+          threadId: draft.threadId,
+          previousStatus: draft.status,
+          status: null,
+          deleted: true,
+        });
+        return createSuccessResult(undefined);
+      }
+    );
+  }
+
+  private async loadDraft(
+    user: User,
+    draftId: string,
+    includeEvents: boolean = false
+  ): Promise<EmailDraft> {
+    const draft = await this.emailRepository.findDraftById(user.id, draftId, {
+      includeEvents,
+    });
+    if (!draft) {
+      throw new NotFoundError("Draft not found");
+    }
+    return draft;
+  }
+
+  private assertTransition(
+    draft: EmailDraft,
+    action: DraftTransitionAction
+  ): void {
+    if (!canApplyDraftAction(draft.status, action)) {
+      throw new ConflictError(
+        `Cannot ${DRAFT_ACTION_VERB[action]} a draft that is ${draft.status.toLowerCase()}`
+      );
+    }
+  }
+
+  // assertTransition only reports on the status that was read; the write
+  // itself is conditional on the draft still being in a source status
+  private async applyTransition(
+    user: User,
+    draft: EmailDraft,
+    action: DraftTransitionAction,
+    changes: { content?: string },
+    metadata: Record<string, unknown>
+  ): Promise<EmailDraft> {
+    const updated = await this.emailRepository.applyDraftAction(
+      user.id,
+      draft.id,
+      ALLOWED_SOURCE_STATUSES[action],
+      { status: DRAFT_ACTION_STATUS[action], ...changes },
+      { action, metadata }
+    );
+    if (!updated) {
+      throw new ConflictError(
+        `Cannot ${DRAFT_ACTION_VERB[action]} a draft that was changed by another request`
+      );
+    }
+    return updated;
+  }
+
+  private async publishStatusChange(
+    firebaseUid: string,
+    draft: EmailDraft,
+    previousStatus: DraftStatus
+  ): Promise<void> {
+    await this.eventService.publish(firebaseUid, "draft_status_changed", {
+      draftId: draft.id,
+      threadId: draft.threadId,
+      previousStatus,
+      status: draft.status,
+    });
+  }
+
+  private async executeWithUser<T>(
+    firebaseUid: string,
+    action: (context: { user: User }) => Promise<ServiceResult<T>>
+  ): Promise<ServiceResult<T>> {
+    try {
+      const user = await this.userRepository.findByFirebaseUid(firebaseUid);
+      if (!user) {
+        return createErrorResult<T>("User not found");
+      }
+      return await action({ user });
+    } catch (error) {
+      return handleServiceError<T>(error);
+    }
+  }
+}
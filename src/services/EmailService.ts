@@ -1,66 +1,385 @@
 /* eslint-disable import/no-unresolved */
+import { randomUUID } from "crypto";
+
+import { AIIntegration } from "../integrations/AIIntegration";
 import { GmailIntegration } from "../integrations/GmailIntegration";
-import { VertexAIIntegration } from "../integrations/VertexAIIntegration";
+import { CacheManager } from "../lib/cache";
 import {
   EmailBatchUpsertResult,
   EmailRepository,
   EmailUpsertInput,
 } from "../repositories/EmailRepository";
+import { LabelRepository } from "../repositories/LabelRepository";
 import { UserRepository } from "../repositories/UserRepository";
 import {
+  AttachmentContent,
+  ComposeEmailInput,
+  ComposeGenerationContext,
+  ComposedDraft,
+  CurrentStyleProfile,
+  CursorPage,
+  DraftControls,
+  EmailMessage,
+  EmailSearchHit,
   EmailThread,
+  EmailThreadSummary,
   EmailDraft,
   EmailGenerationContext,
   AIStyleProfile,
   User,
-  AuthTokens,
+  GmailCredentials,
+  EmailSyncReport,
+  GmailMessage,
+  MailLabel,
+  ReplyOptions,
+  SearchHighlight,
+  ThreadAction,
+  ThreadLabelChange,
+  ThreadListFilters,
+  ThreadSummary,
 } from "../types";
 import {
+  extractAttachmentText,
+  isTextExtractable,
+} from "../utils/attachmentText";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import {
+  ALLOWED_SOURCE_STATUSES,
+  MAX_DRAFT_VARIANTS,
+  canApplyDraftAction,
+  toDraftTone,
+} from "../utils/drafts";
+import {
+  ConflictError,
+  ExternalServiceError,
+  NotFoundError,
   ServiceResult,
+  SyncCursorExpiredError,
+  ValidationError,
   createErrorResult,
   createSuccessResult,
   handleServiceError,
 } from "../utils/errors";
+import { escapeHtml } from "../utils/helpers";
+import { textToHtml } from "../utils/html";
+import {
+  assertValidRecipients,
+  buildReplyRecipients,
+} from "../utils/recipients";
+import {
+  ParsedSearchQuery,
+  highlightMatches,
+  parseSearchQuery,
+} from "../utils/searchQuery";
+
+import { EventService } from "./EventService";
+import { GmailTokenManager } from "./GmailTokenManager";
+
+// Messages carrying these labels are not mirrored locally
+const HIDDEN_SYNC_LABELS = ["TRASH", "SPAM", "DRAFT"];
+
+// Newest inbox messages a full sync (the bootstrap, or the resync after an
+// expired history cursor) fetches; older inbox mail is not mirrored
+const FULL_SYNC_MESSAGE_LIMIT = 500;
+
+// Gmail system labels behind each thread action
+const THREAD_ACTION_CHANGES: Record<ThreadAction, ThreadLabelChange> = {
+  read: { removeLabelIds: ["UNREAD"] },
+  unread: { addLabelIds: ["UNREAD"] },
+  star: { addLabelIds: ["STARRED"] },
+  unstar: { removeLabelIds: ["STARRED"] },
+  archive: { removeLabelIds: ["INBOX"] },
+  trash: { addLabelIds: ["TRASH"], removeLabelIds: ["INBOX"] },
+};
+
+// Attachment texts included in draft generation context
+const MAX_DRAFT_ATTACHMENTS = 3;
+
+// Gmail rejects messages over 25MB; leave room for the base64 overhead
+const MAX_FORWARD_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+const THREAD_PAGE_DEFAULT_LIMIT = 25;
+const SEARCH_DEFAULT_LIMIT = 20;
+const MAX_PAGE_SIZE = 100;
+
+const clampPageSize = (limit: number | undefined, fallback: number) =>
+  Math.min(Math.max(limit ?? fallback, 1), MAX_PAGE_SIZE);
 
 type ThreadPayload = {
   thread: EmailThread;
   upsertErrors?: Array<{ gmailId: string; error: string }>;
 };
 
+type ThreadActionPayload = {
+  threadId: string;
+  // True once the thread left the local mirror, e.g. after trash
+  removed: boolean;
+  thread?: EmailThread | null;
+};
+
+type SentDraftPayload = {
+  draft: EmailDraft;
+  gmailMessageId: string;
+  upsertErrors?: Array<{ gmailId: string; error: string }>;
+};
+
+type RegeneratedDraftPayload = {
+  draft: EmailDraft;
+  // Every draft in the group, the new one included, oldest first
+  variants: EmailDraft[];
+};
+
+type ReplyEnvelope = {
+  gmailThreadId: string;
+  to: string;
+  subject: string;
+  inReplyTo?: string;
+  references: string[];
+  // Newest message in the thread, the one being answered or forwarded
+  latest: GmailMessage;
+};
+
 export class EmailService {
   constructor(
     private emailRepository: EmailRepository,
     private userRepository: UserRepository,
     private gmailIntegration: GmailIntegration,
-    private vertexAIIntegration: VertexAIIntegration
+    private aiIntegration: AIIntegration,
+    private eventService: EventService,
+    private tokenManager: GmailTokenManager,
+    private labelRepository: LabelRepository
   ) {}
 
   async getThreads(
     firebaseUid: string,
-    limit: number = 25
-  ): Promise<ServiceResult<EmailThread[]>> {
-    return this.executeWithUser<EmailThread[]>(
+    options: {
+      cursor?: string;
+      limit?: number;
+      filters?: ThreadListFilters;
+    } = {}
+  ): Promise<ServiceResult<CursorPage<EmailThreadSummary>>> {
+    return this.executeWithUser<CursorPage<EmailThreadSummary>>(
       firebaseUid,
       async ({ user }: { user: User }) => {
-        const threads = await this.emailRepository.findThreadsByUserId(
+        const limit = clampPageSize(options.limit, THREAD_PAGE_DEFAULT_LIMIT);
+        const cursor = options.cursor
+          ? decodeCursor(options.cursor)
+          : undefined;
+
+        if (!cursor) {
+          await this.emailRepository.backfillThreadActivity(user.id);
+        }
+
+        const threads = await this.emailRepository.findThreadsPage(
+          user.id,
+          options.filters ?? {},
+          { take: limit + 1, cursor }
+        );
+        const page = threads.slice(0, limit);
+        const last = page[page.length - 1];
+
+        return createSuccessResult({
+          items: page,
+          limit,
+          nextCursor:
+            threads.length > limit && last?.lastMessageAt
+              ? encodeCursor({ timestamp: last.lastMessageAt, id: last.id })
+              : null,
+        });
+      }
+    );
+  }
+
+  async applyThreadAction(
+    firebaseUid: string,
+    threadId: string,
+    action: ThreadAction
+  ): Promise<ServiceResult<ThreadActionPayload>> {
+    return this.executeWithUserAndTokens<ThreadActionPayload>(
+      firebaseUid,
+      "any",
+      async ({ user, tokens }) => {
+        const result = await this.modifyThreadLabels(
+          user,
+          tokens,
+          threadId,
+          THREAD_ACTION_CHANGES[action]
+        );
+        return createSuccessResult(result);
+      }
+    );
+  }
+
+  /**
+   * Apply and remove the user's own Gmail labels on a thread. System labels
+   * only change through the dedicated thread actions.
+   */
+  async updateThreadLabels(
+    firebaseUid: string,
+    threadId: string,
+    change: ThreadLabelChange
+  ): Promise<ServiceResult<ThreadActionPayload>> {
+    return this.executeWithUserAndTokens<ThreadActionPayload>(
+      firebaseUid,
+      "any",
+      async ({ user, tokens }) => {
+        const requested = [
+          ...(change.addLabelIds ?? []),
+          ...(change.removeLabelIds ?? []),
+        ];
+        if (requested.length === 0) {
+          throw new ValidationError("No labels to add or remove");
+        }
+
+        let known = await this.labelRepository.findByGmailIds(
+          user.id,
+          requested
+        );
+        if (known.length < new Set(requested).size) {
+          // The label may have been created in Gmail since the last refresh
+          await this.labelRepository.replaceForUser(
+            user.id,
+            await this.gmailIntegration.listLabels(tokens)
+          );
+          known = await this.labelRepository.findByGmailIds(user.id, requested);
+        }
+
+        const userLabelIds = new Set(
+          known
+            .filter((label) => label.type === "USER")
+            .map((label) => label.gmailId)
+        );
+        const invalid = requested.filter((id) => !userLabelIds.has(id));
+        if (invalid.length > 0) {
+          throw new ValidationError(`Unknown labels: ${invalid.join(", ")}`);
+        }
+
+        const result = await this.modifyThreadLabels(
+          user,
+          tokens,
+          threadId,
+          change
+        );
+        return createSuccessResult(result);
+      }
+    );
+  }
+
+  async getLabels(
+    firebaseUid: string,
+    options: { refresh?: boolean } = {}
+  ): Promise<ServiceResult<MailLabel[]>> {
+    return this.executeWithUser<MailLabel[]>(firebaseUid, async ({ user }) => {
+      const stored = await this.labelRepository.findByUserId(user.id);
+      if (stored.length > 0 && !options.refresh) {
+        return createSuccessResult(stored);
+      }
+
+      const tokens = await this.getValidTokens(firebaseUid, "any");
+      if (!tokens) {
+        return createErrorResult<MailLabel[]>("Gmail tokens not found");
+      }
+
+      const labels = await this.labelRepository.replaceForUser(
+        user.id,
+        await this.gmailIntegration.listLabels(tokens)
+      );
+      return createSuccessResult(labels);
+    });
+  }
+
+  async getStarredEmails(
+    firebaseUid: string
+  ): Promise<ServiceResult<EmailMessage[]>> {
+    return this.executeWithUser<EmailMessage[]>(
+      firebaseUid,
+      async ({ user }) => {
+        const cached = await CacheManager.getStarredEmails(user.id);
+        if (cached) {
+          return createSuccessResult(cached);
+        }
+        return createSuccessResult(await this.refreshStarredCache(user.id));
+      }
+    );
+  }
+
+  async getAttachment(
+    firebaseUid: string,
+    emailId: string,
+    attachmentId: string
+  ): Promise<ServiceResult<AttachmentContent>> {
+    return this.executeWithUserAndTokens<AttachmentContent>(
+      firebaseUid,
+      "any",
+      async ({ user, tokens }) => {
+        const found = await this.emailRepository.findAttachment(
           user.id,
-          limit
+          emailId,
+          attachmentId
+        );
+        if (!found) {
+          throw new NotFoundError("Attachment not found");
+        }
+
+        const data = await this.gmailIntegration.getAttachmentContent(
+          tokens,
+          found.gmailMessageId,
+          { partId: found.partId, attachmentId: found.gmailAttachmentId }
         );
-        return createSuccessResult(threads);
+
+        return createSuccessResult({
+          filename: found.attachment.filename,
+          mimeType: found.attachment.mimeType,
+          data,
+        });
+      }
+    );
+  }
+
+  async searchEmails(
+    firebaseUid: string,
+    options: { query: string; cursor?: string; limit?: number }
+  ): Promise<ServiceResult<CursorPage<EmailSearchHit>>> {
+    return this.executeWithUser<CursorPage<EmailSearchHit>>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        const query = parseSearchQuery(options.query);
+        const limit = clampPageSize(options.limit, SEARCH_DEFAULT_LIMIT);
+
+        // One extra row tells us whether another page exists
+        const emails = await this.emailRepository.searchEmails(user.id, query, {
+          take: limit + 1,
+          cursor: options.cursor ? decodeCursor(options.cursor) : undefined,
+        });
+        const page = emails.slice(0, limit);
+        const last = page[page.length - 1];
+
+        return createSuccessResult({
+          items: page.map((email) => this.toSearchHit(email, query)),
+          limit,
+          nextCursor:
+            emails.length > limit && last
+              ? encodeCursor({ timestamp: last.timestamp, id: last.id })
+              : null,
+        });
       }
     );
   }
 
   async getThread(
     firebaseUid: string,
-    threadId: string
+    threadId: string,
+    options: { markRead?: boolean } = {}
   ): Promise<ServiceResult<ThreadPayload>> {
     return this.executeWithUser<ThreadPayload>(
       firebaseUid,
       async ({ user }: { user: User }) => {
-        const thread = await this.emailRepository.findThreadById(threadId);
-        if (!thread || thread.id !== threadId) {
-          return createErrorResult<ThreadPayload>("Thread not found");
+        const thread = await this.emailRepository.findThreadById(
+          user.id,
+          threadId
+        );
+        if (!thread) {
+          throw new NotFoundError("Thread not found");
         }
 
         if (!thread.gmailId) {
@@ -72,6 +391,16 @@ export class EmailService {
           return createErrorResult<ThreadPayload>("Gmail tokens not found");
         }
 
+        if (
+          options.markRead &&
+          thread.messages.some((message) => message.isUnread)
+        ) {
+          // The refetch below mirrors the cleared UNREAD label locally
+          await this.gmailIntegration.modifyThread(tokens, thread.gmailId, {
+            removeLabelIds: ["UNREAD"],
+          });
+        }
+
         const threadMessages = await this.gmailIntegration.getThreadMessages(
           tokens,
           thread.gmailId
@@ -80,52 +409,18 @@ export class EmailService {
         const threadCache = new Map<string, EmailThread>();
         threadCache.set(thread.gmailId, thread);
 
-        const emailPayloads: EmailUpsertInput[] = [];
-
-        for (const message of threadMessages) {
-          if (!message.id || !message.threadId) continue;
-
-          let mappedThread = threadCache.get(message.threadId);
-          if (!mappedThread) {
-            mappedThread = await this.emailRepository.ensureThread(
-              user.id,
-              message.threadId,
-              message.subject
-            );
-            threadCache.set(message.threadId, mappedThread);
-          }
-
-          const subject =
-            message.subject || mappedThread.subject || thread.subject || "";
-
-          emailPayloads.push({
-            gmailId: message.id,
-            threadId: mappedThread.id,
-            userId: user.id,
-            from: message.from,
-            to: message.to,
-            subject,
-            body: message.body || message.snippet,
-            htmlBody: message.htmlBody,
-            timestamp: this.parseDate(message.date),
-            isUnread: message.isUnread,
-          });
-        }
-
-        let upsertReport: EmailBatchUpsertResult = {
-          results: [],
-          createdCount: 0,
-          errors: [],
-        };
-
-        if (emailPayloads.length > 0) {
-          upsertReport =
-            await this.emailRepository.upsertEmailsBatch(emailPayloads);
-        }
+        const upsertReport = await this.upsertGmailMessages(
+          user,
+          threadMessages,
+          threadCache
+        );
 
-        const refreshed = await this.emailRepository.findThreadById(threadId);
+        const refreshed = await this.emailRepository.findThreadById(
+          user.id,
+          threadId
+        );
         if (!refreshed) {
-          return createErrorResult<ThreadPayload>("Thread not found");
+          throw new NotFoundError("Thread not found");
         }
 
         if (upsertReport.errors.length > 0) {
@@ -144,222 +439,499 @@ export class EmailService {
     );
   }
 
-  async syncUserEmails(firebaseUid: string): Promise<
-    ServiceResult<{
-      synced: number;
-      errors: number;
-      errorDetails: Array<{ messageId: string; error: string }>;
-    }>
-  > {
-    return this.executeWithUserAndTokens<{
-      synced: number;
-      errors: number;
-      errorDetails: Array<{ messageId: string; error: string }>;
-    }>(
+  async syncUserEmails(
+    firebaseUid: string
+  ): Promise<ServiceResult<EmailSyncReport>> {
+    const result = await this.executeWithUserAndTokens<EmailSyncReport>(
       firebaseUid,
       "access",
-      async ({ user, tokens }: { user: User; tokens: AuthTokens }) => {
-        const messages = await this.gmailIntegration.getMessages(tokens);
-        const threadCache = new Map<string, EmailThread>();
-        const emailPayloads: EmailUpsertInput[] = [];
-
-        for (const message of messages) {
-          if (!message.threadId || !message.id) {
-            continue;
-          }
+      async ({ user, tokens }: { user: User; tokens: GmailCredentials }) => {
+        const syncState = await this.userRepository.getSyncState(user.id);
 
-          let thread = threadCache.get(message.threadId);
-          if (!thread) {
-            thread = await this.emailRepository.ensureThread(
-              user.id,
-              message.threadId,
-              message.subject
+        if (syncState?.historyId) {
+          try {
+            const report = await this.runIncrementalSync(
+              user,
+              tokens,
+              syncState.historyId
             );
-            threadCache.set(message.threadId, thread);
+            return this.finishSync(user, report);
+          } catch (error) {
+            // An expired cursor means Gmail dropped the history we need, so
+            // the only way to catch up is to bootstrap again.
+            if (!(error instanceof SyncCursorExpiredError)) {
+              throw error;
+            }
           }
+        }
 
-          const subject = message.subject || thread.subject || "";
+        const report = await this.runFullSync(user, tokens);
+        return this.finishSync(user, report);
+      }
+    );
 
-          emailPayloads.push({
-            gmailId: message.id,
-            threadId: thread.id,
-            userId: user.id,
-            from: message.from,
-            to: message.to,
-            subject,
-            body: message.body || message.snippet,
-            htmlBody: message.htmlBody,
-            timestamp: this.parseDate(message.date),
-            isUnread: message.isUnread,
-          });
-        }
+    if (result.success && result.data) {
+      await this.publishSyncEvents(firebaseUid, result.data);
+    } else {
+      await this.eventService.publish(firebaseUid, "sync_failed", {
+        error: result.error ?? "Sync failed",
+      });
+    }
 
-        const upsertReport =
-          await this.emailRepository.upsertEmailsBatch(emailPayloads);
+    return result;
+  }
 
-        const errorDetails = upsertReport.errors.map((error) => ({
-          messageId: error.gmailId,
-          error: error.error,
-        }));
+  /**
+   * Generate one or more alternative replies for a thread. Drafts generated
+   * together share a variantGroupId so they can be compared side by side.
+   */
+  async generateDraft(
+    firebaseUid: string,
+    threadId: string,
+    context: Partial<EmailGenerationContext>,
+    variants: number = 1
+  ): Promise<ServiceResult<EmailDraft[]>> {
+    return this.executeWithUser<EmailDraft[]>(
+      firebaseUid,
+      async ({ user }: { user: User }) => {
+        if (
+          !Number.isInteger(variants) ||
+          variants < 1 ||
+          variants > MAX_DRAFT_VARIANTS
+        ) {
+          throw new ValidationError(
+            `variants must be between 1 and ${MAX_DRAFT_VARIANTS}`
+          );
+        }
 
-        return createSuccessResult({
-          synced: upsertReport.createdCount,
-          errors: errorDetails.length,
-          errorDetails,
-        });
+        const thread = await this.emailRepository.findThreadById(
+          user.id,
+          threadId
+        );
+        if (!thread) {
+          throw new NotFoundError("Email thread not found");
+        }
+
+        const drafts = await this.createDraftVariants(
+          firebaseUid,
+          user,
+          thread,
+          context,
+          {
+            count: variants,
+            variantGroupId: variants > 1 ? randomUUID() : undefined,
+            eventMetadata: { source: "generated" },
+          }
+        );
+        return createSuccessResult(drafts);
       }
     );
   }
 
-  async generateDraft(
+  /**
+   * Generate a single reply, handing text to `onToken` as the model produces
+   * it, then store the finished draft. Nothing is stored when `signal` is
+   * aborted first, e.g. because the client disconnected.
+   */
+  async streamDraft(
     firebaseUid: string,
     threadId: string,
-    context: Partial<EmailGenerationContext>
+    context: Partial<EmailGenerationContext>,
+    onToken: (text: string) => void,
+    signal: AbortSignal
   ): Promise<ServiceResult<EmailDraft>> {
     return this.executeWithUser<EmailDraft>(
       firebaseUid,
       async ({ user }: { user: User }) => {
-        const styleProfile =
-          await this.userRepository.getStyleProfile(firebaseUid);
-        if (!styleProfile) {
-          return createErrorResult<EmailDraft>(
-            "User style profile not found. Complete onboarding first."
-          );
+        const { profile, versionId } = await this.loadStyleProfile(firebaseUid);
+        const thread = await this.emailRepository.findThreadById(
+          user.id,
+          threadId
+        );
+        if (!thread) {
+          throw new NotFoundError("Email thread not found");
         }
 
-        const thread = await this.emailRepository.findThreadById(threadId);
-        if (!thread) {
-          return createErrorResult<EmailDraft>("Email thread not found");
+        let content = "";
+        for await (const text of this.aiIntegration.streamEmailDraft(
+          profile,
+          await this.buildGenerationContext(user, thread, context),
+          signal
+        )) {
+          content += text;
+          onToken(text);
         }
 
-        const generationContext: EmailGenerationContext = {
-          originalEmail:
-            context.originalEmail ||
-            thread.messages[thread.messages.length - 1]?.body ||
-            "",
-          threadHistory:
-            context.threadHistory || thread.messages.map((m) => m.body),
-          tone: context.tone,
-          recipient: context.recipient,
-        };
+        if (signal.aborted) {
+          return createErrorResult<EmailDraft>("Draft generation cancelled");
+        }
+        if (!content.trim()) {
+          throw new ExternalServiceError("AI", "No draft was generated");
+        }
 
-        const draftContent = await this.vertexAIIntegration.generateEmailDraft(
-          styleProfile as AIStyleProfile,
-          generationContext
+        const draft = await this.emailRepository.createDraft(
+          {
+            threadId: thread.id,
+            userId: user.id,
+            content: content.trim(),
+            tone: context.tone,
+            length: context.length,
+            directness: context.directness,
+            includeGreeting: context.includeGreeting,
+            styleProfileVersionId: versionId,
+            status: "PENDING",
+          },
+          { source: "generated", streamed: true, tone: context.tone ?? null }
         );
 
-        const draft = await this.emailRepository.createDraft({
-          threadId,
-          userId: user.id,
-          content: draftContent,
-          tone: context.tone,
-          status: "PENDING",
+        await this.eventService.publish(firebaseUid, "draft_generated", {
+          draftId: draft.id,
+          threadId: draft.threadId,
+          status: draft.status,
+          variantGroupId: null,
         });
-
         return createSuccessResult(draft);
       }
     );
   }
 
-  async sendDraft(
+  /**
+   * Rewrite a draft following a short instruction such as "shorter, decline
+   * politely". The result is stored as a new sibling of the source draft,
+   * which is left untouched; controls not given carry over from it.
+   */
+  async regenerateDraft(
     firebaseUid: string,
-    draftId: string
-  ): Promise<ServiceResult<string>> {
-    return this.executeWithUserAndTokens<string>(
+    draftId: string,
+    options: DraftControls & { instruction?: string } = {}
+  ): Promise<ServiceResult<RegeneratedDraftPayload>> {
+    return this.executeWithUser<RegeneratedDraftPayload>(
       firebaseUid,
-      "access",
-      async ({ tokens }: { user: User; tokens: AuthTokens }) => {
-        void tokens;
-        await this.emailRepository.updateDraftStatus(draftId, "SENT");
-        return createSuccessResult("Draft sent successfully");
+      async ({ user }: { user: User }) => {
+        const source = await this.emailRepository.findDraftById(
+          user.id,
+          draftId
+        );
+        if (!source) {
+          throw new NotFoundError("Draft not found");
+        }
+        if (source.status === "SENT") {
+          throw new ConflictError("Cannot regenerate a draft that is sent");
+        }
+
+        const thread = await this.emailRepository.findThreadById(
+          user.id,
+          source.threadId
+        );
+        if (!thread) {
+          throw new NotFoundError("Email thread not found");
+        }
+
+        const variantGroupId = source.variantGroupId ?? randomUUID();
+        if (!source.variantGroupId) {
+          await this.emailRepository.setDraftVariantGroup(
+            user.id,
+            source.id,
+            variantGroupId
+          );
+        }
+
+        const [draft] = await this.createDraftVariants(
+          firebaseUid,
+          user,
+          thread,
+          {
+            tone: options.tone ?? toDraftTone(source.tone),
+            length: options.length ?? source.length,
+            directness: options.directness ?? source.directness,
+            includeGreeting: options.includeGreeting ?? source.includeGreeting,
+            previousDraft: source.content,
+            instruction: options.instruction,
+          },
+          {
+            count: 1,
+            variantGroupId,
+            eventMetadata: {
+              source: "regenerated",
+              regeneratedFrom: source.id,
+              instruction: options.instruction ?? null,
+            },
+          }
+        );
+
+        const variants = await this.emailRepository.findDraftsByVariantGroup(
+          user.id,
+          variantGroupId
+        );
+        return createSuccessResult({ draft, variants });
       }
     );
   }
 
-  async getDrafts(firebaseUid: string): Promise<ServiceResult<EmailDraft[]>> {
-    return this.executeWithUser<EmailDraft[]>(
+  /**
+   * Expand a short brief into a subject and body in the user's style, as a
+   * starting point for compose. Nothing is stored or sent.
+   */
+  async generateComposeDraft(
+    firebaseUid: string,
+    context: ComposeGenerationContext
+  ): Promise<ServiceResult<ComposedDraft>> {
+    return this.executeWithUser<ComposedDraft>(firebaseUid, async () => {
+      const styleProfile =
+        await this.userRepository.getStyleProfile(firebaseUid);
+      if (!styleProfile) {
+        return createErrorResult<ComposedDraft>(
+          "User style profile not found. Complete onboarding first."
+        );
+      }
+
+      const draft = await this.aiIntegration.generateComposeDraft(
+        styleProfile as AIStyleProfile,
+        context
+      );
+      if (!draft.body.trim()) {
+        return createErrorResult<ComposedDraft>(
+          "Unable to generate an email from this brief"
+        );
+      }
+
+      return createSuccessResult(draft);
+    });
+  }
+
+  /**
+   * TL;DR, decisions, open questions, action items and deadlines for a
+   * thread. Generated once and reused until new messages are synced.
+   */
+  async summarizeThread(
+    firebaseUid: string,
+    threadId: string
+  ): Promise<ServiceResult<ThreadSummary>> {
+    return this.executeWithUser<ThreadSummary>(
       firebaseUid,
       async ({ user }: { user: User }) => {
-        const drafts = await this.emailRepository.findDraftsByUserId(user.id);
-        return createSuccessResult(drafts);
+        const thread = await this.emailRepository.findThreadById(
+          user.id,
+          threadId
+        );
+        if (!thread) {
+          throw new NotFoundError("Thread not found");
+        }
+
+        const cached = await this.emailRepository.findThreadSummary(
+          user.id,
+          thread.id
+        );
+        if (cached) {
+          return createSuccessResult(cached);
+        }
+
+        if (thread.messages.length === 0) {
+          return createErrorResult<ThreadSummary>(
+            "Thread has no messages to summarize"
+          );
+        }
+
+        const content = await this.aiIntegration.summarizeThread(thread);
+        if (!content.tldr.trim()) {
+          return createErrorResult<ThreadSummary>(
+            "Unable to summarize this thread"
+          );
+        }
+
+        const summary = await this.emailRepository.saveThreadSummary(
+          user.id,
+          thread.id,
+          content
+        );
+        return createSuccessResult(summary);
       }
     );
   }
 
-  async replyToThread(
+  async sendDraft(
     firebaseUid: string,
-    threadId: string,
-    body: string
-  ): Promise<ServiceResult<ThreadPayload>> {
-    return this.executeWithUserAndTokens<ThreadPayload>(
+    draftId: string
+  ): Promise<ServiceResult<SentDraftPayload>> {
+    return this.executeWithUserAndTokens<SentDraftPayload>(
       firebaseUid,
-      "any",
-      async ({ tokens }: { user: User; tokens: AuthTokens }) => {
-        const thread = await this.emailRepository.findThreadById(threadId);
-        if (!thread) {
-          return createErrorResult<ThreadPayload>("Thread not found");
+      "access",
+      async ({ user, tokens }: { user: User; tokens: GmailCredentials }) => {
+        const draft = await this.emailRepository.findDraftById(
+          user.id,
+          draftId
+        );
+        if (!draft) {
+          throw new NotFoundError("Draft not found");
         }
 
-        if (!thread.gmailId) {
-          return createErrorResult<ThreadPayload>(
-            "Thread is missing Gmail metadata"
+        if (!canApplyDraftAction(draft.status, "SENT")) {
+          throw new ConflictError(
+            `Cannot send a draft that is ${draft.status.toLowerCase()}`
           );
         }
 
-        const threadMessages = await this.gmailIntegration.getThreadMessages(
-          tokens,
-          thread.gmailId
+        const thread = await this.emailRepository.findThreadById(
+          user.id,
+          draft.threadId
         );
+        if (!thread) {
+          throw new NotFoundError("Thread not found");
+        }
 
-        if (!threadMessages.length) {
-          return createErrorResult<ThreadPayload>(
-            "No messages found in thread"
+        const envelopeResult = await this.buildReplyEnvelope(tokens, thread);
+        if (!envelopeResult.success || !envelopeResult.data) {
+          return createErrorResult<SentDraftPayload>(
+            envelopeResult.error ?? "Unable to prepare reply"
           );
         }
 
-        const sortedMessages = [...threadMessages].sort(
-          (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+        const envelope = envelopeResult.data;
+
+        // Claim the draft before sending so a concurrent send of the same
+        // draft stops here instead of emailing the recipient twice
+        const claimed = await this.emailRepository.claimDraftForSending(
+          user.id,
+          draft.id,
+          ALLOWED_SOURCE_STATUSES.SENT
         );
-        const latest = sortedMessages[sortedMessages.length - 1];
-        if (!latest) {
-          return createErrorResult<ThreadPayload>(
-            "Unable to determine latest message"
+        if (!claimed) {
+          throw new ConflictError("Draft is already being sent");
+        }
+
+        let gmailMessageId: string;
+        try {
+          gmailMessageId = await this.gmailIntegration.sendReply(tokens, {
+            threadId: envelope.gmailThreadId,
+            to: [envelope.to],
+            subject: envelope.subject,
+            body: draft.content,
+            inReplyTo: envelope.inReplyTo,
+            references: envelope.references,
+          });
+        } catch (error) {
+          await this.emailRepository.releaseDraftClaim(
+            user.id,
+            draft.id,
+            draft.status
           );
+          throw error;
         }
 
-        const fromAddress =
-          latest.from ?? sortedMessages.find((msg) => msg.from)?.from;
-        if (!fromAddress) {
+        const sentDraft = await this.emailRepository.markDraftSent(
+          user.id,
+          draft.id,
+          gmailMessageId
+        );
+
+        await this.eventService.publish(firebaseUid, "draft_status_changed", {
+          draftId: sentDraft.id,
+          threadId: sentDraft.threadId,
+          previousStatus: draft.status,
+          status: sentDraft.status,
+        });
+
+        const upsertResult = await this.emailRepository.upsertEmail({
+          gmailId: gmailMessageId,
+          threadId: thread.id,
+          userId: user.id,
+          from: user.email,
+          to: envelope.to,
+          subject: envelope.subject,
+          body: draft.content,
+          timestamp: sentDraft.sentAt ?? new Date(),
+          isUnread: false,
+        });
+
+        return createSuccessResult({
+          draft: sentDraft,
+          gmailMessageId,
+          upsertErrors: upsertResult.success
+            ? []
+            : [
+                {
+                  gmailId: gmailMessageId,
+                  error: upsertResult.error ?? "Unknown upsert error",
+                },
+              ],
+        });
+      }
+    );
+  }
+
+  /**
+   * Reply, reply-all or forward the newest message of a thread. Explicit
+   * to/cc/bcc lists replace the recipients the mode would compute.
+   */
+  async replyToThread(
+    firebaseUid: string,
+    threadId: string,
+    options: ReplyOptions
+  ): Promise<ServiceResult<ThreadPayload>> {
+    return this.executeWithUserAndTokens<ThreadPayload>(
+      firebaseUid,
+      "any",
+      async ({ user, tokens }: { user: User; tokens: GmailCredentials }) => {
+        const mode = options.mode ?? "reply";
+        assertValidRecipients("to", options.to);
+        assertValidRecipients("cc", options.cc);
+        assertValidRecipients("bcc", options.bcc);
+
+        const thread = await this.emailRepository.findThreadById(
+          user.id,
+          threadId
+        );
+        if (!thread) {
+          throw new NotFoundError("Thread not found");
+        }
+
+        const envelopeResult = await this.buildReplyEnvelope(tokens, thread);
+        if (!envelopeResult.success || !envelopeResult.data) {
           return createErrorResult<ThreadPayload>(
-            "Unable to determine recipient"
+            envelopeResult.error ?? "Unable to prepare reply"
           );
         }
 
-        const recipient = this.extractEmailAddress(fromAddress);
-        const baseSubject = thread.subject || latest.subject || "";
-        const subject = baseSubject.startsWith("Re:")
-          ? baseSubject
-          : baseSubject
-            ? `Re: ${baseSubject}`
-            : "Re:";
-
-        const inReplyTo = latest.messageIdHeader;
-        const references = Array.from(
-          new Set(
-            [
-              ...(latest.references ? latest.references.split(/\s+/) : []),
-              latest.messageIdHeader,
-            ].filter(Boolean)
-          )
-        ) as string[];
+        const envelope = envelopeResult.data;
+        const computed =
+          mode === "forward"
+            ? { to: [], cc: [] }
+            : buildReplyRecipients(mode, envelope.latest, user.email);
+        const to = options.to ?? computed.to;
+        const cc = options.cc ?? computed.cc;
+
+        if (to.length === 0) {
+          throw new ValidationError(
+            mode === "forward"
+              ? "Forwarding requires at least one recipient"
+              : "Reply has no recipients; pass them in to"
+          );
+        }
 
+        const isForward = mode === "forward";
         await this.gmailIntegration.sendReply(tokens, {
-          threadId: thread.gmailId,
-          to: recipient,
-          subject,
-          body,
-          inReplyTo,
-          references,
+          threadId: envelope.gmailThreadId,
+          to,
+          cc,
+          bcc: options.bcc ?? [],
+          subject: isForward
+            ? this.prefixSubject(
+                "Fwd:",
+                thread.subject || envelope.latest.subject
+              )
+            : envelope.subject,
+          body: isForward
+            ? `${textToHtml(options.body)}${this.quoteForwardedMessage(envelope.latest)}`
+            : options.body,
+          inReplyTo: envelope.inReplyTo,
+          references: envelope.references,
+          attachments: isForward
+            ? await this.loadForwardAttachments(tokens, envelope.latest)
+            : undefined,
+        });
+
+        await this.eventService.publish(firebaseUid, "thread_updated", {
+          threadId: thread.id,
         });
 
         return this.getThread(firebaseUid, threadId);
@@ -367,6 +939,443 @@ export class EmailService {
     );
   }
 
+  /**
+   * Send a message that starts a new thread and mirror it locally from
+   * what Gmail stored, so the thread shows up before the next sync.
+   */
+  async composeEmail(
+    firebaseUid: string,
+    input: ComposeEmailInput
+  ): Promise<ServiceResult<ThreadPayload>> {
+    return this.executeWithUserAndTokens<ThreadPayload>(
+      firebaseUid,
+      "access",
+      async ({ user, tokens }: { user: User; tokens: GmailCredentials }) => {
+        if (input.to.length === 0) {
+          throw new ValidationError("At least one recipient is required");
+        }
+        assertValidRecipients("to", input.to);
+        assertValidRecipients("cc", input.cc);
+        assertValidRecipients("bcc", input.bcc);
+
+        const sent = await this.gmailIntegration.sendEmail(tokens, input);
+        const thread = await this.emailRepository.ensureThread(
+          user.id,
+          sent.threadId,
+          input.subject
+        );
+
+        await this.eventService.publish(firebaseUid, "thread_updated", {
+          threadId: thread.id,
+        });
+
+        // Loads the sent message from Gmail into the new thread
+        return this.getThread(firebaseUid, thread.id);
+      }
+    );
+  }
+
+  private async runFullSync(
+    user: User,
+    tokens: GmailCredentials
+  ): Promise<EmailSyncReport> {
+    // Take the cursor before listing so anything that arrives while the
+    // bootstrap runs is replayed by the next incremental sync.
+    const { historyId } = await this.gmailIntegration.getProfile(tokens);
+    const messageIds = await this.gmailIntegration.listMessageIds(
+      tokens,
+      "in:inbox",
+      FULL_SYNC_MESSAGE_LIMIT
+    );
+    const messages = await this.gmailIntegration.getMessagesByIds(
+      tokens,
+      messageIds
+    );
+    const threadCache = new Map<string, EmailThread>();
+    const upsertReport = await this.upsertGmailMessages(
+      user,
+      messages.filter((message) => !this.isHiddenFromSync(message.labelIds)),
+      threadCache
+    );
+    const { labelUpdates, removed } = await this.reconcileUnlistedMessages(
+      user,
+      tokens,
+      new Set(messageIds)
+    );
+
+    const syncedAt = new Date();
+    await this.userRepository.updateSyncState(user.id, {
+      historyId,
+      lastFullSyncAt: syncedAt,
+      lastSyncedAt: syncedAt,
+    });
+
+    return this.buildSyncReport(
+      "full",
+      upsertReport,
+      threadCache,
+      labelUpdates,
+      removed
+    );
+  }
+
+  /**
+   * Bring stored messages a full sync did not list up to date: they were
+   * deleted, moved out of the inbox, or are replies and older mail. Each is
+   * looked up in Gmail, so changes made while no history cursor covered
+   * them are not missed.
+   */
+  private async reconcileUnlistedMessages(
+    user: User,
+    tokens: GmailCredentials,
+    listedIds: Set<string>
+  ): Promise<{ labelUpdates: number; removed: number }> {
+    const unlisted = (
+      await this.emailRepository.findGmailLabelsByUserId(user.id)
+    ).filter(({ gmailId }) => !listedIds.has(gmailId));
+    const current = new Map(
+      (
+        await this.gmailIntegration.getMessagesByIds(
+          tokens,
+          unlisted.map(({ gmailId }) => gmailId)
+        )
+      ).map((message) => [message.id, message.labelIds ?? []])
+    );
+
+    const removedIds: string[] = [];
+    let labelUpdates = 0;
+    for (const { gmailId, labelIds } of unlisted) {
+      const latest = current.get(gmailId);
+      if (!latest || this.isHiddenFromSync(latest)) {
+        removedIds.push(gmailId);
+        continue;
+      }
+      if (
+        latest.length !== labelIds.length ||
+        latest.some((label) => !labelIds.includes(label))
+      ) {
+        await this.emailRepository.updateLabelsByGmailId(
+          user.id,
+          gmailId,
+          latest
+        );
+        labelUpdates += 1;
+      }
+    }
+
+    const removed = await this.emailRepository.deleteEmailsByGmailIds(
+      user.id,
+      removedIds
+    );
+    return { labelUpdates, removed };
+  }
+
+  private async runIncrementalSync(
+    user: User,
+    tokens: GmailCredentials,
+    startHistoryId: string
+  ): Promise<EmailSyncReport> {
+    const changes = await this.gmailIntegration.listHistory(
+      tokens,
+      startHistoryId
+    );
+
+    const addedIds = new Set(changes.addedMessageIds);
+    const removedIds = [...changes.deletedMessageIds];
+    const addedMessages = await this.gmailIntegration.getMessagesByIds(
+      tokens,
+      changes.addedMessageIds
+    );
+
+    const messagesToStore: GmailMessage[] = [];
+    for (const message of addedMessages) {
+      if (this.isHiddenFromSync(message.labelIds)) {
+        removedIds.push(message.id);
+        continue;
+      }
+
+      // Keep the mirror to the inbox plus replies on threads we already hold
+      const belongsToKnownThread =
+        (await this.emailRepository.findThreadByGmailId(
+          user.id,
+          message.threadId
+        )) !== null;
+      if (message.labelIds?.includes("INBOX") || belongsToKnownThread) {
+        messagesToStore.push(message);
+      }
+    }
+
+    let labelUpdates = 0;
+    for (const change of changes.labelChanges) {
+      if (addedIds.has(change.messageId)) continue;
+
+      if (this.isHiddenFromSync(change.labelIds)) {
+        removedIds.push(change.messageId);
+        continue;
+      }
+
+      const updated = await this.emailRepository.updateLabelsByGmailId(
+        user.id,
+        change.messageId,
+        change.labelIds
+      );
+      if (updated) {
+        labelUpdates += 1;
+      }
+    }
+
+    const threadCache = new Map<string, EmailThread>();
+    const upsertReport = await this.upsertGmailMessages(
+      user,
+      messagesToStore,
+      threadCache
+    );
+    const removed = await this.emailRepository.deleteEmailsByGmailIds(
+      user.id,
+      removedIds
+    );
+
+    await this.userRepository.updateSyncState(user.id, {
+      historyId: changes.historyId,
+      lastSyncedAt: new Date(),
+    });
+
+    return this.buildSyncReport(
+      "incremental",
+      upsertReport,
+      threadCache,
+      labelUpdates,
+      removed
+    );
+  }
+
+  private isHiddenFromSync(labelIds: string[] = []): boolean {
+    return labelIds.some((label) => HIDDEN_SYNC_LABELS.includes(label));
+  }
+
+  private buildSyncReport(
+    mode: EmailSyncReport["mode"],
+    upsertReport: EmailBatchUpsertResult,
+    threadCache: Map<string, EmailThread>,
+    labelUpdates: number,
+    removed: number
+  ): EmailSyncReport {
+    const errorDetails = upsertReport.errors.map((error) => ({
+      messageId: error.gmailId,
+      error: error.error,
+    }));
+    const updatedByUpsert = upsertReport.results.filter(
+      (result) => result.success && !result.created
+    ).length;
+
+    return {
+      mode,
+      added: upsertReport.createdCount,
+      updated: updatedByUpsert + labelUpdates,
+      removed,
+      threadIds: Array.from(threadCache.values(), (thread) => thread.id),
+      errors: errorDetails.length,
+      errorDetails,
+    };
+  }
+
+  private async finishSync(
+    user: User,
+    report: EmailSyncReport
+  ): Promise<ServiceResult<EmailSyncReport>> {
+    // Label changes from other clients may have starred or unstarred mail
+    if (report.added + report.updated + report.removed > 0) {
+      await this.refreshStarredCache(user.id);
+    }
+    return createSuccessResult(report);
+  }
+
+  private async publishSyncEvents(
+    firebaseUid: string,
+    report: EmailSyncReport
+  ): Promise<void> {
+    if (report.added + report.updated + report.removed === 0) return;
+
+    await this.eventService.publish(firebaseUid, "inbox_updated", {
+      mode: report.mode,
+      added: report.added,
+      updated: report.updated,
+      removed: report.removed,
+    });
+
+    for (const threadId of report.threadIds) {
+      await this.eventService.publish(firebaseUid, "thread_updated", {
+        threadId,
+      });
+    }
+  }
+
+  /**
+   * Map Gmail messages onto local threads (creating them as needed) and
+   * upsert them in one batch.
+   */
+  private async upsertGmailMessages(
+    user: User,
+    messages: GmailMessage[],
+    threadCache: Map<string, EmailThread> = new Map()
+  ): Promise<EmailBatchUpsertResult> {
+    const emailPayloads: EmailUpsertInput[] = [];
+
+    for (const message of messages) {
+      if (!message.id || !message.threadId) continue;
+
+      let thread = threadCache.get(message.threadId);
+      if (!thread) {
+        thread = await this.emailRepository.ensureThread(
+          user.id,
+          message.threadId,
+          message.subject
+        );
+        threadCache.set(message.threadId, thread);
+      }
+
+      emailPayloads.push({
+        gmailId: message.id,
+        threadId: thread.id,
+        userId: user.id,
+        from: message.from,
+        to: message.to,
+        subject: message.subject || thread.subject || "",
+        body: message.body || message.snippet,
+        quotedText: message.quotedText,
+        htmlBody: message.htmlBody,
+        timestamp: this.parseDate(message.date),
+        isUnread: message.isUnread,
+        labelIds: message.labelIds,
+        attachments: message.attachments,
+      });
+    }
+
+    if (emailPayloads.length === 0) {
+      return { results: [], createdCount: 0, errors: [] };
+    }
+
+    return this.emailRepository.upsertEmailsBatch(emailPayloads);
+  }
+
+  /**
+   * Work out recipient, subject and threading headers for a reply to the
+   * latest message of a thread, using Gmail as the source of truth.
+   */
+  private async buildReplyEnvelope(
+    tokens: GmailCredentials,
+    thread: EmailThread
+  ): Promise<ServiceResult<ReplyEnvelope>> {
+    if (!thread.gmailId) {
+      return createErrorResult<ReplyEnvelope>(
+        "Thread is missing Gmail metadata"
+      );
+    }
+
+    const threadMessages = await this.gmailIntegration.getThreadMessages(
+      tokens,
+      thread.gmailId
+    );
+
+    if (!threadMessages.length) {
+      return createErrorResult<ReplyEnvelope>("No messages found in thread");
+    }
+
+    const sortedMessages = [...threadMessages].sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+    const latest = sortedMessages[sortedMessages.length - 1];
+    if (!latest) {
+      return createErrorResult<ReplyEnvelope>(
+        "Unable to determine latest message"
+      );
+    }
+
+    const fromAddress =
+      latest.from ?? sortedMessages.find((msg) => msg.from)?.from;
+    if (!fromAddress) {
+      return createErrorResult<ReplyEnvelope>("Unable to determine recipient");
+    }
+
+    const subject = this.prefixSubject("Re:", thread.subject || latest.subject);
+
+    const references = Array.from(
+      new Set(
+        [
+          ...(latest.references ? latest.references.split(/\s+/) : []),
+          latest.messageIdHeader,
+        ].filter(Boolean)
+      )
+    ) as string[];
+
+    return createSuccessResult({
+      gmailThreadId: thread.gmailId,
+      to: this.extractEmailAddress(fromAddress),
+      subject,
+      inReplyTo: latest.messageIdHeader,
+      references,
+      latest,
+    });
+  }
+
+  private prefixSubject(prefix: "Re:" | "Fwd:", subject?: string): string {
+    const base = (subject ?? "").trim();
+    if (!base) {
+      return prefix;
+    }
+    return base.toLowerCase().startsWith(prefix.toLowerCase())
+      ? base
+      : `${prefix} ${base}`;
+  }
+
+  // Gmail-style header block followed by the original message
+  private quoteForwardedMessage(message: GmailMessage): string {
+    const header = [
+      ["From", message.from],
+      ["Date", message.date],
+      ["Subject", message.subject],
+      ["To", message.to],
+      ["Cc", message.cc],
+    ]
+      .filter(([, value]) => value)
+      .map(([name, value]) => `${name}: ${escapeHtml(value ?? "")}<br>`)
+      .join("");
+    const plain =
+      [message.body, message.quotedText].filter(Boolean).join("\n\n") ||
+      message.snippet;
+    const original = message.htmlBody || textToHtml(plain);
+
+    return `<br><br><div>---------- Forwarded message ---------<br>${header}</div><br>${original}`;
+  }
+
+  private async loadForwardAttachments(
+    tokens: GmailCredentials,
+    message: GmailMessage
+  ): Promise<AttachmentContent[]> {
+    const attachments = message.attachments ?? [];
+    const totalSize = attachments.reduce((sum, item) => sum + item.size, 0);
+    if (totalSize > MAX_FORWARD_ATTACHMENT_BYTES) {
+      throw new ValidationError(
+        "Attachments are too large to forward; download and share them instead"
+      );
+    }
+
+    const contents: AttachmentContent[] = [];
+    for (const attachment of attachments) {
+      const data = await this.gmailIntegration.getAttachmentContent(
+        tokens,
+        message.id,
+        { partId: attachment.partId, attachmentId: attachment.attachmentId }
+      );
+      contents.push({
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        data,
+      });
+    }
+    return contents;
+  }
+
   private extractEmailAddress(value: string): string {
     const match = value.match(/<([^>]+)>/);
     return match ? match[1] : value;
@@ -380,6 +1389,267 @@ export class EmailService {
     return Number.isNaN(parsed.getTime()) ? new Date() : parsed;
   }
 
+  /**
+   * Write a label change through to Gmail, then mirror the labels Gmail
+   * reports for each message. Trashed threads leave the local mirror, as
+   * they would on the next sync.
+   */
+  private async modifyThreadLabels(
+    user: User,
+    tokens: GmailCredentials,
+    threadId: string,
+    change: ThreadLabelChange
+  ): Promise<ThreadActionPayload> {
+    const thread = await this.emailRepository.findThreadById(user.id, threadId);
+    if (!thread) {
+      throw new NotFoundError("Thread not found");
+    }
+    if (!thread.gmailId) {
+      throw new ValidationError("Thread is not linked to Gmail");
+    }
+
+    const messages = await this.gmailIntegration.modifyThread(
+      tokens,
+      thread.gmailId,
+      change
+    );
+
+    const hidden = messages.filter((message) =>
+      this.isHiddenFromSync(message.labelIds)
+    );
+    for (const message of messages) {
+      if (!this.isHiddenFromSync(message.labelIds)) {
+        await this.emailRepository.updateLabelsByGmailId(
+          user.id,
+          message.messageId,
+          message.labelIds
+        );
+      }
+    }
+    await this.emailRepository.deleteEmailsByGmailIds(
+      user.id,
+      hidden.map((message) => message.messageId)
+    );
+
+    const touched = [
+      ...(change.addLabelIds ?? []),
+      ...(change.removeLabelIds ?? []),
+    ];
+    if (touched.includes("STARRED")) {
+      await this.refreshStarredCache(user.id);
+    }
+
+    const removed = hidden.length > 0 && hidden.length === messages.length;
+    await this.eventService.publish(user.firebaseUid, "thread_updated", {
+      threadId: thread.id,
+      removed,
+    });
+
+    if (removed) {
+      return { threadId: thread.id, removed };
+    }
+
+    const refreshed = await this.emailRepository.findThreadById(
+      user.id,
+      threadId
+    );
+    return { threadId: thread.id, removed: !refreshed, thread: refreshed };
+  }
+
+  private async refreshStarredCache(userId: string): Promise<EmailMessage[]> {
+    const starred = await this.emailRepository.findEmailsByLabel(
+      userId,
+      "STARRED"
+    );
+    try {
+      await CacheManager.setStarredEmails(userId, starred);
+    } catch (error) {
+      console.warn(`Failed to cache starred emails for ${userId}:`, error);
+    }
+    return starred;
+  }
+
+  // Generate `count` drafts for the thread and store them as siblings
+  private async createDraftVariants(
+    firebaseUid: string,
+    user: User,
+    thread: EmailThread,
+    context: Partial<EmailGenerationContext>,
+    options: {
+      count: number;
+      variantGroupId?: string;
+      eventMetadata: Record<string, unknown>;
+    }
+  ): Promise<EmailDraft[]> {
+    const { profile, versionId } = await this.loadStyleProfile(firebaseUid);
+    const contents = await this.aiIntegration.generateEmailDrafts(
+      profile,
+      await this.buildGenerationContext(user, thread, context),
+      options.count
+    );
+    if (contents.length === 0) {
+      throw new ExternalServiceError("AI", "No draft was generated");
+    }
+
+    const drafts: EmailDraft[] = [];
+    for (const [index, content] of contents.entries()) {
+      const draft = await this.emailRepository.createDraft(
+        {
+          threadId: thread.id,
+          userId: user.id,
+          content,
+          tone: context.tone,
+          length: context.length,
+          directness: context.directness,
+          includeGreeting: context.includeGreeting,
+          instruction: context.instruction,
+          variantGroupId: options.variantGroupId,
+          styleProfileVersionId: versionId,
+          status: "PENDING",
+        },
+        {
+          ...options.eventMetadata,
+          tone: context.tone ?? null,
+          ...(contents.length > 1 && {
+            variant: index + 1,
+            variantCount: contents.length,
+          }),
+        }
+      );
+
+      await this.eventService.publish(firebaseUid, "draft_generated", {
+        draftId: draft.id,
+        threadId: draft.threadId,
+        status: draft.status,
+        variantGroupId: draft.variantGroupId ?? null,
+      });
+      drafts.push(draft);
+    }
+    return drafts;
+  }
+
+  private async loadStyleProfile(
+    firebaseUid: string
+  ): Promise<CurrentStyleProfile> {
+    const styleProfile =
+      await this.userRepository.getCurrentStyleProfile(firebaseUid);
+    if (!styleProfile) {
+      throw new ValidationError(
+        "User style profile not found. Complete onboarding first."
+      );
+    }
+    return styleProfile;
+  }
+
+  // Caller-supplied context wins; the rest is filled in from the thread
+  private async buildGenerationContext(
+    user: User,
+    thread: EmailThread,
+    context: Partial<EmailGenerationContext>
+  ): Promise<EmailGenerationContext> {
+    return {
+      originalEmail:
+        context.originalEmail ||
+        thread.messages[thread.messages.length - 1]?.body ||
+        "",
+      threadHistory:
+        context.threadHistory || thread.messages.map((m) => m.body),
+      tone: context.tone,
+      length: context.length,
+      directness: context.directness,
+      includeGreeting: context.includeGreeting,
+      previousDraft: context.previousDraft,
+      instruction: context.instruction,
+      recipient: context.recipient,
+      attachments:
+        context.attachments ?? (await this.loadAttachmentTexts(user, thread)),
+    };
+  }
+
+  /**
+   * Text of the newest small text/PDF attachments on the thread, for draft
+   * context. Best effort: a failed download only drops that attachment.
+   */
+  private async loadAttachmentTexts(
+    user: User,
+    thread: EmailThread
+  ): Promise<Array<{ filename: string; text: string }>> {
+    const candidates = [...thread.messages]
+      .reverse()
+      .flatMap((message) =>
+        (message.attachments ?? [])
+          .filter(
+            (attachment) =>
+              !attachment.isInline &&
+              isTextExtractable(attachment.mimeType, attachment.size)
+          )
+          .map((attachment) => ({ message, attachment }))
+      )
+      .slice(0, MAX_DRAFT_ATTACHMENTS);
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const tokens = await this.getValidTokens(user.firebaseUid, "any");
+    if (!tokens) {
+      return [];
+    }
+
+    const texts: Array<{ filename: string; text: string }> = [];
+    for (const { message, attachment } of candidates) {
+      try {
+        const found = await this.emailRepository.findAttachment(
+          user.id,
+          message.id,
+          attachment.id
+        );
+        if (!found) continue;
+
+        const data = await this.gmailIntegration.getAttachmentContent(
+          tokens,
+          found.gmailMessageId,
+          { partId: found.partId, attachmentId: found.gmailAttachmentId }
+        );
+        const text = extractAttachmentText(attachment.mimeType, data);
+        if (text) {
+          texts.push({ filename: attachment.filename, text });
+        }
+      } catch (error) {
+        console.warn(
+          `Skipping attachment ${attachment.id} for draft context:`,
+          error
+        );
+      }
+    }
+    return texts;
+  }
+
+  private toSearchHit(
+    email: EmailMessage,
+    query: ParsedSearchQuery
+  ): EmailSearchHit {
+    const highlights = [
+      highlightMatches("subject", email.subject, [
+        ...query.text,
+        ...query.subject,
+      ]),
+      highlightMatches("from", email.from, [...query.text, ...query.from]),
+      highlightMatches("to", email.to, [...query.text, ...query.to]),
+      highlightMatches("body", email.body, query.text),
+    ].filter((highlight): highlight is SearchHighlight => highlight !== null);
+
+    return {
+      emailId: email.id,
+      threadId: email.threadId,
+      subject: email.subject,
+      from: email.from,
+      to: email.to,
+      timestamp: email.timestamp,
+      isUnread: email.isUnread,
+      highlights,
+    };
+  }
+
   private async executeWithUser<T>(
     firebaseUid: string,
     action: (context: { user: User }) => Promise<ServiceResult<T>>
@@ -400,7 +1670,7 @@ export class EmailService {
     requirement: "any" | "access",
     action: (context: {
       user: User;
-      tokens: AuthTokens;
+      tokens: GmailCredentials;
     }) => Promise<ServiceResult<T>>
   ): Promise<ServiceResult<T>> {
     return this.executeWithUser(firebaseUid, async ({ user }) => {
@@ -415,19 +1685,18 @@ export class EmailService {
   private async getValidTokens(
     firebaseUid: string,
     requirement: "any" | "access"
-  ): Promise<AuthTokens | null> {
-    const tokens = await this.userRepository.getTokens(firebaseUid);
+  ): Promise<GmailCredentials | null> {
+    const tokens = await this.tokenManager.getValidTokens(firebaseUid);
     if (!tokens) {
       return null;
     }
 
-    const hasAccess = Boolean(tokens.accessToken);
-    const hasRefresh = Boolean(tokens.refreshToken);
-
+    // The manager refreshes whenever a refresh token allows it, so a missing
+    // access token here means there was nothing to refresh with
     if (requirement === "access") {
-      return hasAccess ? tokens : null;
+      return tokens.accessToken ? tokens : null;
     }
 
-    return hasAccess || hasRefresh ? tokens : null;
+    return tokens;
   }
 }
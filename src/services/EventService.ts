@@ -0,0 +1,188 @@
+/* eslint-disable import/no-unresolved */
+import type Redis from "ioredis";
+
+import { UserEvent, UserEventType } from "../types";
+
+// Replay window for reconnecting clients: the last few hundred events, kept
+// for an hour after the most recent one
+const EVENT_STREAM_MAXLEN = 200;
+const EVENT_STREAM_TTL_SECONDS = 60 * 60;
+
+export const EVENT_KEYS = {
+  CHANNEL: (firebaseUid: string) => `user:${firebaseUid}:updates`,
+  STREAM: (firebaseUid: string) => `user:${firebaseUid}:events`,
+};
+
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+export type UserEventListener = (event: UserEvent) => void;
+
+/**
+ * True when stream id `a` sorts after `b` ("<ms>-<seq>" ids compare
+ * numerically part by part).
+ */
+export function isLaterEventId(a: string, b: string): boolean {
+  const [aMs, aSeq] = a.split("-").map(Number);
+  const [bMs, bSeq] = b.split("-").map(Number);
+  return aMs > bMs || (aMs === bMs && aSeq > bSeq);
+}
+
+/**
+ * Per-user event fan-out. Events are appended to a capped Redis stream for
+ * Last-Event-ID replay and published on the user's channel for live
+ * delivery. One subscriber connection is shared by every open SSE stream.
+ */
+export class EventService {
+  private listeners = new Map<string, Set<UserEventListener>>();
+
+  constructor(
+    private publisher: Redis,
+    private subscriber: Redis
+  ) {
+    this.subscriber.on("message", (channel: string, message: string) =>
+      this.dispatch(channel, message)
+    );
+  }
+
+  /**
+   * Never throws: a lost notification must not fail the work that
+   * produced it.
+   */
+  async publish(
+    firebaseUid: string,
+    type: UserEventType,
+    data: Record<string, unknown> = {}
+  ): Promise<UserEvent | null> {
+    try {
+      const streamKey = EVENT_KEYS.STREAM(firebaseUid);
+      const timestamp = new Date().toISOString();
+      const id = await this.publisher.xadd(
+        streamKey,
+        "MAXLEN",
+        "~",
+        EVENT_STREAM_MAXLEN,
+        "*",
+        "type",
+        type,
+        "timestamp",
+        timestamp,
+        "data",
+        JSON.stringify(data)
+      );
+      await this.publisher.expire(streamKey, EVENT_STREAM_TTL_SECONDS);
+
+      const event: UserEvent = { id: id ?? undefined, type, timestamp, data };
+      await this.publisher.publish(
+        EVENT_KEYS.CHANNEL(firebaseUid),
+        JSON.stringify(event)
+      );
+      return event;
+    } catch (error) {
+      console.error(`Failed to publish ${type} for ${firebaseUid}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Register a listener for a user's live events. Resolves once the channel
+   * subscription is active, with a function that removes the listener.
+   */
+  async subscribe(
+    firebaseUid: string,
+    listener: UserEventListener
+  ): Promise<() => Promise<void>> {
+    const channel = EVENT_KEYS.CHANNEL(firebaseUid);
+
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+      await this.subscriber.subscribe(channel);
+    }
+    channelListeners.add(listener);
+
+    return async () => {
+      const current = this.listeners.get(channel);
+      if (!current) return;
+
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(channel);
+        await this.subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
+  async replaySince(
+    firebaseUid: string,
+    lastEventId: string
+  ): Promise<UserEvent[]> {
+    if (!STREAM_ID_PATTERN.test(lastEventId)) {
+      return [];
+    }
+
+    const entries = await this.publisher.xrange(
+      EVENT_KEYS.STREAM(firebaseUid),
+      `(${lastEventId}`,
+      "+",
+      "COUNT",
+      EVENT_STREAM_MAXLEN
+    );
+
+    return entries.map(([id, fields]) => this.mapStreamEntry(id, fields));
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    await this.subscriber.quit();
+  }
+
+  private dispatch(channel: string, message: string) {
+    const channelListeners = this.listeners.get(channel);
+    if (!channelListeners?.size) return;
+
+    let event: UserEvent;
+    try {
+      // Legacy publishers send flat { type, timestamp, ...fields } payloads
+      const { id, type, timestamp, data, ...rest } = JSON.parse(message);
+      event = {
+        id,
+        type,
+        timestamp: timestamp ?? new Date().toISOString(),
+        data: data ?? rest,
+      };
+    } catch (error) {
+      console.error(`Dropping malformed event on ${channel}:`, error);
+      return;
+    }
+
+    for (const listener of channelListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Event listener on ${channel} failed:`, error);
+      }
+    }
+  }
+
+  private mapStreamEntry(id: string, fields: string[]): UserEvent {
+    const values: Record<string, string> = {};
+    for (let i = 0; i < fields.length; i += 2) {
+      values[fields[i]] = fields[i + 1];
+    }
+
+    let data: Record<string, unknown> = {};
+    try {
+      data = values.data ? JSON.parse(values.data) : {};
+    } catch {
+      data = {};
+    }
+
+    return {
+      id,
+      type: values.type as UserEventType,
+      timestamp: values.timestamp,
+      data,
+    };
+  }
+}
@@ -0,0 +1,185 @@
+/* eslint-disable import/no-unresolved */
+import { timingSafeEqual } from "crypto";
+
+import { GmailIntegration } from "../integrations/GmailIntegration";
+import { UserRepository } from "../repositories/UserRepository";
+import { GmailPushNotification } from "../types";
+import {
+  ServiceResult,
+  createErrorResult,
+  createSuccessResult,
+  handleServiceError,
+} from "../utils/errors";
+
+import { GmailTokenManager } from "./GmailTokenManager";
+import { JobQueueService } from "./JobQueueService";
+
+// Renew watches this long before Gmail lets them lapse
+const WATCH_RENEWAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface GmailPushSettings {
+  topic?: string;
+  token?: string;
+  audience?: string;
+  serviceAccount?: string;
+}
+
+export class GmailPushService {
+  constructor(
+    private userRepository: UserRepository,
+    private gmailIntegration: GmailIntegration,
+    private tokenManager: GmailTokenManager,
+    private jobQueue: JobQueueService,
+    private settings: GmailPushSettings
+  ) {}
+
+  /**
+   * Accept a push carrying an OIDC token for the configured audience, issued
+   * to the expected service account. The shared token is only a fallback for
+   * deployments without OIDC: Pub/Sub can only send it in the query string,
+   * so it is ignored once an audience is configured.
+   */
+  async verifyPushRequest(credentials: {
+    token?: string;
+    bearerToken?: string;
+  }): Promise<boolean> {
+    const { token, audience, serviceAccount } = this.settings;
+
+    if (audience) {
+      if (!credentials.bearerToken) {
+        return false;
+      }
+      const email = await this.gmailIntegration.verifyPushToken(
+        credentials.bearerToken,
+        audience
+      );
+      return Boolean(email) && (!serviceAccount || email === serviceAccount);
+    }
+
+    if (!token || !credentials.token) {
+      return false;
+    }
+    return secretsMatch(credentials.token, token);
+  }
+
+  decodeNotification(data: string): GmailPushNotification | null {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(data, "base64").toString("utf-8")
+      ) as { emailAddress?: unknown; historyId?: unknown };
+
+      if (
+        typeof decoded.emailAddress !== "string" ||
+        (typeof decoded.historyId !== "string" &&
+          typeof decoded.historyId !== "number")
+      ) {
+        return null;
+      }
+
+      return {
+        emailAddress: decoded.emailAddress,
+        historyId: String(decoded.historyId),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async handleNotification(
+    notification: GmailPushNotification
+  ): Promise<ServiceResult<{ queued: boolean }>> {
+    try {
+      const user = await this.userRepository.findByEmail(
+        notification.emailAddress
+      );
+      if (!user) {
+        return createSuccessResult({ queued: false });
+      }
+
+      // The notification's historyId is only a hint; the sync reads changes
+      // from the stored cursor so nothing between pushes is skipped. A failed
+      // enqueue surfaces as an error so Pub/Sub redelivers the push.
+      await this.jobQueue.enqueue(
+        "email.sync",
+        user.firebaseUid,
+        {},
+        { dedupeKey: `email.sync:${user.firebaseUid}` }
+      );
+      return createSuccessResult({ queued: true });
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  async registerWatch(
+    firebaseUid: string
+  ): Promise<ServiceResult<{ expiration: Date }>> {
+    try {
+      if (!this.settings.topic) {
+        return createErrorResult("Gmail push notifications are not configured");
+      }
+
+      const user = await this.userRepository.findByFirebaseUid(firebaseUid);
+      if (!user) {
+        return createErrorResult("User not found");
+      }
+
+      const tokens = await this.tokenManager.getValidTokens(firebaseUid);
+      if (!tokens) {
+        return createErrorResult("Gmail tokens not found");
+      }
+
+      const { expiration } = await this.gmailIntegration.watchMailbox(
+        tokens,
+        this.settings.topic
+      );
+      await this.userRepository.updateSyncState(user.id, {
+        watchExpiration: expiration,
+      });
+
+      return createSuccessResult({ expiration });
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  async renewExpiringWatches(): Promise<
+    ServiceResult<{ renewed: number; failed: number }>
+  > {
+    try {
+      if (!this.settings.topic) {
+        return createSuccessResult({ renewed: 0, failed: 0 });
+      }
+
+      const cutoff = new Date(Date.now() + WATCH_RENEWAL_WINDOW_MS);
+      const firebaseUids =
+        await this.userRepository.findFirebaseUidsWithWatchExpiringBefore(
+          cutoff
+        );
+
+      let renewed = 0;
+      for (const firebaseUid of firebaseUids) {
+        const result = await this.registerWatch(firebaseUid);
+        if (result.success) {
+          renewed += 1;
+        }
+      }
+
+      return createSuccessResult({
+        renewed,
+        failed: firebaseUids.length - renewed,
+      });
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+}
+
+function secretsMatch(received: string, expected: string): boolean {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+  return (
+    receivedBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(receivedBuffer, expectedBuffer)
+  );
+}
@@ -0,0 +1,116 @@
+/* eslint-disable import/no-unresolved */
+import { GmailIntegration } from "../integrations/GmailIntegration";
+import { UserRepository } from "../repositories/UserRepository";
+import { AuthTokens, GmailCredentials } from "../types";
+import { GmailReconnectRequiredError } from "../utils/errors";
+
+// Refresh this long before the stored expiry so calls never race it
+const REFRESH_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Single place that hands out Gmail credentials: refreshes access tokens
+ * ahead of expiry, persists whatever Google returns, and flags accounts whose
+ * grant has been revoked.
+ */
+export class GmailTokenManager {
+  // One refresh per user at a time; concurrent callers share the result
+  private inFlightRefreshes = new Map<string, Promise<AuthTokens>>();
+
+  constructor(
+    private userRepository: UserRepository,
+    private gmailIntegration: GmailIntegration
+  ) {
+    this.gmailIntegration.onTokensRefreshed((firebaseUid, tokens) => {
+      this.userRepository
+        .storeTokens(firebaseUid, tokens, { markActive: false })
+        .catch((error) =>
+          console.error(
+            `Failed to persist refreshed tokens for ${firebaseUid}:`,
+            error
+          )
+        );
+    });
+    this.gmailIntegration.onGrantRevoked((firebaseUid) => {
+      this.markReconnectRequired(firebaseUid).catch((error) =>
+        console.error(
+          `Failed to mark Gmail reconnect required for ${firebaseUid}:`,
+          error
+        )
+      );
+    });
+  }
+
+  /**
+   * Tokens ready for a Gmail call, or null when the user never connected
+   * Gmail. Throws GmailReconnectRequiredError once Google rejects the
+   * refresh token.
+   */
+  async getValidTokens(firebaseUid: string): Promise<GmailCredentials | null> {
+    const tokens = await this.userRepository.getTokens(firebaseUid);
+    if (!tokens?.accessToken && !tokens?.refreshToken) {
+      return null;
+    }
+
+    if (!this.needsRefresh(tokens) || !tokens.refreshToken) {
+      // Without a refresh token, let Gmail decide whether it still works
+      return { ...tokens, firebaseUid };
+    }
+
+    const refreshed = await this.refresh(firebaseUid, tokens.refreshToken);
+    return { ...refreshed, firebaseUid };
+  }
+
+  async refresh(
+    firebaseUid: string,
+    refreshToken: string
+  ): Promise<AuthTokens> {
+    const pending = this.inFlightRefreshes.get(firebaseUid);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = this.performRefresh(firebaseUid, refreshToken).finally(() =>
+      this.inFlightRefreshes.delete(firebaseUid)
+    );
+    this.inFlightRefreshes.set(firebaseUid, refresh);
+    return refresh;
+  }
+
+  needsRefresh(tokens: AuthTokens): boolean {
+    if (!tokens.accessToken) {
+      return true;
+    }
+    // Tokens stored before expiry tracking are trusted until Gmail rejects them
+    if (!tokens.expiresAt) {
+      return false;
+    }
+    return tokens.expiresAt.getTime() - Date.now() < REFRESH_SKEW_MS;
+  }
+
+  private async performRefresh(
+    firebaseUid: string,
+    refreshToken: string
+  ): Promise<AuthTokens> {
+    try {
+      const refreshed =
+        await this.gmailIntegration.refreshAccessToken(refreshToken);
+      await this.userRepository.storeTokens(firebaseUid, refreshed, {
+        markActive: false,
+      });
+      return refreshed;
+    } catch (error) {
+      if (error instanceof GmailReconnectRequiredError) {
+        await this.markReconnectRequired(firebaseUid);
+      }
+      throw error;
+    }
+  }
+
+  private async markReconnectRequired(firebaseUid: string): Promise<void> {
+    console.warn(
+      `Gmail grant revoked for ${firebaseUid}; marking reconnect required`
+    );
+    this.gmailIntegration.releaseClient(firebaseUid);
+    await this.userRepository.markGmailReconnectRequired(firebaseUid);
+  }
+}
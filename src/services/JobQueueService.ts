@@ -0,0 +1,374 @@
+/* eslint-disable import/no-unresolved */
+import { randomUUID } from "crypto";
+
+import { JobRepository } from "../repositories/JobRepository";
+import { Job, JobType } from "../types";
+import {
+  NotFoundError,
+  ServiceResult,
+  createSuccessResult,
+  handleServiceError,
+} from "../utils/errors";
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const LEASE_RECOVERY_INTERVAL_MS = 60 * 1000;
+
+export type JobHandler<TPayload = Record<string, unknown>> = (
+  job: Job<TPayload>
+) => Promise<unknown>;
+
+export interface JobHandlerOptions {
+  // Jobs of this type run at most this many at a time per process
+  concurrency?: number;
+  maxAttempts?: number;
+  // Base delay for exponential backoff between attempts
+  backoffMs?: number;
+  // How long a claimed job may run before another worker reclaims it
+  timeoutMs?: number;
+  // Called once a job has exhausted its attempts and been dead-lettered
+  onFailed?: (job: Job, error: unknown) => Promise<void>;
+}
+
+export interface EnqueueOptions {
+  // Collapse enqueues with the same key while a job is still unfinished
+  dedupeKey?: string;
+  delayMs?: number;
+}
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  options: Required<Omit<JobHandlerOptions, "onFailed">> &
+    Pick<JobHandlerOptions, "onFailed">;
+}
+
+const FINISHED_STATUSES = new Set(["COMPLETED", "FAILED"]);
+
+export class JobQueueService {
+  private handlers = new Map<JobType, RegisteredHandler>();
+  private activeCounts = new Map<JobType, number>();
+  private localJobIds = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private lastLeaseRecoveryAt = 0;
+
+  constructor(
+    private jobRepository: JobRepository,
+    private pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS
+  ) {}
+
+  registerHandler<TPayload = Record<string, unknown>>(
+    type: JobType,
+    handler: JobHandler<TPayload>,
+    options: JobHandlerOptions = {}
+  ): void {
+    this.handlers.set(type, {
+      handler: handler as JobHandler,
+      options: {
+        concurrency: options.concurrency ?? 1,
+        maxAttempts: options.maxAttempts ?? 3,
+        backoffMs: options.backoffMs ?? 5000,
+        timeoutMs: options.timeoutMs ?? 10 * 60 * 1000,
+        onFailed: options.onFailed,
+      },
+    });
+  }
+
+  async enqueue<TPayload extends Record<string, unknown>>(
+    type: JobType,
+    firebaseUid: string,
+    payload: TPayload = {} as TPayload,
+    options: EnqueueOptions = {}
+  ): Promise<Job<TPayload>> {
+    const registered = this.handlers.get(type);
+    const now = new Date();
+    const job: Job<TPayload> = {
+      id: randomUUID(),
+      type,
+      firebaseUid,
+      payload,
+      status: "QUEUED",
+      attempts: 0,
+      maxAttempts: registered?.options.maxAttempts ?? 3,
+      runAt: new Date(now.getTime() + (options.delayMs ?? 0)),
+      dedupeKey: options.dedupeKey,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (options.dedupeKey) {
+      const existing = await this.reserveDedupeKey(options.dedupeKey, job.id);
+      if (existing) {
+        return existing as Job<TPayload>;
+      }
+    }
+
+    await this.jobRepository.save(job as Job);
+    if (options.delayMs) {
+      await this.jobRepository.schedule(job as Job);
+    } else {
+      await this.jobRepository.pushReady(job as Job);
+    }
+
+    return job;
+  }
+
+  async getJob(
+    firebaseUid: string,
+    jobId: string
+  ): Promise<ServiceResult<Job>> {
+    try {
+      const job = await this.jobRepository.findById(jobId);
+      // Other users' jobs are indistinguishable from missing ones
+      if (!job || job.firebaseUid !== firebaseUid) {
+        throw new NotFoundError("Job not found");
+      }
+      return createSuccessResult(job);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log("Job queue already running");
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(
+      `Starting job queue for: ${Array.from(this.handlers.keys()).join(", ")}`
+    );
+    void this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.isRunning = false;
+    console.log("Job queue stopped");
+  }
+
+  private async tick() {
+    try {
+      await this.jobRepository.promoteDue(new Date());
+
+      const recoverLeases =
+        Date.now() - this.lastLeaseRecoveryAt >= LEASE_RECOVERY_INTERVAL_MS;
+      if (recoverLeases) {
+        this.lastLeaseRecoveryAt = Date.now();
+      }
+
+      for (const type of this.handlers.keys()) {
+        if (recoverLeases) {
+          await this.recoverExpiredLeases(type);
+        }
+        await this.fill(type);
+      }
+    } catch (error) {
+      console.error("Job queue poll failed:", error);
+    } finally {
+      if (this.isRunning) {
+        this.timer = setTimeout(() => void this.tick(), this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async fill(type: JobType) {
+    const registered = this.handlers.get(type);
+    if (!registered || !this.isRunning) return;
+
+    while (
+      (this.activeCounts.get(type) ?? 0) < registered.options.concurrency
+    ) {
+      // Take the slot before claiming; a refill from a finishing job can run
+      // alongside the poll and would otherwise pass the same check
+      this.activeCounts.set(type, (this.activeCounts.get(type) ?? 0) + 1);
+      let jobId: string | null = null;
+      try {
+        jobId = await this.jobRepository.claimNext(type);
+      } finally {
+        if (!jobId) {
+          this.activeCounts.set(type, (this.activeCounts.get(type) ?? 1) - 1);
+        }
+      }
+      if (!jobId) return;
+
+      this.localJobIds.add(jobId);
+
+      void this.process(type, jobId, registered)
+        .catch((error) =>
+          console.error(`Job ${jobId} (${type}) could not be processed:`, error)
+        )
+        .finally(() => {
+          this.activeCounts.set(type, (this.activeCounts.get(type) ?? 1) - 1);
+          this.localJobIds.delete(jobId);
+          void this.fill(type).catch((error) =>
+            console.error(`Job queue refill failed for ${type}:`, error)
+          );
+        });
+    }
+  }
+
+  private async process(
+    type: JobType,
+    jobId: string,
+    { handler, options }: RegisteredHandler
+  ) {
+    const job = await this.jobRepository.findById(jobId);
+    if (!job) {
+      await this.jobRepository.releaseProcessing(type, jobId);
+      return;
+    }
+
+    job.status = "RUNNING";
+    job.attempts += 1;
+    job.leaseExpiresAt = new Date(Date.now() + options.timeoutMs);
+    job.updatedAt = new Date();
+    await this.jobRepository.save(job);
+
+    try {
+      const result = await handler(job);
+
+      await this.jobRepository.save({
+        ...job,
+        status: "COMPLETED",
+        result,
+        lastError: undefined,
+        leaseExpiresAt: undefined,
+        updatedAt: new Date(),
+        completedAt: new Date(),
+      });
+      await this.jobRepository.releaseProcessing(type, job.id);
+
+      if (job.dedupeKey) {
+        const rerunRequested = await this.jobRepository.releaseDedupe(
+          job.dedupeKey,
+          job.id
+        );
+        if (rerunRequested) {
+          await this.enqueue(type, job.firebaseUid, job.payload, {
+            dedupeKey: job.dedupeKey,
+          });
+        }
+      }
+    } catch (error) {
+      await this.handleFailure(type, job, error, options);
+    }
+  }
+
+  private async handleFailure(
+    type: JobType,
+    job: Job,
+    error: unknown,
+    options: RegisteredHandler["options"]
+  ) {
+    const message = error instanceof Error ? error.message : String(error);
+    const failed: Job = {
+      ...job,
+      lastError: message,
+      leaseExpiresAt: undefined,
+      updatedAt: new Date(),
+    };
+
+    if (job.attempts < job.maxAttempts) {
+      failed.status = "RETRYING";
+      failed.runAt = new Date(
+        Date.now() + options.backoffMs * 2 ** (job.attempts - 1)
+      );
+      await this.jobRepository.save(failed);
+      await this.jobRepository.schedule(failed);
+      await this.jobRepository.releaseProcessing(type, job.id);
+      console.warn(
+        `Job ${job.id} (${type}) failed attempt ${job.attempts}/${job.maxAttempts}: ${message}`
+      );
+      return;
+    }
+
+    failed.status = "FAILED";
+    failed.completedAt = new Date();
+    await this.jobRepository.save(failed);
+    await this.jobRepository.pushDeadLetter(job.id);
+    await this.jobRepository.releaseProcessing(type, job.id);
+    if (job.dedupeKey) {
+      await this.jobRepository.releaseDedupe(job.dedupeKey, job.id);
+    }
+    console.error(`Job ${job.id} (${type}) moved to dead-letter: ${message}`);
+
+    if (options.onFailed) {
+      try {
+        await options.onFailed(failed, error);
+      } catch (hookError) {
+        console.error(`onFailed hook for job ${job.id} failed:`, hookError);
+      }
+    }
+  }
+
+  /**
+   * Put jobs back on the ready list when the worker that claimed them held
+   * them past their timeout (e.g. the process restarted mid-job).
+   */
+  private async recoverExpiredLeases(type: JobType) {
+    const registered = this.handlers.get(type);
+    if (!registered) return;
+
+    const now = Date.now();
+    for (const jobId of await this.jobRepository.listProcessing(type)) {
+      if (this.localJobIds.has(jobId)) continue;
+
+      const job = await this.jobRepository.findById(jobId);
+      if (!job) {
+        await this.jobRepository.releaseProcessing(type, jobId);
+        continue;
+      }
+
+      const expiresAt =
+        job.leaseExpiresAt?.getTime() ??
+        job.updatedAt.getTime() + registered.options.timeoutMs;
+      if (expiresAt < now) {
+        console.warn(`Requeueing job ${job.id} (${type}) after lease expiry`);
+        await this.jobRepository.requeueProcessing(type, job.id);
+      }
+    }
+  }
+
+  /**
+   * Returns the unfinished job already holding the key, or null once the key
+   * has been reserved for the new job. A running holder is flagged so it
+   * runs once more after finishing.
+   */
+  private async reserveDedupeKey(
+    dedupeKey: string,
+    jobId: string
+  ): Promise<Job | null> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (await this.jobRepository.claimDedupe(dedupeKey, jobId)) {
+        return null;
+      }
+
+      const holderId = await this.jobRepository.getDedupeHolder(dedupeKey);
+      const holder = holderId
+        ? await this.jobRepository.findById(holderId)
+        : null;
+
+      if (holder && !FINISHED_STATUSES.has(holder.status)) {
+        if (
+          holder.status !== "RUNNING" ||
+          (await this.jobRepository.requestRerun(dedupeKey, holder.id))
+        ) {
+          return holder;
+        }
+        // The holder finished and released the key since it was read
+        continue;
+      }
+
+      // The holder finished without releasing the key; take it over
+      if (holderId) {
+        await this.jobRepository.releaseDedupe(dedupeKey, holderId);
+      }
+    }
+
+    return null;
+  }
+}
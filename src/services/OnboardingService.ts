@@ -0,0 +1,207 @@
+/* eslint-disable import/no-unresolved */
+import { AIIntegration } from "../integrations/AIIntegration";
+import {
+  fetchRecentEmailsForStyleLearning,
+  cacheUserEmailsForOnboarding,
+  getCachedOnboardingEmails,
+} from "../lib/onboarding-emails";
+import { UserRepository } from "../repositories/UserRepository";
+import {
+  AIStyleProfile,
+  Job,
+  StyleEvidenceSource,
+  StyleSample,
+} from "../types";
+import {
+  NotFoundError,
+  ServiceResult,
+  ValidationError,
+  createSuccessResult,
+  handleServiceError,
+} from "../utils/errors";
+import { selectStyleSamples } from "../utils/styleEvidence";
+
+import { EventService } from "./EventService";
+import { JobQueueService } from "./JobQueueService";
+
+const STYLE_LEARNING_SAMPLE = { sentCount: 10, inboxCount: 20 };
+
+export class OnboardingService {
+  constructor(
+    private userRepository: UserRepository,
+    private aiIntegration: AIIntegration,
+    private jobQueue: JobQueueService,
+    private eventService: EventService
+  ) {}
+
+  async startQuestionnaire(firebaseUid: string): Promise<ServiceResult<Job>> {
+    try {
+      await this.userRepository.updateOnboardingStatus(
+        firebaseUid,
+        "QUESTIONNAIRE_IN_PROGRESS"
+      );
+
+      const job = await this.jobQueue.enqueue(
+        "onboarding.fetch-emails",
+        firebaseUid,
+        {},
+        { dedupeKey: `onboarding.fetch-emails:${firebaseUid}` }
+      );
+      return createSuccessResult(job as Job);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  async submitQuestionnaire(
+    firebaseUid: string,
+    questionnaireData: Record<string, unknown>
+  ): Promise<ServiceResult<Job>> {
+    try {
+      if (!questionnaireData || Object.keys(questionnaireData).length === 0) {
+        throw new ValidationError("Questionnaire data is required");
+      }
+
+      await this.userRepository.storeQuestionnaire(
+        firebaseUid,
+        questionnaireData
+      );
+
+      const job = await this.jobQueue.enqueue(
+        "onboarding.generate-profile",
+        firebaseUid,
+        {},
+        { dedupeKey: `onboarding.generate-profile:${firebaseUid}` }
+      );
+      return createSuccessResult(job as Job);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  /**
+   * Job handler: pull recent sent and inbox mail into the onboarding cache
+   * while the user fills in the questionnaire.
+   */
+  async fetchStyleLearningEmails(
+    firebaseUid: string
+  ): Promise<ServiceResult<{ sent: number; inbox: number }>> {
+    try {
+      const { sentEmails, inboxEmails } =
+        await fetchRecentEmailsForStyleLearning(
+          firebaseUid,
+          STYLE_LEARNING_SAMPLE
+        );
+      await cacheUserEmailsForOnboarding(firebaseUid, {
+        sentEmails,
+        inboxEmails,
+      });
+
+      return createSuccessResult({
+        sent: sentEmails.length,
+        inbox: inboxEmails.length,
+      });
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  /**
+   * Job handler: build the AI style profile from the stored questionnaire
+   * and the user's own sent mail. Failures leave the status at
+   * PROFILE_GENERATING so a retry can pick it up; markProfileFailed runs
+   * once retries are exhausted.
+   */
+  async generateProfile(
+    firebaseUid: string
+  ): Promise<ServiceResult<AIStyleProfile>> {
+    try {
+      const questionnaireData =
+        await this.userRepository.getQuestionnaire(firebaseUid);
+      if (!questionnaireData) {
+        throw new NotFoundError("Questionnaire not found");
+      }
+
+      await this.userRepository.updateOnboardingStatus(
+        firebaseUid,
+        "PROFILE_GENERATING"
+      );
+
+      const sentSamples = await this.loadSentSamples(firebaseUid);
+      const { profile, repairedFields } =
+        await this.aiIntegration.generateStyleProfile(
+          questionnaireData,
+          sentSamples
+        );
+
+      const sources: StyleEvidenceSource[] = ["questionnaire"];
+      if (sentSamples.length > 0) {
+        sources.push("sent_emails");
+      }
+
+      const styleProfile: AIStyleProfile = {
+        ...profile,
+        evidence: {
+          sources,
+          sentEmailCount: sentSamples.length,
+          sentEmailIds: sentSamples.map((sample) => sample.id),
+          estimatedTokens: sentSamples.reduce(
+            (total, sample) => total + sample.estimatedTokens,
+            0
+          ),
+          generatedAt: new Date().toISOString(),
+          ...(repairedFields.length > 0 && { repairedFields }),
+        },
+      };
+
+      const { version } = await this.userRepository.storeStyleProfile(
+        firebaseUid,
+        styleProfile,
+        sentSamples.length > 0 ? "SENT_MAIL_ANALYSIS" : "QUESTIONNAIRE"
+      );
+      await this.userRepository.updateOnboardingStatus(firebaseUid, "ACTIVE");
+      await this.eventService.publish(firebaseUid, "profile_ready", {
+        version,
+        sources,
+        sentEmailCount: sentSamples.length,
+      });
+
+      return createSuccessResult(styleProfile);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  /**
+   * Sent mail cached by the fetch job, or fetched now if the cache expired or
+   * that job has not finished. Without Gmail access the profile falls back to
+   * questionnaire-only evidence.
+   */
+  private async loadSentSamples(firebaseUid: string): Promise<StyleSample[]> {
+    let emails = await getCachedOnboardingEmails(firebaseUid);
+
+    if (!emails) {
+      try {
+        emails = await fetchRecentEmailsForStyleLearning(
+          firebaseUid,
+          STYLE_LEARNING_SAMPLE
+        );
+      } catch (error) {
+        console.warn(
+          `[Onboarding] No sent mail evidence for ${firebaseUid}:`,
+          error
+        );
+        return [];
+      }
+    }
+
+    return selectStyleSamples(emails.sentEmails);
+  }
+
+  async markProfileFailed(firebaseUid: string): Promise<void> {
+    await this.userRepository.updateOnboardingStatus(
+      firebaseUid,
+      "PROFILE_ERROR"
+    );
+  }
+}
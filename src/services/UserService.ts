@@ -1,17 +1,30 @@
 /* eslint-disable import/no-unresolved */
-import { VertexAIIntegration } from "../integrations/VertexAIIntegration";
+import { AIIntegration } from "../integrations/AIIntegration";
 import { UserRepository } from "../repositories/UserRepository";
-import { User, AIStyleProfile, OnboardingStatus } from "../types";
 import {
+  User,
+  AIStyleProfile,
+  CurrentStyleProfile,
+  OnboardingStatus,
+  StyleProfileVersion,
+} from "../types";
+import {
+  ConflictError,
+  NotFoundError,
   ServiceResult,
+  ValidationError,
   createSuccessResult,
   handleServiceError,
 } from "../utils/errors";
+import { applyStyleProfilePatch } from "../utils/styleProfile";
+
+// Versions returned by the history endpoint, newest first
+const MAX_LISTED_STYLE_PROFILE_VERSIONS = 50;
 
 export class UserService {
   constructor(
     private userRepository: UserRepository,
-    private vertexAIIntegration: VertexAIIntegration
+    private aiIntegration: AIIntegration
   ) {}
 
   async getUserProfile(firebaseUid: string): Promise<ServiceResult<User>> {
@@ -53,11 +66,15 @@ export class UserService {
       );
 
       // Generate AI style profile
-      const styleProfile =
-        await this.vertexAIIntegration.generateStyleProfile(questionnaireData);
+      const { profile: styleProfile } =
+        await this.aiIntegration.generateStyleProfile(questionnaireData);
 
-      // Store the profile and questionnaire data
-      await this.userRepository.storeStyleProfile(firebaseUid, styleProfile);
+      // Store the profile as a new version
+      await this.userRepository.storeStyleProfile(
+        firebaseUid,
+        styleProfile,
+        "QUESTIONNAIRE"
+      );
 
       // Update onboarding status to active
       await this.userRepository.updateOnboardingStatus(firebaseUid, "ACTIVE");
@@ -84,6 +101,108 @@ export class UserService {
     }
   }
 
+  async getCurrentStyleProfile(
+    firebaseUid: string
+  ): Promise<ServiceResult<CurrentStyleProfile>> {
+    try {
+      const current =
+        await this.userRepository.getCurrentStyleProfile(firebaseUid);
+      if (!current) {
+        throw new NotFoundError("Style profile not found");
+      }
+      return createSuccessResult(current);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  /**
+   * Apply a field-level edit to the current profile and save the result as
+   * a new MANUAL_EDIT version.
+   */
+  async updateStyleProfile(
+    firebaseUid: string,
+    patch: unknown
+  ): Promise<ServiceResult<StyleProfileVersion>> {
+    try {
+      const current =
+        await this.userRepository.getCurrentStyleProfile(firebaseUid);
+      if (!current) {
+        throw new NotFoundError("Style profile not found");
+      }
+
+      const { profile, errors } = applyStyleProfilePatch(
+        current.profile,
+        patch
+      );
+      if (errors.length > 0) {
+        throw new ValidationError(
+          `Invalid style profile: ${errors.join("; ")}`
+        );
+      }
+
+      const version = await this.userRepository.storeStyleProfile(
+        firebaseUid,
+        profile,
+        "MANUAL_EDIT"
+      );
+      return createSuccessResult(version);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  async listStyleProfileVersions(
+    firebaseUid: string
+  ): Promise<ServiceResult<StyleProfileVersion[]>> {
+    try {
+      const user = await this.requireUser(firebaseUid);
+      const versions = await this.userRepository.listStyleProfileVersions(
+        user.id,
+        MAX_LISTED_STYLE_PROFILE_VERSIONS
+      );
+      return createSuccessResult(versions);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
+  /**
+   * Make an earlier version current again by saving a copy of it as a new
+   * ROLLBACK version, so the history itself is never rewritten.
+   */
+  async rollbackStyleProfile(
+    firebaseUid: string,
+    versionId: string
+  ): Promise<ServiceResult<StyleProfileVersion>> {
+    try {
+      const user = await this.requireUser(firebaseUid);
+      const target = await this.userRepository.findStyleProfileVersion(
+        user.id,
+        versionId
+      );
+      if (!target) {
+        throw new NotFoundError("Style profile version not found");
+      }
+
+      const current =
+        await this.userRepository.getCurrentStyleProfile(firebaseUid);
+      if (current?.versionId === target.id) {
+        throw new ConflictError("Version is already the current style profile");
+      }
+
+      const version = await this.userRepository.storeStyleProfile(
+        firebaseUid,
+        target.profile,
+        "ROLLBACK",
+        { restoredFromVersion: target.version }
+      );
+      return createSuccessResult(version);
+    } catch (error) {
+      return handleServiceError(error);
+    }
+  }
+
   async updateOnboardingProgress(
     firebaseUid: string,
     status: OnboardingStatus,
@@ -106,10 +225,18 @@ export class UserService {
 
   async testAIConnection(): Promise<ServiceResult<boolean>> {
     try {
-      const isConnected = await this.vertexAIIntegration.testConnection();
+      const isConnected = await this.aiIntegration.testConnection();
       return createSuccessResult(isConnected);
     } catch (error) {
       return handleServiceError(error);
     }
   }
+
+  private async requireUser(firebaseUid: string): Promise<User> {
+    const user = await this.userRepository.findByFirebaseUid(firebaseUid);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    return user;
+  }
 }
@@ -19,12 +19,20 @@ export type OnboardingStatus =
   | "QUESTIONNAIRE_COMPLETED"
   | "PROFILE_GENERATING"
   | "PROFILE_ERROR"
-  | "ACTIVE";
+  | "ACTIVE"
+  // Google revoked the grant; the user must connect Gmail again
+  | "GMAIL_RECONNECT_REQUIRED";
 
 // Auth related types
 export interface AuthTokens {
   accessToken?: string;
   refreshToken?: string;
+  expiresAt?: Date;
+}
+
+// Tokens tagged with their owner so Gmail calls run on that user's client
+export interface GmailCredentials extends AuthTokens {
+  firebaseUid: string;
 }
 
 export interface FirebaseUser {
@@ -42,10 +50,34 @@ export interface EmailMessage {
   from: string;
   to: string;
   subject: string;
+  // New text of the message; quoted history and signature are in quotedText
   body: string;
+  quotedText?: string;
+  // Sanitized: no active content, remote images behind data-remote-* attributes
   htmlBody?: string;
+  remoteContentBlocked?: boolean;
+  trackingPixelsBlocked?: number;
   timestamp: Date;
   isUnread: boolean;
+  labelIds?: string[];
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  id: string;
+  emailId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  // Inline parts are referenced from the HTML body as cid:<contentId>
+  contentId?: string;
+  isInline: boolean;
+}
+
+export interface AttachmentContent {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
 }
 
 export interface EmailThread {
@@ -53,21 +85,74 @@ export interface EmailThread {
   gmailId: string;
   subject: string;
   messages: EmailMessage[];
+  lastMessageAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Inbox row: the thread with only its latest message attached
+export interface EmailThreadSummary extends EmailThread {
+  unreadCount: number;
+  preview: string;
+}
+
+export interface ThreadListFilters {
+  unread?: boolean;
+  label?: string;
+  since?: Date;
+}
+
 export interface EmailDraft {
   id: string;
   threadId: string;
   content: string;
   tone?: string;
+  length?: DraftLength;
+  directness?: DraftDirectness;
+  includeGreeting?: boolean;
+  // Revision request the draft was regenerated with
+  instruction?: string;
+  // Shared by variants generated together and drafts regenerated from them
+  variantGroupId?: string;
+  // Style profile version the draft was generated with
+  styleProfileVersionId?: string;
   status: DraftStatus;
+  gmailMessageId?: string;
+  sentAt?: Date;
+  events?: DraftEvent[];
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type DraftStatus = "PENDING" | "SENT" | "FAILED";
+// Same values as the style profile's primaryTone
+export type DraftTone =
+  "Friendly" | "Formal" | "Direct" | "Diplomatic" | "Casual" | "Professional";
+
+export type DraftLength = "short" | "medium" | "long";
+
+export type DraftDirectness = "direct" | "balanced" | "softened";
+
+export interface DraftControls {
+  tone?: DraftTone;
+  length?: DraftLength;
+  directness?: DraftDirectness;
+  // Defaults to the user's usual greeting; false starts with the content
+  includeGreeting?: boolean;
+}
+
+export type DraftStatus =
+  "PENDING" | "APPROVED" | "EDITED" | "REJECTED" | "SENT";
+
+export type DraftAction =
+  "CREATED" | "APPROVED" | "EDITED" | "REJECTED" | "SENT";
+
+export interface DraftEvent {
+  id: string;
+  draftId: string;
+  action: DraftAction;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
 
 // AI Style Profile types
 export interface AIStyleProfile {
@@ -123,6 +208,49 @@ export interface AIStyleProfile {
     openingStrategy: string;
     closingStrategy: string;
   };
+  evidence?: StyleProfileEvidence;
+}
+
+export type StyleEvidenceSource = "questionnaire" | "sent_emails";
+
+// What a generated style profile was based on
+export interface StyleProfileEvidence {
+  sources: StyleEvidenceSource[];
+  sentEmailCount: number;
+  sentEmailIds: string[];
+  estimatedTokens: number;
+  generatedAt: string;
+  // Fields the model got wrong twice and that were filled with defaults
+  repairedFields?: string[];
+}
+
+export type StyleProfileSource =
+  "QUESTIONNAIRE" | "SENT_MAIL_ANALYSIS" | "MANUAL_EDIT" | "ROLLBACK";
+
+// One saved state of a user's style profile; the highest version is current
+export interface StyleProfileVersion {
+  id: string;
+  version: number;
+  source: StyleProfileSource;
+  profile: AIStyleProfile;
+  // Version whose profile a rollback restored
+  restoredFromVersion?: number;
+  createdAt: Date;
+}
+
+export interface CurrentStyleProfile {
+  profile: AIStyleProfile;
+  // Absent for profiles stored before versioning
+  versionId?: string;
+  version?: number;
+}
+
+// Cleaned excerpt of the user's own sent mail used as style evidence
+export interface StyleSample {
+  id: string;
+  subject: string;
+  body: string;
+  estimatedTokens: number;
 }
 
 // API Response types
@@ -135,10 +263,10 @@ export interface ApiResponse<T = unknown> {
 
 export interface PaginatedResponse<T> extends ApiResponse<T> {
   pagination?: {
-    page: number;
     limit: number;
-    total: number;
-    totalPages: number;
+    // Opaque; pass back as `cursor` for the next page
+    nextCursor: string | null;
+    hasMore: boolean;
   };
 }
 
@@ -147,6 +275,7 @@ export interface ServiceResult<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  statusCode?: number;
 }
 
 // Gmail API types
@@ -156,20 +285,231 @@ export interface GmailMessage {
   subject: string;
   from: string;
   to: string;
+  cc?: string;
   date: string;
   snippet: string;
   body?: string;
+  quotedText?: string;
   htmlBody?: string;
   isUnread: boolean;
   messageIdHeader?: string;
   references?: string;
+  labelIds?: string[];
+  attachments?: GmailAttachment[];
+}
+
+// Attachment part as found in a Gmail payload
+export interface GmailAttachment {
+  // MIME part id, e.g. "1.2"; stable across fetches unlike attachmentId
+  partId: string;
+  attachmentId?: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentId?: string;
+  isInline: boolean;
+}
+
+export type LabelType = "SYSTEM" | "USER";
+
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type: LabelType;
+  color?: string;
+}
+
+// Local mirror of a Gmail label; `gmailId` is what Email.labelIds holds
+export interface MailLabel {
+  id: string;
+  gmailId: string;
+  name: string;
+  type: LabelType;
+  color?: string;
+}
+
+export type ThreadAction =
+  "read" | "unread" | "star" | "unstar" | "archive" | "trash";
+
+export interface ThreadLabelChange {
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+}
+
+// A new message that starts its own thread
+export interface ComposeEmailInput {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+}
+
+// Short instruction the AI expands into a new email, e.g.
+// "tell Sam the launch slips a week"
+export interface ComposeGenerationContext {
+  brief: string;
+  to?: string[];
+  subject?: string;
+  tone?: string;
+}
+
+export interface ComposedDraft {
+  subject: string;
+  body: string;
+}
+
+export interface ThreadActionItem {
+  task: string;
+  // Person responsible, when the thread names one
+  owner?: string;
+  dueDate?: string;
+}
+
+export interface ThreadDeadline {
+  description: string;
+  // ISO date when the thread pins it down, otherwise as written
+  date: string;
+}
+
+export interface ThreadSummaryContent {
+  tldr: string;
+  decisions: string[];
+  openQuestions: string[];
+  actionItems: ThreadActionItem[];
+  deadlines: ThreadDeadline[];
+}
+
+// AI catch-up summary of a whole thread, not the inbox row
+// (EmailThreadSummary)
+export interface ThreadSummary extends ThreadSummaryContent {
+  threadId: string;
+  generatedAt: Date;
+}
+
+export type ReplyMode = "reply" | "reply_all" | "forward";
+
+// Explicit recipients replace the computed ones for that field
+export interface ReplyOptions {
+  body: string;
+  mode?: ReplyMode;
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+}
+
+// Changes reported by Gmail's history API since a given historyId
+export interface GmailHistoryChanges {
+  historyId: string;
+  addedMessageIds: string[];
+  deletedMessageIds: string[];
+  labelChanges: Array<{ messageId: string; labelIds: string[] }>;
+}
+
+// Sync related types
+export interface SyncState {
+  historyId?: string;
+  lastFullSyncAt?: Date;
+  lastSyncedAt?: Date;
+  watchExpiration?: Date;
+}
+
+// Decoded Gmail Pub/Sub notification
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+export type SearchHighlightField = "subject" | "body" | "from" | "to";
+
+export interface SearchHighlight {
+  field: SearchHighlightField;
+  // Whole field, or a window around the first match for the body
+  text: string;
+  // [start, end) offsets into `text`
+  ranges: Array<[number, number]>;
+}
+
+export interface EmailSearchHit {
+  emailId: string;
+  threadId: string;
+  subject: string;
+  from: string;
+  to: string;
+  timestamp: Date;
+  isUnread: boolean;
+  highlights: SearchHighlight[];
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  limit: number;
+  // Opaque; pass back as `cursor` for the next page, null on the last one
+  nextCursor: string | null;
+}
+
+export interface EmailSyncReport {
+  mode: "full" | "incremental";
+  added: number;
+  updated: number;
+  removed: number;
+  // Local ids of threads that gained or changed messages
+  threadIds: string[];
+  errors: number;
+  errorDetails: Array<{ messageId: string; error: string }>;
+}
+
+// Background job types
+export type JobType =
+  "onboarding.fetch-emails" | "onboarding.generate-profile" | "email.sync";
+
+export type JobStatus =
+  "QUEUED" | "RUNNING" | "RETRYING" | "COMPLETED" | "FAILED";
+
+export interface Job<TPayload = Record<string, unknown>> {
+  id: string;
+  type: JobType;
+  firebaseUid: string;
+  payload: TPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  leaseExpiresAt?: Date;
+  dedupeKey?: string;
+  result?: unknown;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+// Real-time events pushed to the user's SSE stream
+export type UserEventType =
+  | "inbox_updated"
+  | "thread_updated"
+  | "draft_generated"
+  | "draft_status_changed"
+  | "profile_ready"
+  | "sync_failed";
+
+export interface UserEvent {
+  // Redis stream entry id; absent for events published without replay
+  id?: string;
+  type: UserEventType;
+  timestamp: string;
+  data: Record<string, unknown>;
 }
 
 // Email generation context
-export interface EmailGenerationContext {
+export interface EmailGenerationContext extends DraftControls {
   originalEmail: string;
   threadHistory?: string[];
-  tone?: string;
+  // Set when regenerating: the draft to revise and what to change
+  previousDraft?: string;
+  instruction?: string;
+  // Extracted text of small text/PDF attachments on the thread
+  attachments?: Array<{ filename: string; text: string }>;
   recipient?: {
     name?: string;
     email: string;
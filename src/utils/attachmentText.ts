@@ -0,0 +1,114 @@
+import { inflateSync } from "zlib";
+
+// Larger files are skipped: downloading them would slow every draft
+export const MAX_ATTACHMENT_TEXT_BYTES = 512 * 1024;
+const DEFAULT_MAX_CHARS = 4000;
+
+const TEXT_MIME_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/csv",
+];
+
+export function isTextExtractable(mimeType: string, size: number): boolean {
+  if (size <= 0 || size > MAX_ATTACHMENT_TEXT_BYTES) {
+    return false;
+  }
+  const type = mimeType.toLowerCase();
+  return (
+    type.startsWith("text/") ||
+    type === "application/pdf" ||
+    TEXT_MIME_TYPES.includes(type)
+  );
+}
+
+/**
+ * Readable text from a small text or PDF attachment, trimmed to `maxChars`.
+ * PDF support is best effort: text drawn with standard string operators is
+ * recovered; fonts with custom encodings come back empty and yield null.
+ */
+export function extractAttachmentText(
+  mimeType: string,
+  data: Buffer,
+  maxChars: number = DEFAULT_MAX_CHARS
+): string | null {
+  const raw =
+    mimeType.toLowerCase() === "application/pdf"
+      ? extractPdfText(data)
+      : data.toString("utf8");
+
+  const text = raw
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (!text) {
+    return null;
+  }
+  return text.length > maxChars ? `${text.slice(0, maxChars)}...` : text;
+}
+
+function extractPdfText(data: Buffer): string {
+  const source = data.toString("latin1");
+  const chunks: string[] = [];
+  const streamPattern = /<<(.*?)>>\s*stream\r?\n/gs;
+
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source)) !== null) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end === -1) break;
+
+    const dictionary = match[1];
+    const bytes = data.subarray(start, end);
+    streamPattern.lastIndex = end;
+
+    let content: string;
+    try {
+      content = /\/FlateDecode/.test(dictionary)
+        ? inflateSync(bytes).toString("latin1")
+        : bytes.toString("latin1");
+    } catch {
+      // Images and other filters we cannot read
+      continue;
+    }
+
+    const text = extractTextOperators(content);
+    if (text) chunks.push(text);
+  }
+
+  return chunks.join("\n");
+}
+
+// Pull string operands of Tj, TJ, ' and " out of a content stream
+function extractTextOperators(content: string): string {
+  const parts: string[] = [];
+  const tokenPattern =
+    /\[((?:\((?:\\.|[^\\)])*\)|[^\]])*)\]\s*TJ|\(((?:\\.|[^\\)])*)\)\s*(?:Tj|'|")|(T\*|Td|TD|ET)(?=\s|$)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(content)) !== null) {
+    const [, array, single, lineBreak] = match;
+    if (lineBreak) {
+      if (parts.length && parts[parts.length - 1] !== "\n") parts.push("\n");
+    } else if (single !== undefined) {
+      parts.push(unescapePdfString(single));
+    } else if (array !== undefined) {
+      for (const piece of array.matchAll(/\(((?:\\.|[^\\)])*)\)/g)) {
+        parts.push(unescapePdfString(piece[1]));
+      }
+    }
+  }
+
+  return parts.join("").trim();
+}
+
+function unescapePdfString(value: string): string {
+  return value.replace(/\\(\d{1,3}|.)/g, (_, escaped: string) => {
+    if (/^\d/.test(escaped)) {
+      return String.fromCharCode(parseInt(escaped, 8));
+    }
+    const map: Record<string, string> = { n: "\n", r: "\r", t: "\t" };
+    return map[escaped] ?? escaped;
+  });
+}
@@ -0,0 +1,39 @@
+import { ValidationError } from "./errors";
+import { isObjectId } from "./helpers";
+
+/**
+ * Position in a list sorted by (timestamp desc, id desc). The id breaks ties
+ * between rows sharing a timestamp so pages never skip or repeat a row.
+ */
+export interface CursorPosition {
+  timestamp: Date;
+  id: string;
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(
+    JSON.stringify({ t: position.timestamp.getTime(), id: position.id })
+  ).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const { t, id } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    // Both values reach database queries, where a malformed id or date
+    // would fail as a server error rather than a bad request
+    const timestamp = new Date(t);
+    if (
+      typeof t === "number" &&
+      !Number.isNaN(timestamp.getTime()) &&
+      typeof id === "string" &&
+      isObjectId(id)
+    ) {
+      return { timestamp, id };
+    }
+  } catch {
+    // Fall through to the validation error below
+  }
+  throw new ValidationError("Invalid cursor");
+}
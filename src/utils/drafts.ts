@@ -0,0 +1,112 @@
+import type {
+  DraftAction,
+  DraftDirectness,
+  DraftLength,
+  DraftStatus,
+  DraftTone,
+} from "../types/index";
+
+export type DraftTransitionAction = Exclude<DraftAction, "CREATED">;
+
+// Statuses a draft may be in for each action to be applied
+export const ALLOWED_SOURCE_STATUSES: Record<
+  DraftTransitionAction,
+  DraftStatus[]
+> = {
+  EDITED: ["PENDING", "EDITED", "APPROVED"],
+  APPROVED: ["PENDING", "EDITED"],
+  REJECTED: ["PENDING", "EDITED", "APPROVED"],
+  SENT: ["PENDING", "EDITED", "APPROVED"],
+};
+
+// Status a draft ends up in once the action has been applied
+export const DRAFT_ACTION_STATUS: Record<DraftTransitionAction, DraftStatus> = {
+  EDITED: "EDITED",
+  APPROVED: "APPROVED",
+  REJECTED: "REJECTED",
+  SENT: "SENT",
+};
+
+export const DRAFT_TONES: DraftTone[] = [
+  "Friendly",
+  "Formal",
+  "Direct",
+  "Diplomatic",
+  "Casual",
+  "Professional",
+];
+
+export const DRAFT_LENGTHS: DraftLength[] = ["short", "medium", "long"];
+
+export const DRAFT_DIRECTNESS: DraftDirectness[] = [
+  "direct",
+  "balanced",
+  "softened",
+];
+
+export const MAX_DRAFT_VARIANTS = 3;
+
+/**
+ * Match a tone case-insensitively against the profile's tone set. Drafts
+ * created before tones were constrained stored free text such as "formal".
+ */
+export function toDraftTone(value: string | undefined): DraftTone | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return DRAFT_TONES.find((tone) => tone.toLowerCase() === normalized);
+}
+
+export function canApplyDraftAction(
+  status: DraftStatus,
+  action: DraftTransitionAction
+): boolean {
+  return ALLOWED_SOURCE_STATUSES[action].includes(status);
+}
+
+export function canDeleteDraft(status: DraftStatus): boolean {
+  // Sent drafts are kept as a record of what went out
+  return status !== "SENT";
+}
+
+export interface DraftEditSummary {
+  previousLength: number;
+  newLength: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+/**
+ * Summarize a content edit as line-level additions and removals so the audit
+ * trail shows how much a user changed a generated draft without storing both
+ * full versions.
+ */
+export function summarizeDraftEdit(
+  previous: string,
+  next: string
+): DraftEditSummary {
+  const remaining = new Map<string, number>();
+  for (const line of previous.split("\n")) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+
+  let linesAdded = 0;
+  for (const line of next.split("\n")) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      linesAdded += 1;
+    }
+  }
+
+  let linesRemoved = 0;
+  for (const count of remaining.values()) {
+    linesRemoved += count;
+  }
+
+  return {
+    previousLength: previous.length,
+    newLength: next.length,
+    linesAdded,
+    linesRemoved,
+  };
+}
@@ -37,12 +37,30 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class ConflictError extends AppError {
+  constructor(message: string = "Resource conflict") {
+    super(message, 409, "CONFLICT_ERROR");
+  }
+}
+
 export class ExternalServiceError extends AppError {
   constructor(service: string, message: string) {
     super(`${service} error: ${message}`, 503, "EXTERNAL_SERVICE_ERROR");
   }
 }
 
+export class GmailReconnectRequiredError extends AppError {
+  constructor(message: string = "Gmail access was revoked; reconnect Gmail") {
+    super(message, 403, "GMAIL_RECONNECT_REQUIRED");
+  }
+}
+
+export class SyncCursorExpiredError extends AppError {
+  constructor(message: string = "Sync cursor is no longer valid") {
+    super(message, 410, "SYNC_CURSOR_EXPIRED");
+  }
+}
+
 export function handleServiceError<T = unknown>(
   error: unknown
 ): ServiceResult<T> {
@@ -52,6 +70,7 @@ export function handleServiceError<T = unknown>(
     return {
       success: false,
       error: error.message,
+      statusCode: error.statusCode,
     };
   }
 
@@ -83,3 +102,17 @@ export function createErrorResult<T = unknown>(
     error,
   };
 }
+
+/**
+ * Convert a failed ServiceResult back into a thrown error, for callers such
+ * as job handlers that signal failure by throwing.
+ */
+export function unwrapServiceResult<T>(result: ServiceResult<T>): T {
+  if (!result.success) {
+    throw new AppError(
+      result.error ?? "Service call failed",
+      result.statusCode ?? 500
+    );
+  }
+  return result.data as T;
+}
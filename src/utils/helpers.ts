@@ -3,6 +3,11 @@ export function isValidEmail(email: string): boolean {
   return emailRegex.test(email);
 }
 
+// MongoDB ObjectIds are 24 hex characters; Prisma rejects anything else
+export function isObjectId(value: string): boolean {
+  return /^[a-f\d]{24}$/i.test(value);
+}
+
 export function sanitizeEmail(email: string): string {
   return email.toLowerCase().trim();
 }
@@ -25,6 +30,15 @@ export function truncateText(text: string, maxLength: number): string {
   return text.substring(0, maxLength - 3) + "...";
 }
 
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 export function extractTextFromHtml(html: string): string {
   // Simple HTML tag removal - for production, consider using a proper HTML parser
   return html
@@ -48,3 +62,31 @@ export function isRecentDate(date: Date, hoursThreshold: number = 24): boolean {
   const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
   return diffInHours <= hoursThreshold;
 }
+
+// Mask secret query parameters (e.g. the Gmail push ?token=) before a URL is
+// written to the logs
+export function redactQueryParams(url: string, names: string[]): string {
+  const queryStart = url.indexOf("?");
+  if (queryStart === -1) return url;
+
+  const params = url
+    .slice(queryStart + 1)
+    .split("&")
+    .map((param) => {
+      const rawName = param.split("=")[0];
+      return names.includes(decodeParamName(rawName))
+        ? `${rawName}=[REDACTED]`
+        : param;
+    });
+  return `${url.slice(0, queryStart)}?${params.join("&")}`;
+}
+
+// Runs inside the request log serializer, so a malformed escape such as
+// `%zz` must fall back to the raw name rather than throw
+function decodeParamName(rawName: string): string {
+  try {
+    return decodeURIComponent(rawName);
+  } catch {
+    return rawName;
+  }
+}
@@ -0,0 +1,261 @@
+import sanitize from "sanitize-html";
+
+import { escapeHtml } from "./helpers";
+
+// Markup kept in email bodies. Anything else is dropped, keeping its text;
+// scripts, frames and forms never make it through
+const ALLOWED_TAGS = [
+  ...sanitize.defaults.allowedTags,
+  "img",
+  "style",
+  "font",
+  "center",
+  "span",
+  "u",
+  "s",
+  "strike",
+  "small",
+  "big",
+  "sub",
+  "sup",
+];
+const ALLOWED_ATTRIBUTES: sanitize.IOptions["allowedAttributes"] = {
+  "*": [
+    "style",
+    "class",
+    "id",
+    "title",
+    "dir",
+    "lang",
+    "align",
+    "valign",
+    "width",
+    "height",
+    "bgcolor",
+    "background",
+    "border",
+    "color",
+  ],
+  a: ["href", "name", "target", "rel"],
+  img: ["src", "srcset", "alt"],
+  font: ["face", "size"],
+  table: ["cellpadding", "cellspacing"],
+  td: ["colspan", "rowspan", "nowrap"],
+  th: ["colspan", "rowspan", "nowrap", "scope"],
+  col: ["span"],
+  colgroup: ["span"],
+  ol: ["start", "type"],
+};
+// Any other scheme, javascript: included, drops the attribute
+const ALLOWED_SCHEMES = ["http", "https", "mailto", "tel"];
+const ALLOWED_IMAGE_SCHEMES = ["http", "https", "cid", "data"];
+
+// Attributes that make the client fetch a remote resource on render
+const REMOTE_ATTRIBUTES = ["src", "srcset", "background", "poster"];
+const REMOTE_URL = /^(https?:)?\/\//i;
+const CSS_REMOTE_URL = /url\(\s*(["']?)\s*(https?:)?\/\/[^)]*\)/gi;
+// 1x1 transparent GIF shown in place of a blocked image
+const PLACEHOLDER_IMAGE =
+  "data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+export interface SanitizedEmailHtml {
+  html: string;
+  // Remote images or styles were held back; the client can offer to load
+  // them from the data-remote-* attributes
+  remoteContentBlocked: boolean;
+  trackingPixelsBlocked: number;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  amp: "&",
+};
+
+/**
+ * Strip active content from an email body by parsing it and keeping only
+ * allowlisted tags, attributes and URL schemes. Layout and styling are kept.
+ */
+export function sanitizeHtml(html: string): string {
+  return sanitize(html, {
+    allowedTags: ALLOWED_TAGS,
+    allowedAttributes: ALLOWED_ATTRIBUTES,
+    allowedSchemes: ALLOWED_SCHEMES,
+    allowedSchemesByTag: { img: ALLOWED_IMAGE_SCHEMES },
+    allowedSchemesAppliedToAttributes: ["href", "src", "srcset", "background"],
+    allowProtocolRelative: true,
+    // <style> is needed for email layout; its contents are parsed as CSS
+    // text, and remote URLs in it are blocked by sanitizeEmailHtml
+    allowVulnerableTags: true,
+  });
+}
+
+/**
+ * Email HTML that is safe to render without contacting senders: active
+ * content is stripped, remote images keep their URL in data-remote-src
+ * behind a placeholder, remote CSS is dropped and tracking pixels removed.
+ */
+export function sanitizeEmailHtml(html: string): SanitizedEmailHtml {
+  let remoteContentBlocked = false;
+  let trackingPixelsBlocked = 0;
+
+  const blockCss = (css: string) =>
+    css
+      .replace(/@import\s+[^;]+;?/gi, () => {
+        remoteContentBlocked = true;
+        return "";
+      })
+      .replace(CSS_REMOTE_URL, () => {
+        remoteContentBlocked = true;
+        return "none";
+      });
+
+  const result = sanitizeHtml(html)
+    .replace(
+      /(<style\b[^>]*>)([\s\S]*?)(<\/style\s*>)/gi,
+      (_, open: string, css: string, close: string) =>
+        `${open}${blockCss(css)}${close}`
+    )
+    .replace(
+      /<([a-z][a-z0-9]*)\b([^>]*)>/gi,
+      (tag, name: string, rest: string) => {
+        const attributes = parseAttributes(rest);
+        const tagName = name.toLowerCase();
+
+        if (tagName === "img" && isTrackingPixel(attributes)) {
+          trackingPixelsBlocked++;
+          return "";
+        }
+
+        let changed = false;
+        const kept: Array<[string, string]> = [];
+        for (const [attribute, value] of attributes) {
+          if (REMOTE_ATTRIBUTES.includes(attribute) && hasRemoteUrl(value)) {
+            kept.push([`data-remote-${attribute}`, value]);
+            if (tagName === "img" && attribute === "src") {
+              kept.push(["src", PLACEHOLDER_IMAGE]);
+            }
+            changed = true;
+          } else if (
+            attribute === "style" &&
+            /url\(\s*["']?\s*(https?:)?\/\//i.test(value)
+          ) {
+            kept.push([attribute, blockCss(value)]);
+            changed = true;
+          } else {
+            kept.push([attribute, value]);
+          }
+        }
+        if (!changed) {
+          return tag;
+        }
+
+        remoteContentBlocked = true;
+        const selfClosing = /\/\s*$/.test(rest) ? " /" : "";
+        const serialized = kept
+          .map(
+            ([attribute, value]) => ` ${attribute}="${escapeAttribute(value)}"`
+          )
+          .join("");
+        return `<${name}${serialized}${selfClosing}>`;
+      }
+    );
+
+  return {
+    html: result,
+    remoteContentBlocked: remoteContentBlocked || trackingPixelsBlocked > 0,
+    trackingPixelsBlocked,
+  };
+}
+
+/** HTML for plain text typed by the user, keeping its line breaks. */
+export function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, "<br>");
+}
+
+/** Readable plain text from an HTML body, keeping paragraph breaks. */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(style|script|head)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "")
+      .replace(/<br\s*\/?>|<blockquote[^>]*>/gi, "\n")
+      .replace(/<\/(p|blockquote)>/gi, "\n\n")
+      .replace(/<\/(div|tr|li|h[1-6])>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "- ")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Name/value pairs in source order with lowercased names; values decoded
+function parseAttributes(source: string): Array<[string, string]> {
+  const attributes: Array<[string, string]> = [];
+  const pattern = /([^\s"'<>/=]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+
+  for (const match of source.matchAll(pattern)) {
+    const raw = match[2] ?? "";
+    const value = /^["']/.test(raw) ? raw.slice(1, -1) : raw;
+    attributes.push([match[1].toLowerCase(), decodeEntities(value)]);
+  }
+  return attributes;
+}
+
+// Remote images sized 1px or less, or hidden, exist only to report opens
+function isTrackingPixel(attributes: Array<[string, string]>): boolean {
+  const values = new Map(attributes);
+  if (!hasRemoteUrl(values.get("src") ?? "")) {
+    return false;
+  }
+
+  const style = (values.get("style") ?? "").toLowerCase().replace(/\s/g, "");
+  const dimension = (name: "width" | "height") => {
+    const fromStyle = style.match(new RegExp(`(?:^|;)${name}:(\\d+)px`));
+    const value = fromStyle?.[1] ?? values.get(name);
+    return value === undefined ? undefined : parseInt(value, 10);
+  };
+  const width = dimension("width");
+  const height = dimension("height");
+
+  return (
+    (width !== undefined && width <= 1) ||
+    (height !== undefined && height <= 1) ||
+    /display:none|visibility:hidden/.test(style)
+  );
+}
+
+// srcset holds several comma-separated candidates
+function hasRemoteUrl(value: string): boolean {
+  return value
+    .split(",")
+    .some((candidate) => REMOTE_URL.test(candidate.trim()));
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, code: string) => {
+      if (code[0] === "#") {
+        const value =
+          code[1].toLowerCase() === "x"
+            ? parseInt(code.slice(2), 16)
+            : Number(code.slice(1));
+        return value > 0 && value <= 0x10ffff
+          ? String.fromCodePoint(value)
+          : entity;
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    }
+  );
+}
@@ -0,0 +1,387 @@
+import { htmlToText, sanitizeHtml } from "./html";
+
+/**
+ * A MIME part in the shape of Gmail's `MessagePart`, which is also what
+ * `parseRawMessage` produces. `body.data` is base64url and already free of
+ * its Content-Transfer-Encoding; the charset still applies.
+ */
+export interface MailPart {
+  partId?: string | null;
+  mimeType?: string | null;
+  filename?: string | null;
+  headers?: Array<{ name?: string | null; value?: string | null }> | null;
+  body?: {
+    data?: string | null;
+    size?: number | null;
+    attachmentId?: string | null;
+  } | null;
+  parts?: MailPart[] | null;
+}
+
+export interface ParsedMailContent {
+  // What the sender wrote in this message: no quoted history or signature
+  text: string;
+  quoted?: string;
+  signature?: string;
+  // Whole message as sanitized HTML, when it has an HTML part
+  html?: string;
+}
+
+// Lines that start the quoted part of a reply or forward
+const QUOTE_HEADER_PATTERNS = [
+  /^On .+wrote:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^From: .+$/i,
+  /^_{10,}\s*$/,
+];
+
+// Lines that start a signature block
+const SIGNATURE_PATTERNS = [
+  /^--\s*$/,
+  /^Sent from my \w+/i,
+  /^Get Outlook for /i,
+];
+
+// windows-1252 characters for bytes 0x80-0x9F; undefined bytes map to C1
+const WINDOWS_1252_C1 =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+// "On <date>, <name> wrote:" is often wrapped over two lines
+const WRAPPED_QUOTE_HEADER = /^On .+\n.*wrote:\s*$/im;
+
+/**
+ * Text and HTML bodies of a message. Nested multiparts are walked, parts
+ * that are attachments skipped, and each body decoded with its declared
+ * charset. Without a text/plain part the text is derived from the HTML.
+ */
+export function parseMailContent(payload?: MailPart | null): ParsedMailContent {
+  const bodies: { text?: string; html?: string } = {};
+  collectBodies(payload, bodies);
+
+  const html =
+    bodies.html !== undefined ? sanitizeHtml(bodies.html) : undefined;
+  const fullText = normalizeText(
+    bodies.text ?? (bodies.html !== undefined ? htmlToText(bodies.html) : "")
+  );
+
+  const { text: reply, quoted } = separateQuotedText(fullText);
+  const { text, signature } = separateSignature(reply);
+
+  // Forwards and bare quotes have nothing new; keep the whole text
+  if (!text) {
+    return { text: fullText, html };
+  }
+  return { text, quoted, signature, html };
+}
+
+/**
+ * Split a reply into new text and the quoted thread below it: "On ... wrote:"
+ * headers, Outlook "Original Message" blocks, forwarded headers and
+ * ">"-prefixed lines.
+ */
+export function separateQuotedText(text: string): {
+  text: string;
+  quoted?: string;
+} {
+  const lines = text.split(/\r?\n/);
+  let start = lines.findIndex((line) =>
+    QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(line.trim()))
+  );
+
+  const wrapped = text.match(WRAPPED_QUOTE_HEADER);
+  if (wrapped?.index !== undefined) {
+    const wrappedLine = text.slice(0, wrapped.index).split(/\r?\n/).length - 1;
+    start = start === -1 ? wrappedLine : Math.min(start, wrappedLine);
+  }
+  if (start === -1) {
+    start = lines.length;
+  }
+
+  const kept: string[] = [];
+  const quoted: string[] = [];
+  lines.forEach((line, index) => {
+    if (index >= start || line.trim().startsWith(">")) {
+      quoted.push(line);
+    } else {
+      kept.push(line);
+    }
+  });
+
+  return {
+    text: normalizeText(kept.join("\n")),
+    quoted: normalizeText(quoted.join("\n")) || undefined,
+  };
+}
+
+/**
+ * Split off everything from the first signature marker down. Sign-offs such
+ * as "Thanks, Sam" sit above the marker and stay with the text.
+ */
+export function separateSignature(text: string): {
+  text: string;
+  signature?: string;
+} {
+  const lines = text.split(/\r?\n/);
+  const start = lines.findIndex((line) =>
+    SIGNATURE_PATTERNS.some((pattern) => pattern.test(line.trim()))
+  );
+  if (start === -1) {
+    return { text: normalizeText(text) };
+  }
+
+  return {
+    text: normalizeText(lines.slice(0, start).join("\n")),
+    signature: normalizeText(lines.slice(start).join("\n")) || undefined,
+  };
+}
+
+/**
+ * Parse an RFC 822 source, such as Gmail's `format: "raw"` or an .eml file,
+ * into parts shaped like Gmail's payload. Transfer encodings are decoded
+ * here so `parseMailContent` handles both sources alike.
+ */
+export function parseRawMessage(source: Buffer | string): MailPart {
+  // latin1 maps bytes 1:1 onto chars until each part's charset is known
+  const raw = (
+    typeof source === "string" ? Buffer.from(source) : source
+  ).toString("latin1");
+  return parseRawPart(raw, "");
+}
+
+function collectBodies(
+  part: MailPart | null | undefined,
+  bodies: { text?: string; html?: string }
+): void {
+  if (!part || isAttachmentPart(part)) return;
+
+  const mimeType = (
+    part.mimeType ||
+    parseHeaderValue(getHeader(part, "Content-Type")).value ||
+    "text/plain"
+  ).toLowerCase();
+
+  if (mimeType.startsWith("multipart/")) {
+    for (const child of part.parts ?? []) collectBodies(child, bodies);
+    return;
+  }
+
+  if (mimeType === "text/plain" && bodies.text === undefined) {
+    bodies.text = decodePartBody(part);
+  } else if (mimeType === "text/html" && bodies.html === undefined) {
+    bodies.html = decodePartBody(part);
+  }
+}
+
+function isAttachmentPart(part: MailPart): boolean {
+  return (
+    Boolean(part.filename) ||
+    getHeader(part, "Content-Disposition")
+      .toLowerCase()
+      .startsWith("attachment")
+  );
+}
+
+function decodePartBody(part: MailPart): string | undefined {
+  if (!part.body?.data) return undefined;
+
+  const { params } = parseHeaderValue(getHeader(part, "Content-Type"));
+  return decodeCharset(
+    Buffer.from(part.body.data, "base64url"),
+    params.charset
+  );
+}
+
+function decodeCharset(bytes: Buffer, charset?: string): string {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset?.trim() || "utf-8");
+  } catch {
+    // Unknown labels: UTF-8 is the most likely truth
+    return bytes.toString("utf8");
+  }
+
+  // Node decodes windows-1252 (also used for iso-8859-1 and us-ascii
+  // labels) as latin1, dropping curly quotes, dashes and the euro sign
+  if (decoder.encoding === "windows-1252") {
+    return Array.from(bytes, (byte) =>
+      byte >= 0x80 && byte <= 0x9f
+        ? WINDOWS_1252_C1[byte - 0x80]
+        : String.fromCharCode(byte)
+    ).join("");
+  }
+  return decoder.decode(bytes);
+}
+
+function getHeader(part: MailPart, name: string): string {
+  const target = name.toLowerCase();
+  return (
+    part.headers?.find((header) => header.name?.toLowerCase() === target)
+      ?.value ?? ""
+  );
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function parseRawPart(raw: string, partId: string): MailPart {
+  // A part may start with the blank line when it has no headers
+  const separator = raw.match(/^\r?\n|\r?\n\r?\n/);
+  const headerEnd = separator?.index ?? raw.length;
+  const head = raw.slice(0, headerEnd);
+  const body = separator ? raw.slice(headerEnd + separator[0].length) : "";
+
+  const headers = head
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)
+    .map((line) => {
+      const colon = line.indexOf(":");
+      if (colon <= 0) return null;
+      return {
+        name: line.slice(0, colon).trim(),
+        // Raw 8-bit header bytes are UTF-8 in practice
+        value: Buffer.from(line.slice(colon + 1).trim(), "latin1").toString(
+          "utf8"
+        ),
+      };
+    })
+    .filter((header): header is { name: string; value: string } =>
+      Boolean(header)
+    );
+  const part: MailPart = { partId, headers };
+
+  const contentType = parseHeaderValue(
+    getHeader(part, "Content-Type") || "text/plain"
+  );
+  const disposition = parseHeaderValue(getHeader(part, "Content-Disposition"));
+  part.mimeType = contentType.value;
+  part.filename =
+    decodeParam(disposition.params, "filename") ??
+    decodeParam(contentType.params, "name") ??
+    "";
+
+  const boundary = contentType.params.boundary;
+  if (part.mimeType.startsWith("multipart/") && boundary) {
+    part.parts = splitMultipart(body, boundary).map((chunk, index) =>
+      parseRawPart(chunk, partId ? `${partId}.${index}` : `${index}`)
+    );
+    part.body = { size: 0 };
+    return part;
+  }
+
+  const data = decodeTransferEncoding(
+    body,
+    getHeader(part, "Content-Transfer-Encoding")
+  );
+  part.body = { data: data.toString("base64url"), size: data.length };
+  return part;
+}
+
+// Body chunks between boundary delimiters; preamble and epilogue dropped
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const chunks: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      const rest = line.slice(delimiter.length);
+      // Longer boundaries can share this one as a prefix
+      if (/^(--)?\s*$/.test(rest)) {
+        if (current) chunks.push(current.join("\r\n"));
+        if (rest.startsWith("--")) return chunks;
+        current = [];
+        continue;
+      }
+    }
+    current?.push(line);
+  }
+
+  // Unterminated multipart: keep what arrived
+  if (current) chunks.push(current.join("\r\n"));
+  return chunks;
+}
+
+function decodeTransferEncoding(body: string, encoding: string): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, "")
+          .replace(/=([0-9A-F]{2})/gi, (_, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16))
+          ),
+        "latin1"
+      );
+    default:
+      return Buffer.from(body, "latin1");
+  }
+}
+
+// `type/subtype; key=value; key="quoted value"` with lowercased keys
+function parseHeaderValue(header: string): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const [value = "", ...rest] = header.split(";");
+  const params: Record<string, string> = {};
+  const paramPattern = /([^=\s;]+)\s*=\s*("(?:\\.|[^"\\])*"|[^;]*)/g;
+
+  for (const match of rest.join(";").matchAll(paramPattern)) {
+    const raw = match[2].trim();
+    params[match[1].toLowerCase()] = raw.startsWith('"')
+      ? raw.slice(1, -1).replace(/\\(.)/g, "$1")
+      : raw;
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+// RFC 2231 `name*=charset''%XX` first, then RFC 2047 encoded words
+function decodeParam(
+  params: Record<string, string>,
+  name: string
+): string | undefined {
+  const extended = params[`${name}*`]?.match(/^([^']*)'[^']*'(.*)$/);
+  if (extended) {
+    const bytes = Buffer.from(
+      extended[2].replace(/%([0-9A-F]{2})/gi, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+      ),
+      "latin1"
+    );
+    return decodeCharset(bytes, extended[1]);
+  }
+
+  const value = params[name];
+  return value === undefined ? undefined : decodeEncodedWords(value);
+}
+
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(
+      /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi,
+      (_, charset: string, encoding: string, text: string) => {
+        const bytes =
+          encoding.toLowerCase() === "b"
+            ? Buffer.from(text, "base64")
+            : Buffer.from(
+                text
+                  .replace(/_/g, " ")
+                  .replace(/=([0-9A-F]{2})/gi, (__, hex: string) =>
+                    String.fromCharCode(parseInt(hex, 16))
+                  ),
+                "latin1"
+              );
+        return decodeCharset(bytes, charset);
+      }
+    );
+}
@@ -0,0 +1,290 @@
+import { randomBytes } from "crypto";
+
+import { ValidationError } from "./errors";
+import { htmlToText } from "./html";
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+  // Set for inline images referenced from the HTML as cid:<contentId>
+  contentId?: string;
+}
+
+/**
+ * An outgoing message. Address lists take bare addresses or
+ * `Display Name <address>` entries. When only `html` is given a plain-text
+ * alternative is derived from it.
+ */
+export interface MimeMessage {
+  from?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: MimeAttachment[];
+}
+
+export interface MimeBuildOptions {
+  // Deterministic boundaries for tests; random by default
+  createBoundary?: () => string;
+}
+
+const CRLF = "\r\n";
+const MAX_LINE_LENGTH = 76;
+// 39 UTF-8 bytes encode to 52 base64 chars, keeping "Subject: " plus one
+// encoded word under 76 columns
+const ENCODED_WORD_BYTES = 39;
+const PRINTABLE_ASCII = /^[\x20-\x7e]*$/;
+// RFC 5322 specials that force a display name into quotes
+const PHRASE_SPECIALS = /[()<>[\]:;@\\,."]/;
+const MIME_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+
+/** RFC 5322 message text with CRLF line endings. */
+export function buildMimeMessage(
+  message: MimeMessage,
+  options: MimeBuildOptions = {}
+): string {
+  const createBoundary =
+    options.createBoundary ??
+    (() => `----=_Part_${randomBytes(12).toString("hex")}`);
+
+  if (!message.text && !message.html) {
+    throw new ValidationError("Message body is required");
+  }
+
+  const headers: string[] = [];
+  if (message.from) {
+    headers.push(addressHeader("From", [message.from]));
+  }
+  headers.push(addressHeader("To", message.to));
+  if (message.cc?.length) {
+    headers.push(addressHeader("Cc", message.cc));
+  }
+  if (message.bcc?.length) {
+    headers.push(addressHeader("Bcc", message.bcc));
+  }
+  headers.push(`Subject: ${encodeUnstructured("Subject", message.subject)}`);
+  if (message.inReplyTo) {
+    headers.push(
+      `In-Reply-To: ${assertHeaderValue("In-Reply-To", message.inReplyTo)}`
+    );
+  }
+  if (message.references?.length) {
+    const references = message.references.map((id) =>
+      assertHeaderValue("References", id)
+    );
+    headers.push(`References: ${references.join(`${CRLF} `)}`);
+  }
+  headers.push("MIME-Version: 1.0");
+
+  const body = buildBodyPart(message, createBoundary);
+  const attachments = message.attachments ?? [];
+  if (attachments.length === 0) {
+    return [...headers, ...body, ""].join(CRLF);
+  }
+
+  const boundary = createBoundary();
+  const lines = [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...body,
+  ];
+  for (const attachment of attachments) {
+    lines.push(`--${boundary}`, ...buildAttachmentPart(attachment));
+  }
+  lines.push(`--${boundary}--`, "");
+  return lines.join(CRLF);
+}
+
+/** Base64url form of the message, as Gmail's `raw` field expects. */
+export function encodeMimeMessage(
+  message: MimeMessage,
+  options?: MimeBuildOptions
+): string {
+  return Buffer.from(buildMimeMessage(message, options)).toString("base64url");
+}
+
+// Part headers plus content for the text and/or HTML body
+function buildBodyPart(
+  message: MimeMessage,
+  createBoundary: () => string
+): string[] {
+  const text = message.text ?? htmlToText(message.html ?? "");
+  if (!message.html) {
+    return textPart("text/plain", text);
+  }
+
+  const boundary = createBoundary();
+  return [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart("text/plain", text),
+    `--${boundary}`,
+    ...textPart("text/html", message.html),
+    `--${boundary}--`,
+  ];
+}
+
+function textPart(type: "text/plain" | "text/html", content: string) {
+  return [
+    `Content-Type: ${type}; charset="UTF-8"`,
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    encodeQuotedPrintable(content),
+  ];
+}
+
+function buildAttachmentPart(attachment: MimeAttachment): string[] {
+  const mimeType = MIME_TYPE_PATTERN.test(attachment.mimeType)
+    ? attachment.mimeType.toLowerCase()
+    : "application/octet-stream";
+  // Filenames come from other senders' mail, so they are cleaned rather
+  // than rejected
+  const filename =
+    attachment.filename.replace(/[\x00-\x1f\x7f]/g, "_") || "attachment";
+  const disposition = attachment.contentId ? "inline" : "attachment";
+
+  const headers = PRINTABLE_ASCII.test(filename)
+    ? [
+        `Content-Type: ${mimeType}; name="${quoteParam(filename)}"`,
+        `Content-Disposition: ${disposition}; filename="${quoteParam(filename)}"`,
+      ]
+    : [
+        // RFC 2047 in name= for older clients, RFC 2231 for the rest
+        `Content-Type: ${mimeType};${CRLF} name="${encodeWords(filename).join(" ")}"`,
+        `Content-Disposition: ${disposition};${CRLF} filename*=UTF-8''${encodeRfc2231(filename)}`,
+      ];
+  if (attachment.contentId) {
+    const contentId = assertHeaderValue("Content-ID", attachment.contentId);
+    headers.push(`Content-ID: <${contentId.replace(/^<|>$/g, "")}>`);
+  }
+
+  return [
+    ...headers,
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...(attachment.data.toString("base64").match(/.{1,76}/g) ?? []),
+  ];
+}
+
+function addressHeader(name: string, addresses: string[]): string {
+  const encoded = addresses.map((address) =>
+    encodeAddress(assertHeaderValue(name, address))
+  );
+  const line = `${name}: ${encoded.join(", ")}`;
+  return line.length <= MAX_LINE_LENGTH
+    ? line
+    : `${name}: ${encoded.join(`,${CRLF} `)}`;
+}
+
+function encodeAddress(value: string): string {
+  const match = value.trim().match(/^(.*?)\s*<([^<>]+)>$/);
+  if (!match) {
+    return value.trim();
+  }
+
+  const [, rawName, address] = match;
+  const trimmed = rawName.trim();
+  const name = /^".*"$/.test(trimmed)
+    ? trimmed.slice(1, -1).replace(/\\(.)/g, "$1")
+    : trimmed;
+  if (!name) {
+    return `<${address}>`;
+  }
+  if (!PRINTABLE_ASCII.test(name)) {
+    return `${encodeWords(name).join(" ")} <${address}>`;
+  }
+  return PHRASE_SPECIALS.test(name)
+    ? `"${quoteParam(name)}" <${address}>`
+    : `${name} <${address}>`;
+}
+
+// Unstructured header text such as Subject, RFC 2047 encoded when needed
+function encodeUnstructured(name: string, value: string): string {
+  const text = assertHeaderValue(name, value);
+  if (PRINTABLE_ASCII.test(text)) {
+    return text;
+  }
+  return encodeWords(text).join(`${CRLF} `);
+}
+
+// RFC 2047 "B" encoded words, split on character boundaries
+function encodeWords(value: string): string[] {
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words.map(
+    (word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`
+  );
+}
+
+// RFC 2231 extended parameter value
+function encodeRfc2231(value: string): string {
+  return encodeURIComponent(value).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function quoteParam(value: string): string {
+  return value.replace(/(["\\])/g, "\\$1");
+}
+
+function assertHeaderValue(name: string, value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new ValidationError(`${name} cannot contain line breaks`);
+  }
+  return value;
+}
+
+// RFC 2045 quoted-printable with CRLF hard breaks and "=" soft breaks
+function encodeQuotedPrintable(content: string): string {
+  return content
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => {
+      const bytes = Buffer.from(line);
+      const tokens: string[] = [];
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1;
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) ||
+          ((byte === 32 || byte === 9) && !isLast);
+        tokens.push(
+          literal
+            ? String.fromCharCode(byte)
+            : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`
+        );
+      });
+
+      const wrapped: string[] = [];
+      let current = "";
+      for (const token of tokens) {
+        // Leave room for the trailing "=" of a soft break
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          wrapped.push(`${current}=`);
+          current = "";
+        }
+        current += token;
+      }
+      wrapped.push(current);
+      return wrapped.join(CRLF);
+    })
+    .join(CRLF);
+}
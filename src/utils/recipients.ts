@@ -0,0 +1,111 @@
+import type { ReplyMode } from "../types/index";
+
+import { ValidationError } from "./errors";
+import { isValidEmail } from "./helpers";
+
+export interface ReplyRecipients {
+  to: string[];
+  cc: string[];
+}
+
+/**
+ * Bare addresses from an address-list header such as
+ * `"Doe, Jane" <jane@example.com>, bob@example.com`. Commas inside quoted
+ * display names or angle brackets do not split entries.
+ */
+export function parseAddressList(header?: string | null): string[] {
+  if (!header) {
+    return [];
+  }
+
+  const entries: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (let i = 0; i < header.length; i++) {
+    const char = header[i];
+    if (char === "\\" && inQuotes) {
+      current += char + (header[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "<" && !inQuotes) inAngle = true;
+    else if (char === ">" && !inQuotes) inAngle = false;
+
+    if (char === "," && !inQuotes && !inAngle) {
+      entries.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map((entry) => {
+      const angle = entry.match(/<([^>]*)>/);
+      return (angle ? angle[1] : entry).trim();
+    })
+    .filter(Boolean);
+}
+
+/**
+ * Recipients for a reply to `message` sent by `selfAddress`. Reply-all adds
+ * the original To/Cc, dropping the user's own address and duplicates; when
+ * the user wrote the message being answered, its To list is reused.
+ */
+export function buildReplyRecipients(
+  mode: Exclude<ReplyMode, "forward">,
+  message: { from: string; to: string; cc?: string },
+  selfAddress: string
+): ReplyRecipients {
+  const self = selfAddress.toLowerCase();
+  const [sender] = parseAddressList(message.from);
+  const sentBySelf = sender?.toLowerCase() === self;
+  const originalTo = parseAddressList(message.to);
+
+  if (mode === "reply") {
+    return {
+      to: sentBySelf ? dedupeAddresses(originalTo, [self]) : [sender],
+      cc: [],
+    };
+  }
+
+  const to = dedupeAddresses(
+    sentBySelf ? originalTo : [sender, ...originalTo],
+    [self]
+  );
+  const cc = dedupeAddresses(parseAddressList(message.cc), [
+    self,
+    ...to.map((address) => address.toLowerCase()),
+  ]);
+
+  return { to, cc };
+}
+
+export function assertValidRecipients(
+  field: "to" | "cc" | "bcc",
+  addresses?: string[]
+): void {
+  const invalid = (addresses ?? []).filter((address) => !isValidEmail(address));
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Invalid ${field} address: ${invalid.join(", ")}`
+    );
+  }
+}
+
+// Case-insensitive dedupe that keeps the first spelling of each address
+function dedupeAddresses(addresses: string[], exclude: string[]): string[] {
+  const seen = new Set(exclude);
+  return addresses.filter((address) => {
+    const key = address.toLowerCase();
+    if (!address || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,85 @@
+import type { LLMSchema } from "../integrations/llm";
+
+/**
+ * Check a parsed value against the same schema that constrained the model's
+ * output. Returns one message per problem, each prefixed with its path
+ * (e.g. `toneAndFormality.formalityScore`); an empty list means valid.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: LLMSchema,
+  path: string = ""
+): string[] {
+  const at = path || "response";
+
+  switch (schema.type) {
+    case "object": {
+      if (!isPlainObject(value)) {
+        return [`${at}: expected an object`];
+      }
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined || value[key] === null) {
+          errors.push(`${joinPath(path, key)}: is required`);
+        }
+      }
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (value[key] !== undefined && value[key] !== null) {
+          errors.push(
+            ...validateSchema(value[key], property, joinPath(path, key))
+          );
+        }
+      }
+      return errors;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [`${at}: expected an array`];
+      }
+      const { items } = schema;
+      return items
+        ? value.flatMap((item, index) =>
+            validateSchema(item, items, `${path}[${index}]`)
+          )
+        : [];
+    }
+    case "string":
+      if (typeof value !== "string") {
+        return [`${at}: expected a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at}: must be one of ${schema.enum.join(", ")}`];
+      }
+      return [];
+    case "integer":
+    case "number":
+      if (
+        typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        (schema.type === "integer" && !Number.isInteger(value))
+      ) {
+        return [
+          `${at}: expected ${schema.type === "integer" ? "an integer" : "a number"}`,
+        ];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${at}: must be at least ${schema.minimum}`];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${at}: must be at most ${schema.maximum}`];
+      }
+      return [];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${at}: expected a boolean`];
+  }
+}
+
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,191 @@
+import type { SearchHighlight, SearchHighlightField } from "../types/index";
+
+import { ValidationError } from "./errors";
+
+/**
+ * A mail search in Gmail syntax, e.g.
+ * `from:alice subject:"q3 plan" is:unread after:2024/01/01 budget`.
+ * Values within one field are ANDed, as in Gmail.
+ */
+export interface ParsedSearchQuery {
+  // Free-text words and quoted phrases, matched across subject/body/from/to
+  text: string[];
+  from: string[];
+  to: string[];
+  subject: string[];
+  isUnread?: boolean;
+  // Exclusive upper / inclusive lower bound, at UTC midnight
+  before?: Date;
+  after?: Date;
+  hasDraft?: boolean;
+}
+
+const MAX_QUERY_LENGTH = 500;
+const SNIPPET_CONTEXT_CHARS = 80;
+
+// operator:"quoted value" | operator:value | "quoted phrase" | word
+const TOKEN_PATTERN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+// Gmail writes dates as 2024/01/31; ISO dashes are accepted too
+const DATE_PATTERN = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/;
+
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+  const input = (raw ?? "").trim();
+  if (input.length > MAX_QUERY_LENGTH) {
+    throw new ValidationError(
+      `Search query must be at most ${MAX_QUERY_LENGTH} characters`
+    );
+  }
+
+  const query: ParsedSearchQuery = { text: [], from: [], to: [], subject: [] };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, quotedOp, quotedValue, op, value, phrase, word] = match;
+    const operator = (quotedOp ?? op)?.toLowerCase();
+    const operand = (quotedValue ?? value ?? "").trim();
+
+    if (operator) {
+      if (!applyOperator(query, operator, operand)) {
+        // Unknown operators are plain text, as Gmail does with "re:" etc.
+        query.text.push(match[0]);
+      }
+      continue;
+    }
+
+    const text = (phrase ?? word).trim();
+    if (text) {
+      query.text.push(text);
+    }
+  }
+
+  if (query.before && query.after && query.after >= query.before) {
+    throw new ValidationError("after: must be earlier than before:");
+  }
+  if (isEmptyQuery(query)) {
+    throw new ValidationError("Search query is required");
+  }
+
+  return query;
+}
+
+export function isEmptyQuery(query: ParsedSearchQuery): boolean {
+  return (
+    query.text.length === 0 &&
+    query.from.length === 0 &&
+    query.to.length === 0 &&
+    query.subject.length === 0 &&
+    query.isUnread === undefined &&
+    query.before === undefined &&
+    query.after === undefined &&
+    query.hasDraft === undefined
+  );
+}
+
+/**
+ * Case-insensitive match ranges of every needle in `text`, merged where
+ * they overlap. Long bodies are cut to a window around the first match.
+ */
+export function highlightMatches(
+  field: SearchHighlightField,
+  text: string,
+  needles: string[]
+): SearchHighlight | null {
+  const ranges = findRanges(text, needles);
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  if (field !== "body") {
+    return { field, text, ranges };
+  }
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_CONTEXT_CHARS * 2);
+  return {
+    field,
+    text: text.slice(start, end),
+    ranges: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start, to - start]),
+  };
+}
+
+function applyOperator(
+  query: ParsedSearchQuery,
+  operator: string,
+  operand: string
+): boolean {
+  switch (operator) {
+    case "from":
+    case "to":
+    case "subject":
+      if (!operand) {
+        throw new ValidationError(`${operator}: needs a value`);
+      }
+      query[operator].push(operand);
+      return true;
+    case "is": {
+      const value = operand.toLowerCase();
+      if (value !== "unread" && value !== "read") {
+        throw new ValidationError(`Unsupported search operator is:${operand}`);
+      }
+      query.isUnread = value === "unread";
+      return true;
+    }
+    case "has":
+      if (operand.toLowerCase() !== "draft") {
+        throw new ValidationError(`Unsupported search operator has:${operand}`);
+      }
+      query.hasDraft = true;
+      return true;
+    case "before":
+    case "after":
+      query[operator] = parseSearchDate(operator, operand);
+      return true;
+    default:
+      return false;
+  }
+}
+
+function parseSearchDate(operator: string, value: string): Date {
+  const match = value.match(DATE_PATTERN);
+  if (match) {
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Reject rollovers such as 2024/02/31
+    if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+      return date;
+    }
+  }
+  throw new ValidationError(
+    `${operator}: expects a date like 2024/01/31, got "${value}"`
+  );
+}
+
+function findRanges(text: string, needles: string[]): Array<[number, number]> {
+  const haystack = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+
+  for (const needle of needles) {
+    const target = needle.toLowerCase();
+    if (!target) continue;
+
+    let index = haystack.indexOf(target);
+    while (index !== -1) {
+      ranges.push([index, index + target.length]);
+      index = haystack.indexOf(target, index + target.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,28 @@
+import type { ServerResponse } from "http";
+
+import type { FastifyReply } from "fastify";
+
+const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+};
+
+/**
+ * Take over the response and start a server-sent event stream. Headers
+ * already set on the reply (e.g. CORS) are copied over, since a hijacked
+ * reply no longer writes them.
+ */
+export function openEventStream(reply: FastifyReply): ServerResponse {
+  const res = reply.raw;
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) {
+      res.setHeader(name, value);
+    }
+  }
+
+  reply.hijack();
+  res.writeHead(200, EVENT_STREAM_HEADERS);
+  return res;
+}
@@ -0,0 +1,83 @@
+import type { StyleSample } from "../types/index";
+
+import { htmlToText } from "./html";
+import { separateQuotedText, separateSignature } from "./mailParser";
+
+export interface SentEmailInput {
+  id: string;
+  subject: string;
+  body: string;
+}
+
+export interface StyleSampleOptions {
+  // Rough token allowance for all samples combined
+  tokenBudget?: number;
+  maxSamples?: number;
+  // Samples shorter than this carry too little style signal
+  minChars?: number;
+  maxCharsPerSample?: number;
+}
+
+const DEFAULT_SAMPLE_OPTIONS: Required<StyleSampleOptions> = {
+  tokenBudget: 3000,
+  maxSamples: 10,
+  minChars: 40,
+  maxCharsPerSample: 1500,
+};
+
+// Roughly four characters per token for English prose
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function cleanSentEmailBody(body: string): string {
+  const text = /<[a-z][\s\S]*>/i.test(body) ? htmlToText(body) : body;
+  return separateSignature(separateQuotedText(text).text).text;
+}
+
+/**
+ * Clean sent emails and keep as many as fit in the token budget, in the
+ * order given (callers pass newest first). Near-empty and duplicate bodies
+ * are skipped; long ones are truncated rather than dropped.
+ */
+export function selectStyleSamples(
+  emails: SentEmailInput[],
+  options: StyleSampleOptions = {}
+): StyleSample[] {
+  const { tokenBudget, maxSamples, minChars, maxCharsPerSample } = {
+    ...DEFAULT_SAMPLE_OPTIONS,
+    ...options,
+  };
+
+  const samples: StyleSample[] = [];
+  const seenBodies = new Set<string>();
+  let remainingTokens = tokenBudget;
+
+  for (const email of emails) {
+    if (samples.length >= maxSamples || remainingTokens <= 0) break;
+
+    let body = cleanSentEmailBody(email.body);
+    if (body.length < minChars) continue;
+
+    const fingerprint = body.toLowerCase().replace(/\s+/g, " ");
+    if (seenBodies.has(fingerprint)) continue;
+    seenBodies.add(fingerprint);
+
+    const maxChars = Math.min(maxCharsPerSample, remainingTokens * 4);
+    if (body.length > maxChars) {
+      if (maxChars < minChars) break;
+      body = body.slice(0, maxChars).trimEnd();
+    }
+
+    const estimatedTokens = estimateTokens(body);
+    samples.push({
+      id: email.id,
+      subject: email.subject,
+      body,
+      estimatedTokens,
+    });
+    remainingTokens -= estimatedTokens;
+  }
+
+  return samples;
+}
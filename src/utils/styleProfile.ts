@@ -0,0 +1,452 @@
+import type { LLMSchema } from "../integrations/llm";
+import type { AIStyleProfile } from "../types/index";
+
+import { isPlainObject, validateSchema } from "./schema";
+
+/**
+ * Shape the model must return for a style profile. Sent as the structured
+ * output schema and checked again at runtime, since providers do not all
+ * enforce it.
+ */
+export const STYLE_PROFILE_SCHEMA: LLMSchema = {
+  type: "object",
+  properties: {
+    toneAndFormality: {
+      type: "object",
+      properties: {
+        primaryTone: {
+          type: "string",
+          enum: [
+            "Friendly",
+            "Formal",
+            "Direct",
+            "Diplomatic",
+            "Casual",
+            "Professional",
+          ],
+        },
+        secondaryTone: {
+          type: "string",
+          enum: [
+            "Friendly",
+            "Formal",
+            "Direct",
+            "Diplomatic",
+            "Casual",
+            "Professional",
+            "null",
+          ],
+        },
+        formalityScore: {
+          type: "integer",
+          minimum: 1,
+          maximum: 5,
+        },
+        toneFlexibility: {
+          type: "string",
+          enum: ["Rigid", "Moderate", "Highly Adaptive"],
+        },
+      },
+      required: ["primaryTone", "formalityScore", "toneFlexibility"],
+    },
+    structuralPreferences: {
+      type: "object",
+      properties: {
+        greetingStyle: {
+          type: "object",
+          properties: {
+            newContact: {
+              type: "array",
+              items: { type: "string" },
+            },
+            colleague: {
+              type: "array",
+              items: { type: "string" },
+            },
+            manager: {
+              type: "array",
+              items: { type: "string" },
+            },
+          },
+          required: ["newContact", "colleague", "manager"],
+        },
+        closingStyle: {
+          type: "object",
+          properties: {
+            formal: {
+              type: "array",
+              items: { type: "string" },
+            },
+            casual: {
+              type: "array",
+              items: { type: "string" },
+            },
+          },
+          required: ["formal", "casual"],
+        },
+        sentenceComplexity: {
+          type: "string",
+          enum: ["Simple", "Moderate", "Complex"],
+        },
+        paragraphLength: {
+          type: "string",
+          enum: [
+            "Short (1-2 sentences)",
+            "Medium (3-4 sentences)",
+            "Long (5+ sentences)",
+          ],
+        },
+        useOfFormatting: {
+          type: "string",
+          enum: ["Minimal", "Moderate", "Heavy (bullet points, bolding)"],
+        },
+        prefersBulletPoints: { type: "boolean" },
+      },
+      required: [
+        "greetingStyle",
+        "closingStyle",
+        "sentenceComplexity",
+        "paragraphLength",
+        "useOfFormatting",
+        "prefersBulletPoints",
+      ],
+    },
+    lexicalFeatures: {
+      type: "object",
+      properties: {
+        vocabularyLevel: {
+          type: "string",
+          enum: ["Simple", "Moderate", "Advanced", "Technical"],
+        },
+        emojiUsage: {
+          type: "string",
+          enum: ["Never", "Rare", "Occasional", "Frequent"],
+        },
+        commonPhrases: {
+          type: "array",
+          items: { type: "string" },
+        },
+        fillerWords: {
+          type: "array",
+          items: { type: "string" },
+        },
+        technicalJargon: {
+          type: "string",
+          enum: ["Low", "Medium", "High"],
+        },
+      },
+      required: [
+        "vocabularyLevel",
+        "emojiUsage",
+        "commonPhrases",
+        "fillerWords",
+        "technicalJargon",
+      ],
+    },
+    communicationProfile: {
+      type: "object",
+      properties: {
+        orientation: {
+          type: "string",
+          enum: ["Task-Oriented", "Relationship-Oriented", "Balanced"],
+        },
+        directness: {
+          type: "string",
+          enum: ["Very Direct", "Moderate", "Diplomatic"],
+        },
+        responsivenessStyle: {
+          type: "string",
+          enum: [
+            "Immediate and Brief",
+            "Thoughtful and Detailed",
+            "Contextual",
+          ],
+        },
+        conflictHandling: {
+          type: "string",
+          enum: ["Apologetic", "Solution-Focused", "Empathetic", "Direct"],
+        },
+      },
+      required: [
+        "orientation",
+        "directness",
+        "responsivenessStyle",
+        "conflictHandling",
+      ],
+    },
+    contextualAdaptation: {
+      type: "object",
+      properties: {
+        formalityRangeByAudience: {
+          type: "object",
+          properties: {
+            colleague: { type: "integer", minimum: 1, maximum: 5 },
+            client: { type: "integer", minimum: 1, maximum: 5 },
+            manager: { type: "integer", minimum: 1, maximum: 5 },
+          },
+          required: ["colleague", "client", "manager"],
+        },
+        lengthVariationByContext: {
+          type: "object",
+          properties: {
+            simpleRequest: {
+              type: "string",
+              enum: ["1-2 sentences", "3-5 sentences", "Full paragraph"],
+            },
+            apology: {
+              type: "string",
+              enum: ["Brief", "Moderate", "Detailed"],
+            },
+            refusal: {
+              type: "string",
+              enum: ["Direct", "Softened", "Alternative-Focused"],
+            },
+          },
+          required: ["simpleRequest", "apology", "refusal"],
+        },
+      },
+      required: ["formalityRangeByAudience", "lengthVariationByContext"],
+    },
+    writingHabits: {
+      type: "object",
+      properties: {
+        petPeeves: {
+          type: "array",
+          items: { type: "string" },
+        },
+        signatureElements: {
+          type: "array",
+          items: { type: "string" },
+        },
+        openingStrategy: {
+          type: "string",
+          enum: ["Direct to point", "Warm greeting first", "Context setting"],
+        },
+        closingStrategy: {
+          type: "string",
+          enum: ["Brief", "Warm", "Action-oriented"],
+        },
+      },
+      required: [
+        "petPeeves",
+        "signatureElements",
+        "openingStrategy",
+        "closingStrategy",
+      ],
+    },
+  },
+  required: [
+    "toneAndFormality",
+    "structuralPreferences",
+    "lexicalFeatures",
+    "communicationProfile",
+    "contextualAdaptation",
+    "writingHabits",
+  ],
+};
+
+// Neutral, professional values used for fields the model got wrong
+export const DEFAULT_STYLE_PROFILE: AIStyleProfile = {
+  toneAndFormality: {
+    primaryTone: "Professional",
+    formalityScore: 3,
+    toneFlexibility: "Moderate",
+  },
+  structuralPreferences: {
+    greetingStyle: {
+      newContact: ["Hello"],
+      colleague: ["Hi"],
+      manager: ["Hi"],
+    },
+    closingStyle: {
+      formal: ["Best regards"],
+      casual: ["Thanks"],
+    },
+    sentenceComplexity: "Moderate",
+    paragraphLength: "Short (1-2 sentences)",
+    useOfFormatting: "Minimal",
+    prefersBulletPoints: false,
+  },
+  lexicalFeatures: {
+    vocabularyLevel: "Moderate",
+    emojiUsage: "Never",
+    commonPhrases: [],
+    fillerWords: [],
+    technicalJargon: "Low",
+  },
+  communicationProfile: {
+    orientation: "Balanced",
+    directness: "Moderate",
+    responsivenessStyle: "Contextual",
+    conflictHandling: "Solution-Focused",
+  },
+  contextualAdaptation: {
+    formalityRangeByAudience: {
+      colleague: 2,
+      client: 4,
+      manager: 3,
+    },
+    lengthVariationByContext: {
+      simpleRequest: "1-2 sentences",
+      apology: "Brief",
+      refusal: "Softened",
+    },
+  },
+  writingHabits: {
+    petPeeves: [],
+    signatureElements: [],
+    openingStrategy: "Direct to point",
+    closingStrategy: "Brief",
+  },
+};
+
+// Above this share of defaulted fields the result says little about the user
+const MAX_REPAIRED_FIELD_RATIO = 0.5;
+
+export interface StyleProfileRepair {
+  profile: AIStyleProfile;
+  // Paths of the fields replaced with defaults
+  repairedFields: string[];
+}
+
+export function validateStyleProfile(value: unknown): string[] {
+  return validateSchema(value, STYLE_PROFILE_SCHEMA);
+}
+
+/**
+ * Keep every valid field of a model response and fill the rest from
+ * DEFAULT_STYLE_PROFILE. Returns null when so much is missing or wrong that
+ * the result would mostly be the defaults.
+ */
+export function repairStyleProfile(value: unknown): StyleProfileRepair | null {
+  const repairedFields: string[] = [];
+  const profile = repairValue(
+    value,
+    STYLE_PROFILE_SCHEMA,
+    DEFAULT_STYLE_PROFILE,
+    "",
+    repairedFields
+  ) as AIStyleProfile;
+
+  const fieldCount = leafPaths(STYLE_PROFILE_SCHEMA, "").length;
+  if (repairedFields.length > fieldCount * MAX_REPAIRED_FIELD_RATIO) {
+    return null;
+  }
+  return { profile, repairedFields };
+}
+
+/**
+ * Apply a field-level edit. Sections and nested objects merge key by key;
+ * arrays and values replace, and null removes an optional field. Unknown
+ * fields, including the evidence block that only generation sets, are
+ * rejected, and the merged profile must pass validateStyleProfile.
+ */
+export function applyStyleProfilePatch(
+  profile: AIStyleProfile,
+  patch: unknown
+): { profile: AIStyleProfile; errors: string[] } {
+  if (!isPlainObject(patch) || Object.keys(patch).length === 0) {
+    return {
+      profile,
+      errors: ["patch: expected at least one field to change"],
+    };
+  }
+
+  const errors: string[] = [];
+  const merged = mergePatch(
+    { ...profile },
+    patch,
+    STYLE_PROFILE_SCHEMA,
+    "",
+    errors
+  ) as unknown as AIStyleProfile;
+  if (errors.length === 0) {
+    errors.push(...validateStyleProfile(merged));
+  }
+  return { profile: merged, errors };
+}
+
+function mergePatch(
+  target: Record<string, unknown>,
+  patch: Record<string, unknown>,
+  schema: LLMSchema,
+  path: string,
+  errors: string[]
+): Record<string, unknown> {
+  const merged = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    const childPath = path ? `${path}.${key}` : key;
+    const property = schema.properties?.[key];
+    if (!property) {
+      errors.push(`${childPath}: is not an editable field`);
+    } else if (value === null) {
+      if (schema.required?.includes(key)) {
+        errors.push(`${childPath}: is required`);
+      }
+      delete merged[key];
+    } else if (property.type === "object" && isPlainObject(value)) {
+      merged[key] = mergePatch(
+        isPlainObject(target[key]) ? target[key] : {},
+        value,
+        property,
+        childPath,
+        errors
+      );
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function repairValue(
+  value: unknown,
+  schema: LLMSchema,
+  fallback: unknown,
+  path: string,
+  repairedFields: string[]
+): unknown {
+  if (schema.type !== "object") {
+    if (validateSchema(value, schema, path).length === 0) {
+      return value;
+    }
+    repairedFields.push(path);
+    return fallback;
+  }
+
+  if (!isPlainObject(value)) {
+    repairedFields.push(...leafPaths(schema, path));
+    return fallback;
+  }
+
+  const fallbackObject = isPlainObject(fallback) ? fallback : {};
+  const repaired: Record<string, unknown> = {};
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const childPath = path ? `${path}.${key}` : key;
+    const missing = value[key] === undefined || value[key] === null;
+    if (missing && !schema.required?.includes(key)) {
+      continue;
+    }
+    const next = repairValue(
+      value[key],
+      property,
+      fallbackObject[key],
+      childPath,
+      repairedFields
+    );
+    // Optional fields without a default are dropped rather than guessed
+    if (next !== undefined) {
+      repaired[key] = next;
+    }
+  }
+  return repaired;
+}
+
+function leafPaths(schema: LLMSchema, path: string): string[] {
+  if (schema.type !== "object") {
+    return [path];
+  }
+  return Object.entries(schema.properties ?? {}).flatMap(([key, property]) =>
+    leafPaths(property, path ? `${path}.${key}` : key)
+  );
+}